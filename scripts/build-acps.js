@@ -13,10 +13,61 @@ const __dirname = path.dirname(__filename);
 const ACPS_DIR = path.join(__dirname, "../public/acps/ACPs");
 const OUTPUT_DIR = path.join(__dirname, "../public/acps");
 const OUTPUT_FILE = path.join(OUTPUT_DIR, "processed-acps.json");
+const SEARCH_INDEX_FILE = path.join(OUTPUT_DIR, "search-index.json");
+const HISTORY_DIR = path.join(OUTPUT_DIR, "history");
+const ACTIVITY_FILE = path.join(OUTPUT_DIR, "activity.json");
+const FEED_FILE = path.join(OUTPUT_DIR, "feed.xml");
+const SITE_URL = (process.env.SITE_URL || "https://l1beat.io").replace(/\/$/, "");
+// Number of most recent events in the Atom feed
+const FEED_SIZE = 50;
+
+// Search index fields and their ranking boosts, in posting field order
+const SEARCH_FIELDS = [
+  { name: "title", boost: 4 },
+  { name: "keywords", boost: 3 },
+  { name: "abstract", boost: 2 },
+  { name: "searchableText", boost: 1.5 },
+  { name: "sections", boost: 1 },
+];
+
+// Words too common in ACPs to be worth indexing
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by can for from has have in into is it its of on or " +
+    "that the this to was were which will with does acp acps"
+  ).split(" ")
+);
+
+// Words are split on the raw text first and folded afterwards, exactly like
+// tokenize() in src/utils/acpSearch.ts, so the two must be kept in sync.
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+// Index term for one word, or null for stop words
+function normalizeTerm(word) {
+  // "ACP77" is indexed as the number, like "ACP-77"
+  const folded = word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/^acp(?=\d+$)/, "");
+  const term =
+    folded.length > 3 && /[^siu]s$/.test(folded) ? folded.slice(0, -1) : folded;
+  return term.length > 1 && !STOP_WORDS.has(term) ? term : null;
+}
+
+function tokenize(text) {
+  return ((text || "").match(WORD_PATTERN) || [])
+    .map(normalizeTerm)
+    .filter((term) => term !== null);
+}
 
 class EnhancedACPBuilder {
   constructor() {
     this.acps = [];
+    // Section bodies per ACP number, only needed for the search index
+    this.sectionBodies = new Map();
+    // Revisions with full content per ACP number, written to HISTORY_DIR
+    this.histories = new Map();
     this.stats = {
       total: 0,
       byStatus: {},
@@ -150,6 +201,42 @@ class EnhancedACPBuilder {
       fs.writeFileSync(OUTPUT_FILE, JSON.stringify(output, null, 2));
       console.log(`\n✅ Successfully processed ${this.acps.length} ACPs`);
       console.log(`📄 Data written to: ${OUTPUT_FILE}`);
+
+      // Write one revision history file per ACP, loaded on demand
+      fs.mkdirSync(HISTORY_DIR, { recursive: true });
+      this.histories.forEach((revisions, number) => {
+        fs.writeFileSync(
+          path.join(HISTORY_DIR, `${number}.json`),
+          JSON.stringify({ number, revisions })
+        );
+      });
+      console.log(
+        `🕘 Revision history for ${this.histories.size} ACPs written to: ${HISTORY_DIR}`
+      );
+
+      // Write the activity feed as JSON for the site and Atom for subscribers
+      const events = this.buildActivityEvents();
+      fs.writeFileSync(
+        ACTIVITY_FILE,
+        JSON.stringify(
+          { events, metadata: { lastUpdated: new Date().toISOString() } },
+          null,
+          2
+        )
+      );
+      fs.writeFileSync(FEED_FILE, this.buildAtomFeed(events));
+      console.log(
+        `📰 ${events.length} activity events written to: ${ACTIVITY_FILE} and ${FEED_FILE}`
+      );
+
+      // Write the full-text search index next to the data
+      const searchIndex = this.buildSearchIndex();
+      fs.writeFileSync(SEARCH_INDEX_FILE, JSON.stringify(searchIndex));
+      console.log(
+        `🔎 Search index with ${
+          Object.keys(searchIndex.terms).length
+        } terms written to: ${SEARCH_INDEX_FILE}`
+      );
       console.log(`\n📊 Statistics:`);
       console.log(`   Total ACPs: ${this.stats.total}`);
       console.log(
@@ -186,13 +273,103 @@ class EnhancedACPBuilder {
 
     // Get git metadata if available
     const gitMetadata = this.getGitMetadata(readmePath);
+    const revisions = this.getRevisionHistory(readmePath);
+    if (revisions.length > 0) {
+      gitMetadata.created =
+        gitMetadata.created || revisions[revisions.length - 1].date;
+      gitMetadata.updated = gitMetadata.updated || revisions[0].date;
+    }
 
-    return this.parseEnhancedACPMarkdown(
+    const acp = this.parseEnhancedACPMarkdown(
       content,
       number,
       folderName,
       gitMetadata
     );
+    if (acp) {
+      this.histories.set(number, revisions);
+      // Keep the summary in the main data, without the file contents
+      acp.revisions = revisions.map(({ content, ...revision }) => revision);
+    }
+    return acp;
+  }
+
+  // Commits that touched an ACP, newest first, with the file content and
+  // status at each one. Runs git inside the file's own repository so it also
+  // works when the ACPs are a submodule.
+  getRevisionHistory(filePath) {
+    const cwd = path.dirname(filePath);
+    try {
+      const logResult = spawnSync(
+        "git",
+        [
+          "log",
+          "--follow",
+          "--format=%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%s",
+          "--name-only",
+          "--",
+          path.basename(filePath),
+        ],
+        { encoding: "utf-8", cwd, maxBuffer: 16 * 1024 * 1024 }
+      );
+      if (logResult.status !== 0 || !logResult.stdout) return [];
+
+      const revisions = logResult.stdout
+        .split("\x1e")
+        .filter((record) => record.trim())
+        .map((record) => {
+          const [header, ...files] = record.trim().split("\n");
+          const [hash, author, email, date, message] = header.split("\x1f");
+          // Path at that commit, relative to the repository root
+          const file = files.map((line) => line.trim()).find(Boolean);
+          const showResult = spawnSync("git", ["show", `${hash}:${file}`], {
+            encoding: "utf-8",
+            cwd,
+            maxBuffer: 16 * 1024 * 1024,
+          });
+          const content = showResult.status === 0 ? showResult.stdout : "";
+          return {
+            hash,
+            author,
+            email,
+            date,
+            message,
+            status: this.extractStatus(content),
+            previousStatus: null,
+            replacedBy: this.extractReplacedBy(content),
+            content,
+          };
+        });
+
+      // Mark status changes against the next older revision
+      revisions.forEach((revision, index) => {
+        const older = revisions[index + 1];
+        if (older && older.status !== revision.status) {
+          revision.previousStatus = older.status;
+        }
+      });
+      return revisions;
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not get revision history for ${filePath}:`,
+        error.message
+      );
+      return [];
+    }
+  }
+
+  // ACP number from a "Superseded By" / "Replaced By" table row or section
+  extractReplacedBy(markdown) {
+    const match = markdown.match(
+      /(?:superseded|replaced)[ -]by[^a-z0-9]{0,40}ACP-(\d+)/i
+    );
+    return match ? match[1] : null;
+  }
+
+  // Clean status from the metadata table of an ACP README
+  extractStatus(markdown) {
+    const match = markdown.match(/^\|\s*\**status\**\s*\|\s*(.+?)\s*\|/im);
+    return match ? this.getCleanStatus(match[1].replace(/\*\*/g, "")) : "Unknown";
   }
 
   getGitMetadata(filePath) {
@@ -425,6 +602,30 @@ class EnhancedACPBuilder {
       // Determine impact
       metadata.impact = this.calculateImpact(metadata);
 
+      // Search fields
+      metadata.keywords = Array.from(
+        new Set(
+          [...metadata.tags, metadata.category, metadata.track]
+            .filter((keyword) => keyword && keyword !== "Unknown")
+            .map((keyword) => keyword.toLowerCase())
+        )
+      );
+      metadata.searchableText = [
+        `ACP-${Number(acpNumber)}`,
+        metadata.title,
+        ...metadata.authors.flatMap((author) => [author.name, author.github]),
+        metadata.motivation,
+      ]
+        .filter(Boolean)
+        .join(" ");
+      this.sectionBodies.set(
+        acpNumber,
+        Object.entries(sectionContent)
+          .filter(([section]) => section !== "abstract")
+          .map(([section, body]) => `${section}\n${body}`)
+          .join("\n")
+      );
+
       // Set implementation status based on main status
       metadata.implementationStatus = this.getImplementationStatus(
         metadata.status
@@ -712,6 +913,148 @@ class EnhancedACPBuilder {
     }
   }
 
+  // New ACPs, status transitions and replaced-by changes from the revision
+  // history, newest first
+  buildActivityEvents() {
+    const events = [];
+    this.acps.forEach((acp) => {
+      const revisions = [...(acp.revisions || [])].reverse();
+      revisions.forEach((revision, index) => {
+        const base = {
+          number: acp.number,
+          title: acp.title,
+          date: revision.date,
+          hash: revision.hash,
+          author: revision.author,
+          message: revision.message,
+          status: revision.status,
+        };
+        if (index === 0) {
+          events.push({
+            ...base,
+            id: `${revision.hash}-${acp.number}-created`,
+            type: "created",
+          });
+        }
+        if (revision.previousStatus) {
+          events.push({
+            ...base,
+            id: `${revision.hash}-${acp.number}-status-changed`,
+            type: "status-changed",
+            previousStatus: revision.previousStatus,
+          });
+        }
+        const older = revisions[index - 1];
+        if (revision.replacedBy && revision.replacedBy !== older?.replacedBy) {
+          events.push({
+            ...base,
+            id: `${revision.hash}-${acp.number}-replaced`,
+            type: "replaced",
+            replacedBy: revision.replacedBy,
+          });
+        }
+      });
+    });
+    // Reversed first so events of the same commit keep newest-first order
+    return events
+      .reverse()
+      .sort((a, b) => new Date(b.date) - new Date(a.date));
+  }
+
+  buildAtomFeed(events) {
+    const escapeXml = (value) =>
+      String(value)
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+    const describe = (event) => {
+      switch (event.type) {
+        case "created":
+          return `New ACP-${event.number}: ${event.title}`;
+        case "status-changed":
+          return `ACP-${event.number} ${event.previousStatus} → ${event.status}: ${event.title}`;
+        default:
+          return `ACP-${event.number} replaced by ACP-${event.replacedBy}: ${event.title}`;
+      }
+    };
+
+    const recent = events.slice(0, FEED_SIZE);
+    const updated = recent[0]?.date || new Date().toISOString();
+    const entries = recent.map((event) => {
+      const url = `${SITE_URL}/acps/${event.number}`;
+      return [
+        "  <entry>",
+        `    <id>${escapeXml(`${url}#${event.id}`)}</id>`,
+        `    <title>${escapeXml(describe(event))}</title>`,
+        `    <link href="${escapeXml(url)}"/>`,
+        `    <updated>${escapeXml(event.date)}</updated>`,
+        `    <author><name>${escapeXml(event.author)}</name></author>`,
+        `    <summary>${escapeXml(event.message)}</summary>`,
+        "  </entry>",
+      ].join("\n");
+    });
+
+    return [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      "  <title>L1Beat - ACP Activity</title>",
+      "  <subtitle>New Avalanche Community Proposals and status changes</subtitle>",
+      `  <id>${SITE_URL}/acps/activity</id>`,
+      `  <link href="${SITE_URL}/acps/activity"/>`,
+      `  <link rel="self" href="${SITE_URL}/acps/feed.xml"/>`,
+      `  <updated>${escapeXml(updated)}</updated>`,
+      ...entries,
+      "</feed>",
+      "",
+    ].join("\n");
+  }
+
+  // Inverted index for BM25 ranking in the browser. Postings are
+  // [document index, field index, term frequency] triples.
+  buildSearchIndex() {
+    const terms = {};
+    const totals = SEARCH_FIELDS.map(() => 0);
+
+    const documents = this.acps.map((acp, docIndex) => {
+      const fieldText = {
+        title: acp.title,
+        keywords: acp.keywords.join(" "),
+        abstract: acp.abstract,
+        searchableText: acp.searchableText,
+        sections: this.sectionBodies.get(acp.number) || "",
+      };
+
+      const lengths = SEARCH_FIELDS.map((field, fieldIndex) => {
+        const tokens = tokenize(fieldText[field.name]);
+        const frequencies = new Map();
+        tokens.forEach((token) =>
+          frequencies.set(token, (frequencies.get(token) || 0) + 1)
+        );
+        frequencies.forEach((frequency, term) => {
+          if (!Object.prototype.hasOwnProperty.call(terms, term)) {
+            terms[term] = [];
+          }
+          terms[term].push([docIndex, fieldIndex, frequency]);
+        });
+        totals[fieldIndex] += tokens.length;
+        return tokens.length;
+      });
+
+      return { number: acp.number, lengths };
+    });
+
+    return {
+      version: 1,
+      fields: SEARCH_FIELDS,
+      documents,
+      averageLengths: totals.map((total) =>
+        documents.length ? total / documents.length : 0
+      ),
+      terms,
+    };
+  }
+
   calculateStats() {
     this.stats.total = this.acps.length;
 
@@ -2,11 +2,20 @@ import React, { useEffect } from 'react';
 import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Dashboard } from './pages/Dashboard';
 import { ChainDetails } from './pages/ChainDetails';
+import { Compare } from './pages/Compare';
+import { Teleporter } from './pages/Teleporter';
+import { Alerts } from './pages/Alerts';
 import ACPs  from './pages/ACPs';
 import ACPDetails  from './pages/ACPDetails';
+import ACPGraph from './pages/ACPGraph';
+import ACPActivity from './pages/ACPActivity';
+import ACPAuthors from './pages/ACPAuthors';
+import ACPAuthor from './pages/ACPAuthor';
 import { BlogList } from './pages/BlogList';
 import { BlogPost } from './pages/BlogPost';
 import { NotFound } from './pages/NotFound';
+import { SchemaDriftOverlay } from './components/SchemaDriftOverlay';
+import { AlertMonitor } from './components/AlertMonitor';
 
 function App() {
   const location = useLocation();
@@ -57,6 +66,9 @@ function App() {
         link.closest('.nav') ||
         target.closest('.navigation') ||
         hrefAttr === '/acps' ||
+        hrefAttr.startsWith('/acps/authors') ||
+        hrefAttr.startsWith('/acps/graph') ||
+        hrefAttr.startsWith('/acps/activity') ||
         hrefAttr === '/' ||
         hrefAttr.startsWith('/blog') ||
         hrefAttr.startsWith('/chain') ||
@@ -92,16 +104,27 @@ function App() {
   }, [location.pathname, navigate]);
 
   return (
-    <Routes>
-      <Route path="/" element={<Dashboard />} />
-      <Route path="/chain/:chainId" element={<ChainDetails />} />
-      <Route path="/acps" element={<ACPs />} />
-      <Route path="/acps/:acpNumber" element={<ACPDetails />} />
-      <Route path="/blog" element={<BlogList />} />
-      <Route path="/blog/:slug" element={<BlogPost />} />
-      <Route path="/404" element={<NotFound />} />
-      <Route path="*" element={<Navigate to="/404" replace />} />
-    </Routes>
+    <>
+      <Routes>
+        <Route path="/" element={<Dashboard />} />
+        <Route path="/chain/:chainId" element={<ChainDetails />} />
+        <Route path="/compare" element={<Compare />} />
+        <Route path="/teleporter" element={<Teleporter />} />
+        <Route path="/alerts" element={<Alerts />} />
+        <Route path="/acps" element={<ACPs />} />
+        <Route path="/acps/graph" element={<ACPGraph />} />
+        <Route path="/acps/activity" element={<ACPActivity />} />
+        <Route path="/acps/authors" element={<ACPAuthors />} />
+        <Route path="/acps/authors/:github" element={<ACPAuthor />} />
+        <Route path="/acps/:acpNumber" element={<ACPDetails />} />
+        <Route path="/blog" element={<BlogList />} />
+        <Route path="/blog/:slug" element={<BlogPost />} />
+        <Route path="/404" element={<NotFound />} />
+        <Route path="*" element={<Navigate to="/404" replace />} />
+      </Routes>
+      <AlertMonitor />
+      {import.meta.env.DEV && <SchemaDriftOverlay />}
+    </>
   );
 }
 
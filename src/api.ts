@@ -1,5 +1,29 @@
-import type { Chain, TVLHistory, TVLHealth, NetworkTPS, TPSHistory, HealthStatus, TeleporterMessageData, TeleporterDailyData, CumulativeTxCount, CumulativeTxCountResponse } from './types';
+import type { Chain, Validator, ValidatorSnapshot, TVLHistory, TVLHealth, NetworkTPS, TPSHistory, HealthStatus, TeleporterMessageData, TeleporterDailyData, CumulativeTxCount, Timeframe } from './types';
 import { config } from './config';
+import { apiFetch } from './api/http';
+import { queryClient } from './services/queryClient';
+import { offlineCache } from './services/offlineCache';
+import { filterToTimeframe, getTimeframeDays, getTimeframeKey } from './utils/timeframe';
+import {
+  parseResponse,
+  parseItems,
+  chainsResponseSchema,
+  rawChainSchema,
+  rawValidatorSnapshotSchema,
+  tvlHistoryResponseSchema,
+  tvlHistorySchema,
+  tvlHealthSchema,
+  listResponseSchema,
+  rawTpsHistorySchema,
+  cumulativeTxCountSchema,
+  networkTpsResponseSchema,
+  healthResponseSchema,
+  teleporterMessagesResponseSchema,
+  teleporterCountSchema,
+  teleporterDailyResponseSchema,
+  teleporterDailyDataSchema,
+} from './api/schemas';
+import type { RawValidator } from './api/schemas';
 
 // XSS protection - sanitize strings in API responses
 function sanitizeString(value: string): string {
@@ -40,10 +64,27 @@ function sanitizeResponse(data: any): any {
   return data;
 }
 
-// Add caching layer for API responses
-const cache = new Map<string, { data: any; timestamp: number }>();
+// Cache lifetime for API responses; entries are shared through queryClient
 const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
 
+// Cache keys for every endpoint, shared with useQuery subscribers
+export const queryKeys = {
+  chains: 'chains',
+  tvlHistory: (timeframe: Timeframe) => `tvl-history-${getTimeframeKey(timeframe)}`,
+  tvlHealth: 'tvl-health',
+  tpsHistory: (timeframe: Timeframe, chainId?: string) => `tps-history-${chainId || 'network'}-${getTimeframeKey(timeframe)}`,
+  cumulativeTxCount: (chainId: string, timeframe: Timeframe) => `cumulative-tx-${chainId}-${getTimeframeKey(timeframe)}`,
+  validatorHistory: (chainId: string, days: number) => `validator-history-${chainId}-${days}`,
+  // Combined queries for several chains; the per-chain entries are cached separately
+  compareTpsHistory: (chainIds: string[], timeframe: Timeframe) => `compare-tps-${getTimeframeKey(timeframe)}-${chainIds.join(',')}`,
+  compareCumulativeTxCount: (chainIds: string[], timeframe: Timeframe) => `compare-tx-${getTimeframeKey(timeframe)}-${chainIds.join(',')}`,
+  networkTps: 'network-tps',
+  health: 'health-status',
+  teleporterMessages: 'teleporter-messages',
+  teleporterWeeklyMessages: 'teleporter-weekly-messages',
+  teleporterDailyHistory: (timeframe: Timeframe) => `teleporter-daily-history-${getTimeframeKey(timeframe)}`,
+} as const;
+
 const BASE_URL = config.apiBaseUrl;
 const API_URL = `${BASE_URL}/api`;
 const EXPLORER_URL = 'https://subnets.avax.network';
@@ -100,42 +141,91 @@ const apiRequestTracker = {
   }
 };
 
+interface CacheOptions<T> {
+  // Persist successful responses to IndexedDB and serve them as an offline
+  // snapshot once fetchWithRetry has given up
+  persist?: boolean;
+  // Returned when the request fails and there is no snapshot to fall back on
+  fallback?: T;
+}
+
+// Fallback values handed out by fetchWithCache, so callers can tell them from real data
+const fallbackResults = new WeakSet<object>();
+
+/**
+ * Whether a getter returned its placeholder fallback because the request failed
+ * and no snapshot was available, rather than data from the API
+ */
+export function isFallbackData(data: unknown): boolean {
+  return typeof data === 'object' && data !== null && fallbackResults.has(data);
+}
+
 async function fetchWithCache<T>(
   key: string,
   fetcher: () => Promise<T>,
-  duration: number = CACHE_DURATION
+  duration: number = CACHE_DURATION,
+  options: CacheOptions<T> = {}
 ): Promise<T> {
-  const cached = cache.get(key);
-  const now = Date.now();
+  const { persist = false } = options;
 
-  if (cached && now - cached.timestamp < duration) {
-    return cached.data;
-  }
-  
   // Check if we're rate-limited
   if (apiRequestTracker.isRateLimited) {
     console.warn(`Request to ${key} was blocked by rate limiting`);
     
     // If we have cached data (even if expired), use it
-    if (cached) {
+    const cached = queryClient.getEntry<T>(key);
+    if (cached?.data !== undefined) {
       console.log(`Using stale cached data for ${key} due to rate limiting`);
       return cached.data;
     }
   }
-  
-  // Record the request attempt
-  apiRequestTracker.recordRequest();
 
-  // Fetch fresh data
-  const data = await fetcher();
-  
-  // Sanitize the response data to prevent XSS
-  const sanitizedData = sanitizeResponse(data);
-  
-  // Cache the sanitized data
-  cache.set(key, { data: sanitizedData, timestamp: now });
-  
-  return sanitizedData;
+  try {
+    // Fresh, in-flight and stale-while-revalidate handling live in queryClient
+    return await queryClient.fetch(key, async () => {
+      // Record the request attempt
+      apiRequestTracker.recordRequest();
+
+      let data: T;
+      try {
+        data = await fetcher();
+      } catch (error) {
+        // A background refresh failed, so the data on screen is now a snapshot
+        const current = queryClient.getEntry<T>(key);
+        if (persist && current?.data !== undefined) {
+          offlineCache.markOffline(key, current.updatedAt);
+        }
+        throw error;
+      }
+
+      // Sanitize the response data to prevent XSS
+      const sanitized = sanitizeResponse(data) as T;
+
+      if (persist) {
+        offlineCache.markOnline(key);
+        offlineCache.set(key, sanitized);
+      }
+
+      return sanitized;
+    }, { staleTime: duration });
+  } catch (error) {
+    if (persist) {
+      const snapshot = await offlineCache.get<T>(key);
+      if (snapshot) {
+        console.warn(`Serving offline snapshot for ${key} from ${new Date(snapshot.fetchedAt).toISOString()}`);
+        offlineCache.markOffline(key, snapshot.fetchedAt);
+        return snapshot.data;
+      }
+    }
+
+    if (options.fallback !== undefined) {
+      if (typeof options.fallback === 'object' && options.fallback !== null) {
+        fallbackResults.add(options.fallback);
+      }
+      return options.fallback;
+    }
+    throw error;
+  }
 }
 
 async function fetchWithRetry<T>(
@@ -155,7 +245,7 @@ async function fetchWithRetry<T>(
   try {
     while (attempt < retries) {
       try {
-        const response = await fetch(url, {
+        const response = await apiFetch(url, {
           ...options,
           signal: controller.signal,
           mode: 'cors',
@@ -268,192 +358,258 @@ function getFallbackData<T>(): T {
   return fallbackData as unknown as T;
 }
 
+function toValidator(validator: RawValidator, withExplorerUrl: boolean): Validator {
+  return {
+    address: validator.nodeId,
+    active: validator.validationStatus === 'active',
+    uptime: validator.uptimePerformance,
+    weight: validator.amountStaked,
+    explorerUrl: withExplorerUrl ? `${EXPLORER_URL}/validators/${validator.nodeId}` : undefined
+  };
+}
+
 export async function getChains(): Promise<Chain[]> {
-  return fetchWithCache('chains', async () => {
+  return fetchWithCache(queryKeys.chains, async () => {
     try {
-      const data = await fetchWithRetry<any[]>(`${API_URL}/chains`);
-      return data.map(chain => ({
+      const endpoint = '/api/chains';
+      const data = parseResponse(endpoint, chainsResponseSchema, await fetchWithRetry<unknown>(`${API_URL}/chains`));
+      return parseItems(endpoint, rawChainSchema, data).map(chain => ({
         ...chain,
-        tps: chain.tps ? {
-          value: Number(chain.tps.value),
-          timestamp: chain.tps.timestamp
-        } : null,
-        validators: chain.validators.map((validator: any) => ({
-          address: validator.nodeId,
-          active: validator.validationStatus === 'active',
-          uptime: validator.uptimePerformance,
-          weight: Number(validator.amountStaked),
-          explorerUrl: chain.explorerUrl ? `${EXPLORER_URL}/validators/${validator.nodeId}` : undefined
-        }))
+        validators: chain.validators.map(validator => toValidator(validator, !!chain.explorerUrl))
       }));
     } catch (error) {
       console.error('Chains fetch error:', error);
-      return [];
+      throw error;
     }
-  });
+  }, CACHE_DURATION, { persist: true });
 }
 
-export async function getTVLHistory(days: number = 30): Promise<TVLHistory[]> {
-  return fetchWithCache(`tvl-history-${days}`, async () => {
+export async function getTVLHistory(timeframe: Timeframe = 30): Promise<TVLHistory[]> {
+  const days = getTimeframeDays(timeframe);
+  return fetchWithCache(queryKeys.tvlHistory(timeframe), async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<{ data: any[] }>(`${API_URL}/tvl/history?days=${days}&t=${timestamp}`);
-      
-      if (!response.data || !Array.isArray(response.data)) {
-        return [];
-      }
+      const endpoint = '/api/tvl/history';
+      const response = parseResponse(
+        endpoint,
+        tvlHistoryResponseSchema,
+        await fetchWithRetry<unknown>(`${API_URL}/tvl/history?days=${days}&t=${timestamp}`)
+      );
 
-      return response.data
-        .filter(item => item && typeof item.date === 'number' && typeof item.tvl === 'number')
-        .map(item => ({
-          date: Number(item.date),
-          tvl: Number(item.tvl)
-        }))
+      const history = parseItems(endpoint, tvlHistorySchema, response.data, 'data')
         .sort((a, b) => a.date - b.date);
+      return filterToTimeframe(history, item => item.date, timeframe);
     } catch (error) {
       console.error('TVL history fetch error:', error);
-      return [];
+      throw error;
     }
-  });
+  }, CACHE_DURATION, { persist: true, fallback: [] });
 }
 
 export async function getTVLHealth(): Promise<TVLHealth> {
-  return fetchWithCache('tvl-health', async () => {
+  return fetchWithCache(queryKeys.tvlHealth, async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<TVLHealth>(`${API_URL}/tvl/health?t=${timestamp}`);
-      
-      // Validate the response fields
-      if (!response || typeof response.lastUpdate !== 'string' || typeof response.tvl !== 'number') {
-        throw new Error('Invalid TVL health response format');
-      }
-
-      return {
-        lastUpdate: response.lastUpdate,
-        ageInHours: Number(response.ageInHours) || 0,
-        tvl: Number(response.tvl),
-        status: response.status === 'healthy' ? 'healthy' : 'stale'
-      };
+      const response = await fetchWithRetry<unknown>(`${API_URL}/tvl/health?t=${timestamp}`);
+      return parseResponse('/api/tvl/health', tvlHealthSchema, response);
     } catch (error) {
       console.error('TVL health fetch error:', error);
-      return {
-        lastUpdate: new Date().toISOString(),
-        ageInHours: 0,
-        tvl: 0,
-        status: 'stale'
-      };
+      throw error;
+    }
+  }, CACHE_DURATION, {
+    fallback: {
+      lastUpdate: new Date().toISOString(),
+      ageInHours: 0,
+      tvl: 0,
+      status: 'stale'
     }
   });
 }
 
-export async function getTPSHistory(days: number = 7, chainId?: string): Promise<TPSHistory[]> {
-  return fetchWithCache(`tps-history-${chainId || 'network'}-${days}`, async () => {
+export async function getTPSHistory(timeframe: Timeframe = 7, chainId?: string): Promise<TPSHistory[]> {
+  return fetchTPSHistory(timeframe, chainId, { persist: true, fallback: [] });
+}
+
+// Shared by getTPSHistory and the compare query, which must see failures instead of an empty fallback
+function fetchTPSHistory(timeframe: Timeframe, chainId: string | undefined, options: CacheOptions<TPSHistory[]>): Promise<TPSHistory[]> {
+  const days = getTimeframeDays(timeframe);
+  return fetchWithCache(queryKeys.tpsHistory(timeframe, chainId), async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
       const url = chainId 
         ? `${API_URL}/chains/${chainId}/tps/history?days=${days}&t=${timestamp}`
         : `${API_URL}/tps/network/history?days=${days}&t=${timestamp}`;
 
-      const response = await fetchWithRetry<{
-        success: boolean;
-        data: Array<any>;
-      }>(url);
+      const endpoint = chainId ? '/api/chains/:chainId/tps/history' : '/api/tps/network/history';
+      const response = parseResponse(endpoint, listResponseSchema, await fetchWithRetry<unknown>(url));
 
-      if (!response.success || !Array.isArray(response.data)) {
+      if (!response.success) {
         return [];
       }
 
-      return response.data
-        .filter(item => item && typeof item.timestamp === 'number' && (typeof item.value === 'number' || typeof item.totalTps === 'number'))
+      const history = parseItems(endpoint, rawTpsHistorySchema, response.data, 'data')
         .map(item => ({
-          timestamp: Number(item.timestamp),
-          totalTps: Number(item.value || item.totalTps || 0),
-          chainCount: Number(item.chainCount || 1),
+          timestamp: item.timestamp,
+          totalTps: item.value || item.totalTps || 0,
+          chainCount: item.chainCount || 1,
           date: item.timestamp
         }))
         .sort((a, b) => a.timestamp - b.timestamp);
+      return filterToTimeframe(history, item => item.timestamp, timeframe);
     } catch (error) {
       console.error('TPS history fetch error:', error);
-      return [];
+      throw error;
     }
-  });
+  }, CACHE_DURATION, options);
 }
 
-export async function getCumulativeTxCount(chainId: string, days: number = 7): Promise<CumulativeTxCount[]> {
-  return fetchWithCache(`cumulative-tx-${chainId}-${days}`, async () => {
+export async function getCumulativeTxCount(chainId: string, timeframe: Timeframe = 7): Promise<CumulativeTxCount[]> {
+  return fetchCumulativeTxCount(chainId, timeframe, { fallback: [] });
+}
+
+// Shared by getCumulativeTxCount and the compare query, which must see failures instead of an empty fallback
+function fetchCumulativeTxCount(chainId: string, timeframe: Timeframe, options: CacheOptions<CumulativeTxCount[]>): Promise<CumulativeTxCount[]> {
+  const days = getTimeframeDays(timeframe);
+  return fetchWithCache(queryKeys.cumulativeTxCount(chainId, timeframe), async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<CumulativeTxCountResponse>(
-        `${API_URL}/chains/${chainId}/cumulativeTxCount/history?days=${days}&t=${timestamp}`
+      const endpoint = '/api/chains/:chainId/cumulativeTxCount/history';
+      const response = parseResponse(
+        endpoint,
+        listResponseSchema,
+        await fetchWithRetry<unknown>(`${API_URL}/chains/${chainId}/cumulativeTxCount/history?days=${days}&t=${timestamp}`)
       );
       
-      if (!response.success || !Array.isArray(response.data)) {
-        throw new Error('Invalid cumulative transaction count data format');
+      if (!response.success) {
+        throw new Error('Cumulative transaction count request was not successful');
       }
 
-      return response.data
+      const history = parseItems(endpoint, cumulativeTxCountSchema, response.data, 'data')
         .sort((a, b) => a.timestamp - b.timestamp);
+      return filterToTimeframe(history, item => item.timestamp, timeframe);
     } catch (error) {
       console.error('Cumulative transaction count fetch error:', error);
-      return [];
+      throw error;
+    }
+  }, CACHE_DURATION, options);
+}
+
+/**
+ * TPS history for several chains at once, keyed by chain ID. Rejects when any
+ * chain fails so a partial result is never cached under the combined key
+ */
+export async function getTPSHistoryForChains(chainIds: string[], timeframe: Timeframe = 7): Promise<Record<string, TPSHistory[]>> {
+  return queryClient.fetch(queryKeys.compareTpsHistory(chainIds, timeframe), async () => {
+    const results = await Promise.all(chainIds.map(async chainId =>
+      [chainId, await fetchTPSHistory(timeframe, chainId, { persist: true })] as const
+    ));
+    return Object.fromEntries(results);
+  });
+}
+
+/**
+ * Cumulative transaction counts for several chains at once, keyed by chain ID.
+ * Rejects when any chain fails so a partial result is never cached under the combined key
+ */
+export async function getCumulativeTxCountForChains(chainIds: string[], timeframe: Timeframe = 7): Promise<Record<string, CumulativeTxCount[]>> {
+  return queryClient.fetch(queryKeys.compareCumulativeTxCount(chainIds, timeframe), async () => {
+    const results = await Promise.all(chainIds.map(async chainId =>
+      [chainId, await fetchCumulativeTxCount(chainId, timeframe, {})] as const
+    ));
+    return Object.fromEntries(results);
+  });
+}
+
+/**
+ * Mark cached entries stale so their next read refetches, e.g. the per-chain
+ * entries behind a combined query before retrying it
+ */
+export function invalidateQueries(keys: string[]) {
+  keys.forEach(key => queryClient.invalidate(key, true));
+}
+
+export async function getValidatorHistory(chainId: string, days: number = 30): Promise<ValidatorSnapshot[]> {
+  return fetchWithCache(queryKeys.validatorHistory(chainId, days), async () => {
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const endpoint = '/api/chains/:chainId/validators/history';
+      const response = parseResponse(
+        endpoint,
+        listResponseSchema,
+        await fetchWithRetry<unknown>(`${API_URL}/chains/${chainId}/validators/history?days=${days}&t=${timestamp}`)
+      );
+
+      if (!response.success) {
+        throw new Error('Validator history request was not successful');
+      }
+
+      return parseItems(endpoint, rawValidatorSnapshotSchema, response.data, 'data')
+        .map(snapshot => ({
+          timestamp: snapshot.timestamp,
+          validators: snapshot.validators.map(validator => toValidator(validator, true))
+        }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error('Validator history fetch error:', error);
+      throw error;
     }
   });
 }
 
 export async function getNetworkTPS(): Promise<NetworkTPS> {
-  return fetchWithCache('network-tps', async () => {
+  return fetchWithCache(queryKeys.networkTps, async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<{
-        success: boolean;
-        data: NetworkTPS;
-      }>(`${API_URL}/tps/network/latest?t=${timestamp}`);
+      const response = parseResponse(
+        '/api/tps/network/latest',
+        networkTpsResponseSchema,
+        await fetchWithRetry<unknown>(`${API_URL}/tps/network/latest?t=${timestamp}`)
+      );
 
-      if (!response.success || !response.data) {
-        throw new Error('Invalid network TPS response format');
+      if (!response.success) {
+        throw new Error('Network TPS request was not successful');
       }
 
       return {
-        totalTps: Number(response.data.totalTps) || 0,
-        chainCount: Number(response.data.chainCount) || 0,
-        timestamp: Number(response.data.timestamp) || Date.now(),
+        totalTps: response.data.totalTps,
+        chainCount: response.data.chainCount,
+        timestamp: response.data.timestamp || Date.now(),
         lastUpdate: response.data.lastUpdate || new Date().toISOString(),
-        dataAge: Number(response.data.dataAge) || 0,
+        dataAge: response.data.dataAge,
         dataAgeUnit: response.data.dataAgeUnit || 'minutes',
         updatedAt: response.data.updatedAt || new Date().toISOString()
       };
     } catch (error) {
       console.error('Network TPS fetch error:', error);
-      return {
-        totalTps: 0,
-        chainCount: 0,
-        timestamp: Date.now(),
-        lastUpdate: new Date().toISOString(),
-        dataAge: 0,
-        dataAgeUnit: 'minutes',
-        updatedAt: new Date().toISOString()
-      };
+      throw error;
+    }
+  }, CACHE_DURATION, {
+    fallback: {
+      totalTps: 0,
+      chainCount: 0,
+      timestamp: Date.now(),
+      lastUpdate: new Date().toISOString(),
+      dataAge: 0,
+      dataAgeUnit: 'minutes',
+      updatedAt: new Date().toISOString()
     }
   });
 }
 
 export async function getHealth(): Promise<HealthStatus> {
-  return fetchWithCache('health-status', async () => {
+  return fetchWithCache(queryKeys.health, async () => {
     try {
       const timestamp = Math.floor(Date.now() / 1000);
-      const response = await fetchWithRetry<any>(`${BASE_URL}/health?t=${timestamp}`);
-      
       // The health endpoint returns the status directly, not wrapped in a data object
-      if (typeof response?.status === 'string') {
-        return {
-          status: response.status,
-          timestamp: response.currentTime ? new Date(response.currentTime).getTime() : Date.now()
-        };
-      }
-      
+      const response = parseResponse(
+        '/health',
+        healthResponseSchema,
+        await fetchWithRetry<unknown>(`${BASE_URL}/health?t=${timestamp}`)
+      );
+
       return {
-        status: 'unknown',
-        timestamp: Date.now()
+        status: response.status,
+        timestamp: response.currentTime ? new Date(response.currentTime).getTime() : Date.now()
       };
     } catch (error) {
       console.error('Health status fetch error:', error);
@@ -465,59 +621,71 @@ export async function getHealth(): Promise<HealthStatus> {
   }, 30000); // Cache for 30 seconds
 }
 
+// Message counts per chain pair from one of the count endpoints
+async function fetchTeleporterCounts(path: string): Promise<TeleporterMessageData> {
+  const endpoint = `/api${path}`;
+  const response = parseResponse(
+    endpoint,
+    teleporterMessagesResponseSchema,
+    await fetchWithRetry<unknown>(`${API_URL}${path}`)
+  );
+  const messages = response.messages
+    ? parseItems(endpoint, teleporterCountSchema, response.messages, 'messages')
+    : parseItems(endpoint, teleporterCountSchema, response.data ?? [], 'data');
+
+  return {
+    messages,
+    metadata: {
+      totalMessages: response.metadata?.totalMessages ||
+        messages.reduce((sum, msg) => sum + msg.count, 0),
+      startDate: response.metadata?.startDate || new Date().toISOString(),
+      endDate: response.metadata?.endDate || new Date().toISOString(),
+      updatedAt: response.metadata?.updatedAt || new Date().toISOString(),
+      timeWindow: response.metadata?.timeWindow,
+      timeWindowUnit: response.metadata?.timeWindowUnit,
+    }
+  };
+}
+
+// Failures reach the caller so flows are never shown from made-up data
 export async function getTeleporterMessages(): Promise<TeleporterMessageData> {
-  return fetchWithCache('teleporter-messages', async () => {
+  return fetchWithCache(queryKeys.teleporterMessages, async () => {
     try {
-      const response = await fetchWithRetry<any>(`${API_URL}/teleporter/messages/daily-count`);
-      
-      if (!response || !Array.isArray(response.messages)) {
-        throw new Error('Invalid Teleporter message data format');
-      }
-      
-      return {
-        messages: response.messages.map((msg: any) => ({
-          source: msg.source,
-          target: msg.target,
-          count: Number(msg.count)
-        })),
-        metadata: {
-          totalMessages: response.metadata?.totalMessages || 
-            response.messages.reduce((sum: number, msg: any) => sum + Number(msg.count), 0),
-          startDate: response.metadata?.startDate || new Date().toISOString(),
-          endDate: response.metadata?.endDate || new Date().toISOString(),
-          updatedAt: response.metadata?.updatedAt || new Date().toISOString()
-        }
-      };
+      return await fetchTeleporterCounts('/teleporter/messages/daily-count');
     } catch (error) {
       console.error('Teleporter messages fetch error:', error);
-      return {
-        messages: [],
-        metadata: {
-          totalMessages: 0,
-          startDate: new Date().toISOString(),
-          endDate: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      };
+      throw error;
     }
-  }, 15 * 60 * 1000); // Cache for 15 minutes
+  }, 15 * 60 * 1000, { persist: true }); // Cache for 15 minutes
 }
 
-export async function getTeleporterDailyHistory(days: number = 30): Promise<TeleporterDailyData[]> {
-  return fetchWithCache(`teleporter-daily-history-${days}`, async () => {
+export async function getTeleporterWeeklyMessages(): Promise<TeleporterMessageData> {
+  return fetchWithCache(queryKeys.teleporterWeeklyMessages, async () => {
     try {
-      const response = await fetchWithRetry<{ data: TeleporterDailyData[] }>(
-        `${API_URL}/teleporter/messages/historical-daily?days=${days}`
+      return await fetchTeleporterCounts('/teleporter/messages/weekly-count');
+    } catch (error) {
+      console.error('Teleporter weekly messages fetch error:', error);
+      throw error;
+    }
+  }, 15 * 60 * 1000, { persist: true }); // Cache for 15 minutes
+}
+
+export async function getTeleporterDailyHistory(timeframe: Timeframe = 30): Promise<TeleporterDailyData[]> {
+  const days = getTimeframeDays(timeframe);
+  return fetchWithCache(queryKeys.teleporterDailyHistory(timeframe), async () => {
+    try {
+      const endpoint = '/api/teleporter/messages/historical-daily';
+      const response = parseResponse(
+        endpoint,
+        teleporterDailyResponseSchema,
+        await fetchWithRetry<unknown>(`${API_URL}/teleporter/messages/historical-daily?days=${days}`)
       );
       
-      if (!response.data || !Array.isArray(response.data)) {
-        throw new Error('Invalid Teleporter daily history data format');
-      }
-      
-      return response.data;
+      const history = parseItems(endpoint, teleporterDailyDataSchema, response.data, 'data');
+      return filterToTimeframe(history, item => Date.parse(item.date) / 1000, timeframe);
     } catch (error) {
       console.error('Teleporter daily history fetch error:', error);
-      return [];
+      throw error;
     }
-  }, 15 * 60 * 1000); // Cache for 15 minutes
+  }, 15 * 60 * 1000, { persist: true, fallback: [] }); // Cache for 15 minutes
 }
\ No newline at end of file
@@ -1,4 +1,17 @@
 import { config } from '../config';
+import { apiFetch } from './http';
+import {
+    parseResponse,
+    parseItems,
+    blogPostSchema,
+    relatedPostSchema,
+    blogTagSchema,
+    blogPostsResponseSchema,
+    blogPostResponseSchema,
+    relatedPostsResponseSchema,
+    blogHealthResponseSchema,
+    blogTagsResponseSchema,
+} from './schemas';
 
 export interface BlogPost {
     _id: string;
@@ -48,7 +61,7 @@ export interface RelatedPostsResponse {
 
 export async function getRelatedPosts(slug: string, limit: number = 4): Promise<RelatedPostsResponse> {
     try {
-        const response = await fetch(`${config.apiBaseUrl}/api/blog/posts/${slug}/related?limit=${limit}`, {
+        const response = await apiFetch(`${config.apiBaseUrl}/api/blog/posts/${slug}/related?limit=${limit}`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
@@ -59,7 +72,9 @@ export async function getRelatedPosts(slug: string, limit: number = 4): Promise<
             throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        return await response.json();
+        const endpoint = '/api/blog/posts/:slug/related';
+        const body = parseResponse(endpoint, relatedPostsResponseSchema, await response.json());
+        return { ...body, data: parseItems(endpoint, relatedPostSchema, body.data, 'data') };
     } catch (error) {
         console.error(`Error fetching related posts for ${slug}:`, error);
         throw error;
@@ -165,7 +180,7 @@ export async function getBlogPosts(
             params.append('tag', tag);
         }
 
-        const response = await fetch(`${config.apiBaseUrl}/api/blog/posts?${params}`, {
+        const response = await apiFetch(`${config.apiBaseUrl}/api/blog/posts?${params}`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
@@ -176,7 +191,9 @@ export async function getBlogPosts(
             throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        return await response.json();
+        const endpoint = '/api/blog/posts';
+        const body = parseResponse(endpoint, blogPostsResponseSchema, await response.json());
+        return { ...body, data: parseItems(endpoint, blogPostSchema, body.data, 'data') };
     } catch (error) {
         console.error('Error fetching blog posts:', error);
         throw new Error('Failed to fetch blog posts');
@@ -185,7 +202,7 @@ export async function getBlogPosts(
 
 export async function getBlogPost(slug: string): Promise<BlogPostResponse> {
     try {
-        const response = await fetch(`${config.apiBaseUrl}/api/blog/posts/${slug}`, {
+        const response = await apiFetch(`${config.apiBaseUrl}/api/blog/posts/${slug}`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
@@ -199,7 +216,7 @@ export async function getBlogPost(slug: string): Promise<BlogPostResponse> {
             throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        return await response.json();
+        return parseResponse('/api/blog/posts/:slug', blogPostResponseSchema, await response.json());
     } catch (error) {
         console.error(`Error fetching blog post ${slug}:`, error);
         throw error;
@@ -208,7 +225,7 @@ export async function getBlogPost(slug: string): Promise<BlogPostResponse> {
 
 export async function getBlogHealth(): Promise<BlogHealthResponse> {
     try {
-        const response = await fetch(`${config.apiBaseUrl}/api/blog/health`, {
+        const response = await apiFetch(`${config.apiBaseUrl}/api/blog/health`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
@@ -219,7 +236,7 @@ export async function getBlogHealth(): Promise<BlogHealthResponse> {
             throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        return await response.json();
+        return parseResponse('/api/blog/health', blogHealthResponseSchema, await response.json());
     } catch (error) {
         console.error('Error fetching blog health:', error);
         throw new Error('Failed to fetch blog health');
@@ -228,7 +245,7 @@ export async function getBlogHealth(): Promise<BlogHealthResponse> {
 
 export async function getBlogTags(): Promise<BlogTagsResponse> {
     try {
-        const response = await fetch(`${config.apiBaseUrl}/api/blog/tags`, {
+        const response = await apiFetch(`${config.apiBaseUrl}/api/blog/tags`, {
             method: 'GET',
             headers: {
                 'Content-Type': 'application/json',
@@ -239,7 +256,9 @@ export async function getBlogTags(): Promise<BlogTagsResponse> {
             throw new Error(`HTTP error! status: ${response.status}`);
         }
 
-        return await response.json();
+        const endpoint = '/api/blog/tags';
+        const body = parseResponse(endpoint, blogTagsResponseSchema, await response.json());
+        return { ...body, data: parseItems(endpoint, blogTagSchema, body.data, 'data') };
     } catch (error) {
         console.error('Error fetching blog tags:', error);
         throw new Error('Failed to fetch blog tags');
@@ -0,0 +1,28 @@
+import { config } from '../config';
+
+let mockFetchPromise: Promise<typeof fetch> | null = null;
+
+// Load the mock backend lazily so fixtures stay out of production bundles
+function loadMockFetch(): Promise<typeof fetch> {
+  if (!mockFetchPromise) {
+    mockFetchPromise = import('./mock/mockBackend').then(({ mockFetch, configureMockBackend }) => {
+      if (config.mockSeed !== undefined) {
+        configureMockBackend({ seed: config.mockSeed });
+      }
+      return mockFetch;
+    });
+  }
+  return mockFetchPromise;
+}
+
+/**
+ * fetch used by every API module; routes to the mock backend when
+ * VITE_USE_MOCK_API is enabled
+ */
+export async function apiFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  if (config.useMockApi) {
+    const mockFetch = await loadMockFetch();
+    return mockFetch(input, init);
+  }
+  return fetch(input, init);
+}
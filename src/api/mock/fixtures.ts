@@ -0,0 +1,485 @@
+// src/api/mock/fixtures.ts
+// Seeded fixture generators for the mock backend. Every builder returns the raw
+// JSON body of the matching L1Beat endpoint, so responses still go through
+// the schemas in src/api/schemas.ts. Output depends only on the seed and the
+// reference time, never on call order.
+
+export interface FixtureOptions {
+  seed: number;
+  // Reference "current" time in milliseconds; series end on this day
+  now: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// ============= RANDOM HELPERS =============
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for fixtures
+export function createRandom(seed: number, scope: string = ''): () => number {
+  let state = (seed ^ hashString(scope)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBetween(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+function randomId(random: () => number, length: number, alphabet: string): string {
+  let id = '';
+  for (let i = 0; i < length; i++) {
+    id += alphabet[Math.floor(random() * alphabet.length)];
+  }
+  return id;
+}
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / DAY) * DAY;
+}
+
+function toSeconds(time: number): number {
+  return Math.floor(time / 1000);
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+// ============= CHAINS =============
+
+interface ChainSeed {
+  chainName: string;
+  symbol: string;
+  tokenName: string;
+  description: string;
+  validatorCount: number;
+  // Typical TPS, used as the centre of the generated series
+  baseTps: number;
+}
+
+const CHAIN_SEEDS: ChainSeed[] = [
+  { chainName: 'Avalanche (C-Chain)', symbol: 'AVAX', tokenName: 'Avalanche', description: 'The primary EVM chain of the Avalanche network.', validatorCount: 24, baseTps: 18 },
+  { chainName: 'Dexalot L1', symbol: 'ALOT', tokenName: 'Dexalot', description: 'Central limit order book DEX running on its own L1.', validatorCount: 8, baseTps: 4.5 },
+  { chainName: 'Beam L1', symbol: 'BEAM', tokenName: 'Beam', description: 'Gaming-focused L1 by the Merit Circle DAO.', validatorCount: 12, baseTps: 2.2 },
+  { chainName: 'DeFi Kingdoms', symbol: 'JEWEL', tokenName: 'Jewel', description: 'Play-to-earn game economy on a dedicated L1.', validatorCount: 10, baseTps: 1.1 },
+  { chainName: 'Lamina1 L1', symbol: 'L1', tokenName: 'Lamina1', description: 'Open metaverse L1 for creators.', validatorCount: 6, baseTps: 0.4 },
+  { chainName: 'zeroone Mainnet L1', symbol: 'ZERO', tokenName: 'zeroone', description: 'Creative economy L1 with on-chain provenance.', validatorCount: 5, baseTps: 0.3 },
+  { chainName: 'PLYR PHI L1', symbol: 'PLYR', tokenName: 'PLYR', description: 'Gaming infrastructure L1.', validatorCount: 5, baseTps: 0.6 },
+  { chainName: 'Shrapnel L1', symbol: 'SHRAP', tokenName: 'Shrapnel', description: 'Extraction shooter game economy.', validatorCount: 7, baseTps: 0.8 },
+  { chainName: 'Coqnet', symbol: 'COQ', tokenName: 'Coq Inu', description: 'Community L1 for the COQ ecosystem.', validatorCount: 4, baseTps: 0.2 },
+  { chainName: 'Henesys', symbol: 'NXPC', tokenName: 'NEXPACE', description: 'MapleStory Universe L1.', validatorCount: 9, baseTps: 1.7 },
+];
+
+export interface FixtureChain {
+  chainId: string;
+  chainName: string;
+  chainLogoUri: string | null;
+  description: string;
+  subnetId: string;
+  platformChainId: string;
+  tps: { value: number; timestamp: number } | null;
+  validators: {
+    nodeId: string;
+    validationStatus: string;
+    uptimePerformance: number;
+    amountStaked: string;
+  }[];
+  networkToken: { name: string; symbol: string; logoUri: string | null };
+  explorerUrl: string;
+}
+
+export function buildChains(options: FixtureOptions): FixtureChain[] {
+  const random = createRandom(options.seed, 'chains');
+
+  return CHAIN_SEEDS.map((seed, index) => {
+    // C-Chain keeps its well-known EVM chain ID; the rest get stable numeric IDs
+    const chainId = index === 0 ? '43114' : String(100000 + Math.floor(random() * 900000));
+    const platformChainId = randomId(random, 49, BASE58);
+    const subnetId = index === 0 ? '11111111111111111111111111111111LpoYY' : randomId(random, 49, BASE58);
+
+    const validators = Array.from({ length: seed.validatorCount }, () => {
+      // A few large stakers and a long tail, so stake charts have some shape
+      const stake = Math.round(Math.pow(random(), 3) * 2_000_000 + 2_000);
+      return {
+        nodeId: `NodeID-${randomId(random, 33, BASE58)}`,
+        validationStatus: random() < 0.92 ? 'active' : 'inactive',
+        uptimePerformance: Number(randomBetween(random, 90, 100).toFixed(2)),
+        amountStaked: String(stake),
+      };
+    });
+
+    return {
+      chainId,
+      chainName: seed.chainName,
+      chainLogoUri: null,
+      description: seed.description,
+      subnetId,
+      platformChainId,
+      tps: {
+        value: Number((seed.baseTps * randomBetween(random, 0.8, 1.2)).toFixed(2)),
+        timestamp: toSeconds(options.now),
+      },
+      validators,
+      networkToken: { name: seed.tokenName, symbol: seed.symbol, logoUri: null },
+      explorerUrl: `https://subnets.avax.network/${seed.chainName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    };
+  });
+}
+
+function findChainSeed(options: FixtureOptions, chainId: string): ChainSeed | undefined {
+  const index = buildChains(options).findIndex(chain => chain.chainId === chainId);
+  return index >= 0 ? CHAIN_SEEDS[index] : undefined;
+}
+
+// Daily points ending on the reference day, oldest first. Each day draws from
+// its own generator, so a 7-day series is the tail of the 30-day one.
+function dailySeries(
+  options: FixtureOptions,
+  scope: string,
+  days: number,
+  value: (random: () => number) => number
+): { time: number; value: number }[] {
+  const end = startOfUtcDay(options.now);
+
+  return Array.from({ length: days }, (_, index) => {
+    const time = end - (days - 1 - index) * DAY;
+    return { time, value: value(createRandom(options.seed, `${scope}-${toDateString(time)}`)) };
+  });
+}
+
+// Turn daily changes into running totals that end at `last` on the reference day
+function walkBack(changes: { time: number; value: number }[], last: number, apply: (total: number, change: number) => number) {
+  let total = last;
+  return changes
+    .slice()
+    .reverse()
+    .map(point => {
+      const current = { time: point.time, value: Math.round(total) };
+      total = apply(total, point.value);
+      return current;
+    })
+    .reverse();
+}
+
+// ============= TVL =============
+
+export function buildTvlHistory(options: FixtureOptions, days: number) {
+  const latest = randomBetween(createRandom(options.seed, 'tvl-latest'), 1_000_000_000, 1_400_000_000);
+  const changes = dailySeries(options, 'tvl', days, random => randomBetween(random, 0.97, 1.035));
+  const series = walkBack(changes, latest, (total, change) => total / change);
+
+  return {
+    data: series.map(point => ({ date: toSeconds(point.time), tvl: point.value })),
+  };
+}
+
+export function buildTvlHealth(options: FixtureOptions) {
+  const history = buildTvlHistory(options, 1).data;
+  return {
+    lastUpdate: new Date(options.now).toISOString(),
+    ageInHours: 0,
+    tvl: history[history.length - 1].tvl,
+    status: 'healthy',
+  };
+}
+
+// ============= TPS =============
+
+export function buildChainTpsHistory(options: FixtureOptions, chainId: string, days: number) {
+  const seed = findChainSeed(options, chainId);
+  if (!seed) return null;
+
+  const series = dailySeries(options, `tps-${chainId}`, days, random =>
+    Number((seed.baseTps * randomBetween(random, 0.6, 1.4)).toFixed(3))
+  );
+
+  return {
+    success: true,
+    chainId,
+    data: series.map(point => ({ timestamp: toSeconds(point.time), value: point.value })),
+  };
+}
+
+export function buildNetworkTpsHistory(options: FixtureOptions, days: number) {
+  const perChain = CHAIN_SEEDS.map((seed, index) => dailySeries(options, `network-tps-${index}`, days, random =>
+    seed.baseTps * randomBetween(random, 0.6, 1.4)
+  ));
+
+  return {
+    success: true,
+    data: perChain[0].map((point, index) => ({
+      timestamp: toSeconds(point.time),
+      totalTps: Number(perChain.reduce((sum, series) => sum + series[index].value, 0).toFixed(3)),
+      chainCount: CHAIN_SEEDS.length,
+    })),
+  };
+}
+
+export function buildNetworkTpsLatest(options: FixtureOptions) {
+  const history = buildNetworkTpsHistory(options, 1).data;
+  const latest = history[history.length - 1];
+  const updatedAt = new Date(options.now).toISOString();
+
+  return {
+    success: true,
+    data: {
+      totalTps: latest.totalTps,
+      chainCount: latest.chainCount,
+      timestamp: toSeconds(options.now),
+      lastUpdate: updatedAt,
+      dataAge: 0,
+      dataAgeUnit: 'minutes',
+      updatedAt,
+    },
+  };
+}
+
+export function buildCumulativeTxCount(options: FixtureOptions, chainId: string, days: number) {
+  const seed = findChainSeed(options, chainId);
+  if (!seed) return null;
+
+  // A chain-sized total today, minus roughly a day of transactions per earlier point
+  const latest = seed.baseTps * 86400 * randomBetween(createRandom(options.seed, `tx-latest-${chainId}`), 200, 600);
+  const dailyCounts = dailySeries(options, `tx-${chainId}`, days, random =>
+    Math.round(seed.baseTps * 86400 * randomBetween(random, 0.6, 1.4))
+  );
+  const series = walkBack(dailyCounts, latest, (total, count) => total - count);
+
+  return {
+    success: true,
+    chainId,
+    count: series.length,
+    data: series.map(point => ({ timestamp: toSeconds(point.time), value: point.value })),
+  };
+}
+
+// ============= VALIDATOR HISTORY =============
+
+// Join and leave days are counted back from the reference day, so every
+// window shows the same events
+const VALIDATOR_EVENT_SPAN = 30;
+
+export function buildValidatorHistory(options: FixtureOptions, chainId: string, days: number) {
+  const chain = buildChains(options).find(item => item.chainId === chainId);
+  if (!chain) return null;
+
+  const random = createRandom(options.seed, `validator-history-${chainId}`);
+  const departedCount = Math.max(1, Math.round(chain.validators.length / 6));
+  const departed = Array.from({ length: departedCount }, () => ({
+    nodeId: `NodeID-${randomId(random, 33, BASE58)}`,
+    validationStatus: 'active',
+    uptimePerformance: Number(randomBetween(random, 85, 99).toFixed(2)),
+    amountStaked: String(Math.round(randomBetween(random, 2_000, 200_000))),
+  }));
+
+  const lifecycles = [
+    ...chain.validators.map(validator => ({
+      validator,
+      joinedDaysAgo: random() < 0.25 ? Math.floor(random() * VALIDATOR_EVENT_SPAN) : Infinity,
+      leftDaysAgo: -1,
+      weightDrift: randomBetween(random, -0.3, 0.3),
+    })),
+    ...departed.map(validator => ({
+      validator,
+      joinedDaysAgo: Infinity,
+      leftDaysAgo: Math.floor(random() * VALIDATOR_EVENT_SPAN),
+      weightDrift: randomBetween(random, -0.3, 0.3),
+    })),
+  ];
+
+  const end = startOfUtcDay(options.now);
+
+  return {
+    success: true,
+    chainId,
+    data: Array.from({ length: days }, (_, index) => {
+      const daysAgo = days - 1 - index;
+      const time = end - daysAgo * DAY;
+
+      const validators = lifecycles
+        .filter(item => daysAgo <= item.joinedDaysAgo && daysAgo > item.leftDaysAgo)
+        .map(({ validator, weightDrift }) => {
+          const dayRandom = createRandom(options.seed, `${validator.nodeId}-${toDateString(time)}`);
+          const weight = Number(validator.amountStaked) * (1 - weightDrift * daysAgo / VALIDATOR_EVENT_SPAN);
+          // Occasional outages pull uptime down for a day
+          const dip = dayRandom() < 0.1 ? randomBetween(dayRandom, 2, 12) : randomBetween(dayRandom, 0, 1);
+
+          return {
+            ...validator,
+            uptimePerformance: Number(Math.max(0, Math.min(100, validator.uptimePerformance - dip + 0.5)).toFixed(2)),
+            amountStaked: String(Math.max(1, Math.round(weight))),
+          };
+        });
+
+      return { timestamp: toSeconds(time), validators };
+    }),
+  };
+}
+
+// ============= HEALTH =============
+
+export function buildHealth(options: FixtureOptions) {
+  return {
+    status: 'ok',
+    currentTime: new Date(options.now).toISOString(),
+  };
+}
+
+// ============= TELEPORTER =============
+
+// Directed routes with a typical daily volume; C-Chain is the hub
+const TELEPORTER_ROUTES: [number, number, number][] = [
+  [1, 0, 400], [0, 1, 360], [0, 5, 24], [4, 0, 17], [5, 0, 16],
+  [0, 6, 8], [6, 0, 3], [0, 2, 40], [2, 0, 35], [9, 0, 22],
+  [0, 9, 18], [3, 0, 6], [0, 7, 5], [8, 0, 2],
+];
+
+function teleporterCounts(options: FixtureOptions, scope: string, scale: number) {
+  const random = createRandom(options.seed, scope);
+  return TELEPORTER_ROUTES.map(([source, target, volume]) => ({
+    sourceChain: CHAIN_SEEDS[source].chainName,
+    destinationChain: CHAIN_SEEDS[target].chainName,
+    messageCount: Math.max(1, Math.round(volume * scale * randomBetween(random, 0.5, 1.5))),
+  })).sort((a, b) => b.messageCount - a.messageCount);
+}
+
+export function buildTeleporterCounts(options: FixtureOptions, timeframe: 'daily' | 'weekly') {
+  const daily = timeframe === 'daily';
+  const data = teleporterCounts(options, `teleporter-${timeframe}`, daily ? 1 : 7);
+
+  return {
+    data,
+    metadata: {
+      totalMessages: data.reduce((sum, item) => sum + item.messageCount, 0),
+      timeWindow: daily ? 24 : 7,
+      timeWindowUnit: daily ? 'hours' : 'days',
+      updatedAt: new Date(options.now).toISOString(),
+    },
+  };
+}
+
+export function buildTeleporterDailyHistory(options: FixtureOptions, days: number) {
+  const end = startOfUtcDay(options.now);
+
+  return {
+    data: Array.from({ length: days }, (_, index) => {
+      const time = end - (days - 1 - index) * DAY;
+      const data = teleporterCounts(options, `teleporter-day-${toDateString(time)}`, 1);
+      return {
+        date: new Date(time).toISOString(),
+        dateString: toDateString(time),
+        data,
+        totalMessages: data.reduce((sum, item) => sum + item.messageCount, 0),
+        timeWindow: 24,
+      };
+    }),
+  };
+}
+
+// ============= BLOG =============
+
+interface PostSeed {
+  title: string;
+  subtitle: string;
+  tags: string[];
+  authors: string[];
+  sections: string[];
+}
+
+const POST_SEEDS: PostSeed[] = [
+  {
+    title: 'Understanding Avalanche L1s',
+    subtitle: 'What changed with Avalanche9000 and why it matters',
+    tags: ['avalanche', 'l1', 'education'],
+    authors: ['L1Beat Team'],
+    sections: ['What is an L1?', 'Validators and staking', 'Interoperability'],
+  },
+  {
+    title: 'A Tour of Interchain Messaging',
+    subtitle: 'How ICM and Teleporter move messages between L1s',
+    tags: ['teleporter', 'icm', 'interoperability'],
+    authors: ['L1Beat Team', 'Guest Author'],
+    sections: ['Warp messages', 'Teleporter contracts', 'Relayers'],
+  },
+  {
+    title: 'Reading the L1Beat Dashboard',
+    subtitle: 'TVL, TPS and validator metrics explained',
+    tags: ['l1beat', 'analytics', 'education'],
+    authors: ['L1Beat Team'],
+    sections: ['TVL', 'Transactions per second', 'Validator health'],
+  },
+  {
+    title: 'ACP-77 in Practice',
+    subtitle: 'Reinventing subnets one validator at a time',
+    tags: ['acp', 'validators', 'l1'],
+    authors: ['Guest Author'],
+    sections: ['Continuous fees', 'Validator management', 'Migration path'],
+  },
+  {
+    title: 'Gaming on Avalanche',
+    subtitle: 'Why game studios launch their own L1',
+    tags: ['gaming', 'l1', 'ecosystem'],
+    authors: ['L1Beat Team'],
+    sections: ['Throughput', 'Custom gas tokens', 'Player experience'],
+  },
+  {
+    title: 'Decentralization Metrics for L1s',
+    subtitle: 'Nakamoto coefficients and stake concentration',
+    tags: ['validators', 'analytics', 'decentralization'],
+    authors: ['L1Beat Team', 'Research Desk'],
+    sections: ['Nakamoto coefficient', 'Gini coefficient', 'What the numbers miss'],
+  },
+];
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+}
+
+export function buildBlogPosts(options: FixtureOptions) {
+  const random = createRandom(options.seed, 'blog');
+  const end = startOfUtcDay(options.now);
+
+  return POST_SEEDS.map((seed, index) => {
+    const publishedAt = new Date(end - (index * 9 + 2) * DAY).toISOString();
+    const content = [
+      `# ${seed.title}`,
+      seed.subtitle,
+      ...seed.sections.map(section =>
+        `## ${section}\n\n${section} is covered here with fixture text so the renderer has headings, paragraphs and lists to work with.\n\n- First point about ${section.toLowerCase()}\n- Second point about ${section.toLowerCase()}`
+      ),
+    ].join('\n\n');
+
+    return {
+      _id: randomId(random, 24, '0123456789abcdef'),
+      title: seed.title,
+      slug: slugify(seed.title),
+      subtitle: seed.subtitle,
+      excerpt: `${seed.subtitle}.`,
+      content,
+      mainContent: content,
+      author: seed.authors[0],
+      authors: seed.authors,
+      publishedAt,
+      updatedAt: publishedAt,
+      tags: seed.tags,
+      views: Math.round(randomBetween(random, 50, 5000)),
+      readTime: Math.max(1, Math.ceil(content.split(/\s+/).length / 200)),
+    };
+  });
+}
@@ -0,0 +1,200 @@
+// src/api/mock/mockBackend.ts
+// In-memory stand-in for the L1Beat API, enabled with VITE_USE_MOCK_API=true.
+// Requests are routed by path to the fixture builders and answered with real
+// Response objects, so api.ts and blogApi.ts run unchanged on top of it.
+
+import {
+  FixtureOptions,
+  buildChains,
+  buildTvlHistory,
+  buildTvlHealth,
+  buildChainTpsHistory,
+  buildNetworkTpsHistory,
+  buildNetworkTpsLatest,
+  buildCumulativeTxCount,
+  buildValidatorHistory,
+  buildHealth,
+  buildTeleporterCounts,
+  buildTeleporterDailyHistory,
+  buildBlogPosts,
+} from './fixtures';
+
+export interface MockBackendOptions extends FixtureOptions {
+  // Artificial response delay so loading states are visible in development
+  latency: number;
+}
+
+type RouteHandler = (match: RegExpMatchArray, params: URLSearchParams, options: FixtureOptions) => unknown;
+
+const DEFAULT_SEED = 42;
+const DEFAULT_LATENCY = 200;
+
+let mockOptions: MockBackendOptions = {
+  seed: DEFAULT_SEED,
+  now: Date.now(),
+  latency: DEFAULT_LATENCY,
+};
+
+// Returned by a handler to produce a 404 instead of a body
+const NOT_FOUND = Symbol('not-found');
+
+function numberParam(params: URLSearchParams, name: string, fallback: number): number {
+  const value = Number(params.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Mainnet launch; "all time" requests stop here instead of inventing older history
+const HISTORY_START = Date.UTC(2020, 8, 21);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysParam(params: URLSearchParams, options: FixtureOptions, fallback: number): number {
+  const available = Math.max(1, Math.ceil((options.now - HISTORY_START) / DAY_MS));
+  return Math.min(numberParam(params, 'days', fallback), available);
+}
+
+function blogPostsPage(params: URLSearchParams, options: FixtureOptions) {
+  const limit = numberParam(params, 'limit', 10);
+  const offset = Number(params.get('offset')) || 0;
+  const tag = params.get('tag') || undefined;
+  const posts = buildBlogPosts(options).filter(post => !tag || post.tags.includes(tag));
+
+  return {
+    success: true,
+    data: posts.slice(offset, offset + limit),
+    metadata: {
+      total: posts.length,
+      limit,
+      offset,
+      hasMore: offset + limit < posts.length,
+      tag,
+      requestId: 'mock',
+    },
+  };
+}
+
+// Checked in order; the first matching pattern wins
+const routes: [RegExp, RouteHandler][] = [
+  [/^\/health$/, (_, __, options) => buildHealth(options)],
+  [/^\/api\/chains$/, (_, __, options) => buildChains(options)],
+  [/^\/api\/chains\/([^/]+)\/tps\/history$/, (match, params, options) =>
+    buildChainTpsHistory(options, decodeURIComponent(match[1]), daysParam(params, options, 7)) ?? NOT_FOUND],
+  [/^\/api\/chains\/([^/]+)\/cumulativeTxCount\/history$/, (match, params, options) =>
+    buildCumulativeTxCount(options, decodeURIComponent(match[1]), daysParam(params, options, 7)) ?? NOT_FOUND],
+  [/^\/api\/chains\/([^/]+)\/validators\/history$/, (match, params, options) =>
+    buildValidatorHistory(options, decodeURIComponent(match[1]), daysParam(params, options, 30)) ?? NOT_FOUND],
+  [/^\/api\/tvl\/history$/, (_, params, options) => buildTvlHistory(options, daysParam(params, options, 30))],
+  [/^\/api\/tvl\/health$/, (_, __, options) => buildTvlHealth(options)],
+  [/^\/api\/tps\/network\/history$/, (_, params, options) => buildNetworkTpsHistory(options, daysParam(params, options, 7))],
+  [/^\/api\/tps\/network\/latest$/, (_, __, options) => buildNetworkTpsLatest(options)],
+  [/^\/api\/teleporter\/messages\/daily-count$/, (_, __, options) => buildTeleporterCounts(options, 'daily')],
+  [/^\/api\/teleporter\/messages\/weekly-count$/, (_, __, options) => buildTeleporterCounts(options, 'weekly')],
+  [/^\/api\/teleporter\/messages\/historical-daily$/, (_, params, options) =>
+    buildTeleporterDailyHistory(options, daysParam(params, options, 30))],
+  [/^\/api\/blog\/health$/, (_, __, options) => {
+    const posts = buildBlogPosts(options);
+    return {
+      success: true,
+      stats: {
+        totalPosts: posts.length,
+        syncedPosts: posts.length,
+        recentPosts: posts.length,
+        failedPosts: 0,
+        totalViews: posts.reduce((sum, post) => sum + post.views, 0),
+        mostRecentPost: {
+          title: posts[0].title,
+          publishedAt: posts[0].publishedAt,
+          lastSynced: new Date(options.now).toISOString(),
+        },
+        healthStatus: 'healthy',
+      },
+      lastUpdate: new Date(options.now).toISOString(),
+    };
+  }],
+  [/^\/api\/blog\/tags$/, (_, __, options) => {
+    const counts = new Map<string, number>();
+    buildBlogPosts(options).forEach(post => post.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return {
+      success: true,
+      data: Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+    };
+  }],
+  [/^\/api\/blog\/posts$/, (_, params, options) => blogPostsPage(params, options)],
+  [/^\/api\/blog\/posts\/([^/]+)\/related$/, (match, params, options) => {
+    const posts = buildBlogPosts(options);
+    const current = posts.find(post => post.slug === decodeURIComponent(match[1]));
+    if (!current) return NOT_FOUND;
+
+    const related = posts
+      .filter(post => post.slug !== current.slug)
+      .map(post => {
+        const matchingTags = post.tags.filter(tag => current.tags.includes(tag));
+        return { ...post, matchingTags, matchingTagsCount: matchingTags.length };
+      })
+      .filter(post => post.matchingTagsCount > 0)
+      .sort((a, b) => b.matchingTagsCount - a.matchingTagsCount)
+      .slice(0, numberParam(params, 'limit', 4));
+
+    return {
+      success: true,
+      data: related,
+      metadata: {
+        currentPost: current.slug,
+        currentPostTags: current.tags,
+        totalFound: related.length,
+        retrievedAt: new Date(options.now).toISOString(),
+      },
+    };
+  }],
+  [/^\/api\/blog\/posts\/([^/]+)$/, (match, _, options) => {
+    const post = buildBlogPosts(options).find(item => item.slug === decodeURIComponent(match[1]));
+    if (!post) return NOT_FOUND;
+    return {
+      success: true,
+      data: post,
+      metadata: { requestId: 'mock', retrievedAt: new Date(options.now).toISOString() },
+    };
+  }],
+];
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/**
+ * Override the seed, reference time or latency, e.g. to pin fixtures in tests
+ */
+export function configureMockBackend(options: Partial<MockBackendOptions>) {
+  mockOptions = { ...mockOptions, ...options };
+}
+
+/**
+ * fetch-compatible handler that answers L1Beat API requests from fixtures
+ * @param input Request URL; only the path and query are used
+ * @returns A JSON response, or 404 for unknown routes and missing entities
+ */
+export async function mockFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input), 'http://mock.local');
+
+  if (mockOptions.latency > 0) {
+    await new Promise(resolve => setTimeout(resolve, mockOptions.latency));
+  }
+
+  if (init?.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  for (const [pattern, handler] of routes) {
+    const match = url.pathname.match(pattern);
+    if (!match) continue;
+
+    const body = handler(match, url.searchParams, mockOptions);
+    return body === NOT_FOUND
+      ? jsonResponse({ success: false, error: 'Not found' }, 404)
+      : jsonResponse(body);
+  }
+
+  return jsonResponse({ success: false, error: `No mock route for ${url.pathname}` }, 404);
+}
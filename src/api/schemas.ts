@@ -0,0 +1,364 @@
+import { z } from 'zod';
+import { schemaDrift } from '../services/schemaDrift';
+import type {
+  TVLHistory,
+  TVLHealth,
+  CumulativeTxCount,
+  TeleporterMessage,
+  TeleporterDailyMessage,
+  TeleporterDailyData,
+} from '../types';
+import type { BlogPost, RelatedPost, BlogTag } from './blogApi';
+
+// Runtime schemas for backend responses. They mirror the interfaces in
+// src/types.ts and src/api/blogApi.ts, coercing numeric strings per field so
+// a backend change surfaces as an ApiValidationError instead of NaN in a chart.
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[]) {
+    const first = issues[0];
+    super(`Invalid response from ${endpoint}${first ? ` at ${first.path}: ${first.message}` : ''}`);
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+
+  // Path of the first offending field, e.g. "data[3].tvl"
+  get path(): string {
+    return this.issues[0]?.path ?? '(root)';
+  }
+}
+
+// ============= FIELD HELPERS =============
+
+// Accepts numbers and numeric strings, rejects NaN/Infinity. Unlike z.coerce,
+// null and empty strings fail so a missing value shows up as drift instead of 0
+const numeric = z
+  .union([z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/).transform(Number)])
+  .pipe(z.number().finite());
+
+// Backend sends null for missing optional strings
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+function formatPath(path: (string | number)[], prefix: string = ''): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, prefix) || '(root)';
+}
+
+function toIssues(error: z.ZodError, prefix: string = ''): SchemaIssue[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path, prefix),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validate a whole response body, throwing when it does not match
+ * @param endpoint Endpoint template used in errors and drift reports
+ * @param schema Schema the body must satisfy
+ * @param data Parsed JSON body
+ * @returns The coerced value
+ */
+export function parseResponse<S extends z.ZodTypeAny>(endpoint: string, schema: S, data: unknown): z.output<S> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = toIssues(result.error);
+  schemaDrift.report(endpoint, issues);
+  throw new ApiValidationError(endpoint, issues);
+}
+
+/**
+ * Validate each item of a list independently, dropping the ones that fail
+ * so a single malformed row does not blank the whole chart
+ * @param endpoint Endpoint template used in drift reports
+ * @param schema Schema each item must satisfy
+ * @param items Raw list from the response body
+ * @param path Location of the list in the body, for drift reports
+ * @returns The valid, coerced items
+ */
+export function parseItems<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  items: unknown[],
+  path: string = ''
+): z.output<S>[] {
+  const valid: z.output<S>[] = [];
+  const issues: SchemaIssue[] = [];
+
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      issues.push(...toIssues(result.error, `${path}[${index}]`));
+    }
+  });
+
+  if (issues.length > 0) {
+    schemaDrift.report(endpoint, issues);
+  }
+
+  return valid;
+}
+
+// ============= CHAIN SCHEMAS =============
+
+export const rawValidatorSchema = z.object({
+  nodeId: z.string(),
+  validationStatus: z.string(),
+  uptimePerformance: numeric.default(0),
+  amountStaked: numeric,
+}).passthrough();
+
+export type RawValidator = z.output<typeof rawValidatorSchema>;
+
+export const rawChainSchema = z.object({
+  chainId: z.string(),
+  chainName: z.string(),
+  chainLogoUri: optionalString,
+  description: optionalString,
+  subnetId: optionalString,
+  platformChainId: optionalString,
+  tps: z.object({
+    value: numeric,
+    timestamp: numeric,
+  }).nullish().transform(value => value ?? null),
+  validators: z.array(rawValidatorSchema).default([]),
+  networkToken: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    logoUri: optionalString,
+  }).nullish().transform(value => value ?? undefined),
+  explorerUrl: optionalString,
+}).passthrough();
+
+export const rawValidatorSnapshotSchema = z.object({
+  timestamp: numeric,
+  validators: z.array(rawValidatorSchema),
+});
+
+// /api/chains returns a bare array
+export const chainsResponseSchema = z.array(z.unknown());
+
+export type RawChain = z.output<typeof rawChainSchema>;
+
+// ============= TVL SCHEMAS =============
+
+export const tvlHistorySchema: z.ZodType<TVLHistory, z.ZodTypeDef, unknown> = z.object({
+  date: numeric,
+  tvl: numeric,
+});
+
+export const tvlHistoryResponseSchema = z.object({
+  data: z.array(z.unknown()),
+});
+
+export const tvlHealthSchema: z.ZodType<TVLHealth, z.ZodTypeDef, unknown> = z.object({
+  lastUpdate: z.string(),
+  ageInHours: numeric.default(0),
+  tvl: numeric,
+  status: z.enum(['healthy', 'stale']).catch('stale'),
+});
+
+// ============= TPS SCHEMAS =============
+
+export const rawTpsHistorySchema = z.object({
+  timestamp: numeric,
+  value: numeric.optional(),
+  totalTps: numeric.optional(),
+  chainCount: numeric.optional(),
+}).refine(item => item.value !== undefined || item.totalTps !== undefined, {
+  message: 'Expected value or totalTps',
+  path: ['value'],
+});
+
+export const listResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.unknown()),
+});
+
+export const networkTpsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    totalTps: numeric,
+    chainCount: numeric,
+    timestamp: numeric.optional(),
+    lastUpdate: optionalString,
+    dataAge: numeric.default(0),
+    dataAgeUnit: optionalString,
+    updatedAt: optionalString,
+  }),
+});
+
+export const cumulativeTxCountSchema: z.ZodType<CumulativeTxCount, z.ZodTypeDef, unknown> = z.object({
+  timestamp: numeric,
+  value: numeric,
+});
+
+// ============= HEALTH SCHEMAS =============
+
+export const healthResponseSchema = z.object({
+  status: z.string(),
+  currentTime: optionalString,
+});
+
+// ============= TELEPORTER SCHEMAS =============
+
+export const teleporterMessageSchema: z.ZodType<TeleporterMessage, z.ZodTypeDef, unknown> = z.object({
+  source: z.string(),
+  target: z.string(),
+  count: numeric,
+});
+
+// The daily-count endpoint has served both { messages: [{ source, target, count }] }
+// and { data: [{ sourceChain, destinationChain, messageCount }] }
+export const teleporterCountSchema = z.union([
+  teleporterMessageSchema,
+  z.object({
+    sourceChain: z.string(),
+    destinationChain: z.string(),
+    messageCount: numeric,
+  }).transform(item => ({ source: item.sourceChain, target: item.destinationChain, count: item.messageCount })),
+]);
+
+export const teleporterMessagesResponseSchema = z.object({
+  messages: z.array(z.unknown()).optional(),
+  data: z.array(z.unknown()).optional(),
+  metadata: z.object({
+    totalMessages: numeric.optional(),
+    startDate: optionalString,
+    endDate: optionalString,
+    updatedAt: optionalString,
+    timeWindow: numeric.optional(),
+    timeWindowUnit: optionalString,
+  }).nullish(),
+}).refine(body => body.messages !== undefined || body.data !== undefined, {
+  message: 'Expected a messages or data array',
+  path: ['messages'],
+});
+
+export const teleporterDailyMessageSchema: z.ZodType<TeleporterDailyMessage, z.ZodTypeDef, unknown> = z.object({
+  sourceChain: z.string(),
+  destinationChain: z.string(),
+  messageCount: numeric,
+});
+
+export const teleporterDailyDataSchema: z.ZodType<TeleporterDailyData, z.ZodTypeDef, unknown> = z.object({
+  date: z.string(),
+  dateString: z.string(),
+  data: z.array(teleporterDailyMessageSchema),
+  totalMessages: numeric,
+  timeWindow: numeric,
+});
+
+export const teleporterDailyResponseSchema = z.object({
+  data: z.array(z.unknown()),
+});
+
+// ============= BLOG SCHEMAS =============
+
+export const blogPostSchema: z.ZodType<BlogPost, z.ZodTypeDef, unknown> = z.object({
+  _id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  subtitle: optionalString,
+  excerpt: z.string().default(''),
+  content: z.string().default(''),
+  mainContent: optionalString,
+  author: z.string().default(''),
+  authors: z.array(z.string()).default([]),
+  publishedAt: z.string(),
+  updatedAt: z.string(),
+  tags: z.array(z.string()).default([]),
+  views: numeric.default(0),
+  imageUrl: optionalString,
+  readTime: numeric.optional(),
+}).passthrough();
+
+export const relatedPostSchema: z.ZodType<RelatedPost, z.ZodTypeDef, unknown> = z.object({
+  _id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  excerpt: z.string().default(''),
+  publishedAt: z.string(),
+  author: z.string().default(''),
+  authors: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+  imageUrl: optionalString,
+  readTime: numeric.default(1),
+  views: numeric.default(0),
+  matchingTagsCount: numeric.default(0),
+  matchingTags: z.array(z.string()).default([]),
+}).passthrough();
+
+export const blogPostsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.unknown()),
+  metadata: z.object({
+    total: numeric,
+    limit: numeric,
+    offset: numeric,
+    hasMore: z.boolean(),
+    tag: optionalString,
+    requestId: z.string().default(''),
+  }),
+});
+
+export const blogPostResponseSchema = z.object({
+  success: z.boolean(),
+  data: blogPostSchema,
+  metadata: z.object({
+    requestId: z.string().default(''),
+    retrievedAt: z.string().default(''),
+  }),
+});
+
+export const relatedPostsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.unknown()),
+  metadata: z.object({
+    currentPost: z.string(),
+    currentPostTags: z.array(z.string()).default([]),
+    totalFound: numeric,
+    retrievedAt: z.string(),
+  }),
+});
+
+export const blogHealthResponseSchema = z.object({
+  success: z.boolean(),
+  stats: z.object({
+    totalPosts: numeric,
+    syncedPosts: numeric,
+    recentPosts: numeric,
+    failedPosts: numeric,
+    totalViews: numeric.default(0),
+    mostRecentPost: z.object({
+      title: z.string(),
+      publishedAt: z.string(),
+      lastSynced: z.string(),
+    }).nullish().transform(value => value ?? undefined),
+    healthStatus: z.string(),
+  }),
+  lastUpdate: z.string(),
+});
+
+export const blogTagSchema: z.ZodType<BlogTag, z.ZodTypeDef, unknown> = z.object({
+  name: z.string(),
+  count: numeric,
+});
+
+export const blogTagsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.array(z.unknown()),
+});
@@ -1,6 +1,11 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
+import { Link } from 'react-router-dom';
 import { acpService } from '../services/acpService';
+import { HighlightedText } from './HighlightedText';
+import { HighlightSegment } from '../utils/acpSearch';
+import { getAuthorId } from '../utils/acpAuthors';
+import { Author } from '../types';
 import {
   Users,
   ArrowRight,
@@ -8,7 +13,7 @@ import {
   MessageCircle,
 } from 'lucide-react';
 
-const EnhancedACPCard = ({ acp, viewMode = 'grid', onClick }) => {
+const EnhancedACPCard = ({ acp, viewMode = 'grid', onClick, snippet = [] as HighlightSegment[] }) => {
   
   const getStatusColor = (status) => {
     const cleanStatus = status?.toLowerCase() || '';
@@ -67,6 +72,32 @@ const EnhancedACPCard = ({ acp, viewMode = 'grid', onClick }) => {
     </div>
   );
 
+  const AuthorChips = ({ max = 3 }) => {
+    const authors: Author[] = acp.authors || [];
+    if (authors.length === 0) {
+      return <MetadataItem icon={Users} label="Unknown author" />;
+    }
+    return (
+      <div className="flex items-center gap-1.5 min-w-0 text-gray-500 dark:text-gray-400">
+        <Users className="w-4 h-4 flex-shrink-0" />
+        {authors.slice(0, max).map((author, index) => (
+          <Link
+            key={index}
+            to={`/acps/authors/${getAuthorId(author)}`}
+            onClick={(e) => e.stopPropagation()}
+            className="px-2 py-0.5 rounded-full text-xs font-medium truncate max-w-[8rem] bg-gray-100 text-gray-700 hover:bg-blue-100 hover:text-blue-700 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-blue-900/50 dark:hover:text-blue-300 transition-colors"
+          >
+            {author.name}
+          </Link>
+        ))}
+        {authors.length > max && (
+          <span className="text-xs font-medium" title={authors.slice(max).map(author => author.name).join(', ')}>
+            +{authors.length - max}
+          </span>
+        )}
+      </div>
+    );
+  };
 
   if (viewMode === 'list') {
     return (
@@ -85,13 +116,13 @@ const EnhancedACPCard = ({ acp, viewMode = 'grid', onClick }) => {
               </h3>
             </div>
             <div className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
-              <ReactMarkdown>{acp.abstract}</ReactMarkdown>
+              {snippet.length ? <HighlightedText segments={snippet} /> : <ReactMarkdown>{acp.abstract}</ReactMarkdown>}
             </div>
           </div>
           <div className="flex items-center gap-6">
             <div className="flex flex-col items-end gap-2">
               <div className="flex items-center gap-4">
-                <MetadataItem icon={Users} label={`${acp.authors?.length || 0} authors`} />
+                <AuthorChips max={2} />
                 <MetadataItem icon={BookOpen} label={`${acp.readingTime} min read`} />
                 
               </div>
@@ -129,17 +160,14 @@ const EnhancedACPCard = ({ acp, viewMode = 'grid', onClick }) => {
         </h3>
 
         <div className="text-sm text-gray-600 dark:text-gray-400 mb-4 line-clamp-4 leading-relaxed">
-          <ReactMarkdown>{acp.abstract}</ReactMarkdown>
+          {snippet.length ? <HighlightedText segments={snippet} /> : <ReactMarkdown>{acp.abstract}</ReactMarkdown>}
         </div>
       </div>
 
       <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
-        <div className="flex items-center justify-between mb-3">
-          <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400">
-            <Users className="w-4 h-4" />
-            <span className="text-xs font-medium">{acp.authors?.length || 0} authors</span>
-          </div>
-          <div className="flex items-center gap-1.5 text-gray-500 dark:text-gray-400">
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <AuthorChips />
+          <div className="flex items-center gap-1.5 flex-shrink-0 text-gray-500 dark:text-gray-400">
             <BookOpen className="w-4 h-4" />
             <span className="text-xs font-medium">{acp.readingTime} min read</span>
           </div>
@@ -0,0 +1,293 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Link, useNavigate } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { useTheme } from '../hooks/useTheme';
+import { ACPEdgeType, ACPGraph, ACPGraphEdge, ACPGraphNode } from '../utils/acpGraph';
+
+interface ACPDependencyGraphProps {
+  graph: ACPGraph;
+  // ACP number to pin in the middle and highlight
+  focus?: string;
+  height?: number;
+}
+
+interface SimulationNode extends d3.SimulationNodeDatum, ACPGraphNode {
+  radius: number;
+}
+
+interface SimulationLink extends d3.SimulationLinkDatum<SimulationNode> {
+  edge: ACPGraphEdge;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  Proposed: '#3b82f6',
+  Implementable: '#eab308',
+  Activated: '#22c55e',
+  Stale: '#9ca3af',
+  Withdrawn: '#ef4444',
+};
+const OTHER_STATUS_COLOR = '#64748b';
+const CYCLE_COLOR = '#dc2626';
+
+const EDGE_STYLES: Record<ACPEdgeType, { label: string; dash: string | null }> = {
+  depends: { label: 'Depends on', dash: null },
+  replaces: { label: 'Replaces', dash: '6 3' },
+  'superseded-by': { label: 'Superseded by', dash: '2 3' },
+};
+
+const getStatusColor = (status: string) => STATUS_COLORS[status] ?? OTHER_STATUS_COLOR;
+
+// Force-directed graph of ACP relationships. Nodes link to their ACP page; missing ACPs are outlined in red.
+export function ACPDependencyGraph({ graph, focus, height = 520 }: ACPDependencyGraphProps) {
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<ACPGraphNode | null>(null);
+  // Marker ids have to be unique per graph on the page
+  const markerPrefix = `acp-graph-${useId().replace(/:/g, '')}`;
+
+  useEffect(() => {
+    const updateWidth = () => setWidth(containerRef.current?.clientWidth ?? 0);
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  useEffect(() => {
+    if (!svgRef.current || width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    svg.attr('width', width).attr('height', height);
+    if (graph.nodes.length === 0) return;
+
+    const degree = new Map<string, number>();
+    graph.edges.forEach(edge => {
+      degree.set(edge.source, (degree.get(edge.source) ?? 0) + 1);
+      degree.set(edge.target, (degree.get(edge.target) ?? 0) + 1);
+    });
+
+    const nodes: SimulationNode[] = graph.nodes.map(node => ({
+      ...node,
+      radius: node.id === focus ? 18 : 10 + Math.min(degree.get(node.id) ?? 0, 6) * 1.5,
+      // Keep the focused ACP in the middle
+      ...(node.id === focus ? { fx: width / 2, fy: height / 2 } : {}),
+    }));
+    const statusById = new Map(nodes.map(node => [node.id, node.status]));
+    const links: SimulationLink[] = graph.edges.map(edge => ({ source: edge.source, target: edge.target, edge }));
+    const edgeColor = (edge: ACPGraphEdge) => (edge.inCycle ? CYCLE_COLOR : getStatusColor(statusById.get(edge.source) ?? ''));
+
+    const defs = svg.append('defs');
+    const markerColors = Array.from(new Set([CYCLE_COLOR, OTHER_STATUS_COLOR, ...Object.values(STATUS_COLORS)]));
+    markerColors.forEach(color => {
+      defs.append('marker')
+        .attr('id', `${markerPrefix}-${color.slice(1)}`)
+        .attr('viewBox', '0 -5 10 10')
+        .attr('refX', 9)
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .attr('orient', 'auto')
+        .append('path')
+        .attr('d', 'M0,-5L10,0L0,5')
+        .attr('fill', color);
+    });
+
+    const root = svg.append('g');
+    svg.call(
+      d3.zoom<SVGSVGElement, unknown>()
+        .scaleExtent([0.3, 4])
+        .on('zoom', event => root.attr('transform', event.transform))
+    );
+
+    const link = root.append('g')
+      .selectAll<SVGLineElement, SimulationLink>('line')
+      .data(links)
+      .join('line')
+      .attr('stroke', d => edgeColor(d.edge))
+      .attr('stroke-width', d => (d.edge.inCycle ? 3 : 1.5))
+      .attr('stroke-opacity', d => (d.edge.inCycle ? 0.9 : 0.6))
+      .attr('stroke-dasharray', d => EDGE_STYLES[d.edge.type].dash)
+      .attr('marker-end', d => `url(#${markerPrefix}-${edgeColor(d.edge).slice(1)})`);
+
+    const node = root.append('g')
+      .selectAll<SVGGElement, SimulationNode>('g')
+      .data(nodes)
+      .join('g')
+      .style('cursor', d => (d.missing ? 'default' : 'pointer'))
+      .on('mouseenter', (_, d) => setHovered(d))
+      .on('mouseleave', () => setHovered(null))
+      .on('click', (_, d) => {
+        if (!d.missing) navigate(`/acps/${d.id}`);
+      });
+
+    node.append('circle')
+      .attr('r', d => d.radius)
+      .attr('fill', d => (d.missing ? (isDark ? '#1e293b' : '#ffffff') : getStatusColor(d.status)))
+      .attr('stroke', d => (d.missing ? CYCLE_COLOR : d.id === focus ? (isDark ? '#ffffff' : '#1e293b') : 'none'))
+      .attr('stroke-width', d => (d.missing || d.id === focus ? 2 : 0))
+      .attr('stroke-dasharray', d => (d.missing ? '3 2' : null));
+
+    node.append('text')
+      .text(d => d.id)
+      .attr('text-anchor', 'middle')
+      .attr('dy', '0.35em')
+      .attr('font-size', d => (d.radius > 14 ? 11 : 9))
+      .attr('font-weight', 600)
+      .attr('fill', d => (d.missing ? CYCLE_COLOR : '#ffffff'))
+      .style('pointer-events', 'none');
+
+    const simulation = d3.forceSimulation<SimulationNode>(nodes)
+      .force('link', d3.forceLink<SimulationNode, SimulationLink>(links).id(d => d.id).distance(80))
+      .force('charge', d3.forceManyBody().strength(-220))
+      .force('center', d3.forceCenter(width / 2, height / 2))
+      .force('collide', d3.forceCollide<SimulationNode>().radius(d => d.radius + 6));
+
+    node.call(
+      d3.drag<SVGGElement, SimulationNode>()
+        .on('start', (event, d) => {
+          if (!event.active) simulation.alphaTarget(0.3).restart();
+          d.fx = d.x;
+          d.fy = d.y;
+        })
+        .on('drag', (event, d) => {
+          d.fx = event.x;
+          d.fy = event.y;
+        })
+        .on('end', (event, d) => {
+          if (!event.active) simulation.alphaTarget(0);
+          if (d.id !== focus) {
+            d.fx = null;
+            d.fy = null;
+          }
+        })
+    );
+
+    simulation.on('tick', () => {
+      // Stop lines at the edge of the target circle so the arrow head stays visible
+      link.each(function (d) {
+        const source = d.source as SimulationNode;
+        const target = d.target as SimulationNode;
+        const dx = (target.x ?? 0) - (source.x ?? 0);
+        const dy = (target.y ?? 0) - (source.y ?? 0);
+        const length = Math.hypot(dx, dy) || 1;
+        d3.select(this)
+          .attr('x1', source.x ?? 0)
+          .attr('y1', source.y ?? 0)
+          .attr('x2', (target.x ?? 0) - (dx / length) * (target.radius + 2))
+          .attr('y2', (target.y ?? 0) - (dy / length) * (target.radius + 2));
+      });
+      node.attr('transform', d => `translate(${d.x ?? 0},${d.y ?? 0})`);
+    });
+
+    return () => {
+      simulation.stop();
+    };
+  }, [graph, focus, width, height, isDark, markerPrefix, navigate]);
+
+  const statuses = Array.from(new Set(graph.nodes.filter(node => !node.missing).map(node => node.status)));
+  const hasMissing = graph.nodes.some(node => node.missing);
+  const hasCycles = graph.edges.some(edge => edge.inCycle);
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative rounded-lg bg-gray-50 dark:bg-dark-900/50 overflow-hidden" style={{ height }}>
+        {graph.nodes.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            No relationships between ACPs
+          </div>
+        ) : (
+          <svg ref={svgRef} className="block" />
+        )}
+
+        {hovered && (
+          <div className="absolute top-3 left-3 max-w-xs px-3 py-2 rounded-md shadow-md bg-white dark:bg-dark-800 border border-gray-200 dark:border-gray-700 pointer-events-none">
+            <div className="text-xs font-bold font-mono text-blue-600 dark:text-blue-400">ACP-{hovered.id}</div>
+            <div className="text-sm font-medium text-gray-900 dark:text-white">{hovered.title}</div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {hovered.missing ? 'Referenced but not found in the ACP repository' : hovered.status}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-xs text-gray-600 dark:text-gray-400">
+        {statuses.map(status => (
+          <span key={status} className="inline-flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getStatusColor(status) }} />
+            {status}
+          </span>
+        ))}
+        {hasMissing && (
+          <span className="inline-flex items-center gap-1.5">
+            <span className="w-2.5 h-2.5 rounded-full border border-dashed border-red-600" />
+            Missing
+          </span>
+        )}
+        <span className="w-px h-3 bg-gray-300 dark:bg-gray-600" />
+        {Object.values(EDGE_STYLES).map(style => (
+          <span key={style.label} className="inline-flex items-center gap-1.5">
+            <svg width="20" height="6">
+              <line x1="0" y1="3" x2="20" y2="3" stroke="currentColor" strokeWidth="1.5" strokeDasharray={style.dash ?? undefined} />
+            </svg>
+            {style.label}
+          </span>
+        ))}
+        {hasCycles && (
+          <span className="inline-flex items-center gap-1.5 text-red-600 dark:text-red-400">
+            <span className="w-5 h-0.5 bg-red-600" />
+            Dependency cycle
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const EDGE_VERBS: Record<ACPEdgeType, string> = {
+  depends: 'depends on',
+  replaces: 'replaces',
+  'superseded-by': 'is superseded by',
+};
+
+// Dependency cycles and references to ACPs that don't exist, or nothing when the graph is consistent
+export function ACPGraphIssues({ graph }: { graph: ACPGraph }) {
+  if (graph.cycles.length === 0 && graph.missingReferences.length === 0) return null;
+
+  const acpLink = (id: string) => (
+    <Link to={`/acps/${id}`} className="font-mono font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+      ACP-{id}
+    </Link>
+  );
+
+  return (
+    <div className="rounded-lg border border-red-200 dark:border-red-500/30 bg-red-50 dark:bg-red-500/10 p-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-red-800 dark:text-red-300 mb-3">
+        <AlertTriangle className="w-4 h-4" />
+        Relationship issues
+      </h3>
+      <ul className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+        {graph.cycles.map(cycle => (
+          <li key={`cycle-${cycle.join('-')}`}>
+            Dependency cycle:{' '}
+            {[...cycle, cycle[0]].map((id, index) => (
+              <span key={`${id}-${index}`}>
+                {index > 0 && ' → '}
+                {acpLink(id)}
+              </span>
+            ))}
+          </li>
+        ))}
+        {graph.missingReferences.map(reference => (
+          <li key={`missing-${reference.type}-${reference.from}-${reference.to}`}>
+            {acpLink(reference.from)} {EDGE_VERBS[reference.type]}{' '}
+            <span className="font-mono font-semibold">ACP-{reference.to}</span>, which is not in the ACP repository
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
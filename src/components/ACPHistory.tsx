@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, ChevronsUpDown, GitCommit, RefreshCw } from 'lucide-react';
+import { acpService } from '../services/acpService';
+import { ACPHistory as ACPHistoryData } from '../types';
+import { collapseUnchanged, diffLines, DiffCell, toSideBySide } from '../utils/lineDiff';
+
+interface ACPHistoryProps {
+  acpNumber: string;
+}
+
+// Matches the status row of the ACP metadata table
+const STATUS_LINE = /^\|\s*\**status\**\s*\|/i;
+
+const CELL_STYLES: Record<DiffCell['type'], string> = {
+  unchanged: 'text-gray-700 dark:text-gray-300',
+  removed: 'bg-red-50 text-red-900 dark:bg-red-500/10 dark:text-red-200',
+  added: 'bg-green-50 text-green-900 dark:bg-green-500/10 dark:text-green-200',
+};
+
+const shortHash = (hash: string) => hash.slice(0, 7);
+
+function DiffSide({ cell }: { cell: DiffCell | null }) {
+  if (!cell) return <td colSpan={2} className="bg-gray-50 dark:bg-dark-900/50" />;
+  const statusChange = cell.type !== 'unchanged' && STATUS_LINE.test(cell.text);
+  return (
+    <>
+      <td className="w-10 px-2 text-right align-top select-none text-gray-400 dark:text-gray-500">{cell.number}</td>
+      <td
+        className={`px-2 align-top whitespace-pre-wrap break-words ${CELL_STYLES[cell.type]} ${
+          statusChange ? 'ring-2 ring-inset ring-amber-400 font-semibold' : ''
+        }`}
+      >
+        {cell.text || ' '}
+      </td>
+    </>
+  );
+}
+
+// Commits that touched an ACP, with a side-by-side diff between any two of them
+export function ACPHistory({ acpNumber }: ACPHistoryProps) {
+  const [history, setHistory] = useState<ACPHistoryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fromHash, setFromHash] = useState<string | null>(null);
+  const [toHash, setToHash] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function fetchHistory() {
+      setLoading(true);
+      const data = await acpService.loadACPHistory(acpNumber);
+      if (!mounted) return;
+      setHistory(data);
+      // Start by comparing the latest revision with the one before it
+      const revisions = data?.revisions ?? [];
+      setToHash(revisions[0]?.hash ?? null);
+      setFromHash((revisions[1] ?? revisions[0])?.hash ?? null);
+      setLoading(false);
+    }
+
+    fetchHistory();
+
+    return () => {
+      mounted = false;
+    };
+  }, [acpNumber]);
+
+  const revisions = useMemo(() => history?.revisions ?? [], [history]);
+  const from = revisions.find(revision => revision.hash === fromHash);
+  const to = revisions.find(revision => revision.hash === toHash);
+
+  const diff = useMemo(() => {
+    if (!from || !to) return null;
+    const lines = diffLines(from.content, to.content);
+    return {
+      rows: collapseUnchanged(toSideBySide(lines)),
+      added: lines.filter(line => line.type === 'added').length,
+      removed: lines.filter(line => line.type === 'removed').length,
+    };
+  }, [from, to]);
+
+  useEffect(() => setExpanded(new Set()), [fromHash, toHash]);
+
+  const compareWithPrevious = (index: number) => {
+    setToHash(revisions[index].hash);
+    setFromHash((revisions[index + 1] ?? revisions[index]).hash);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-600 dark:text-gray-300">
+        <RefreshCw className="w-5 h-5 animate-spin mr-2 text-blue-600" />
+        Loading revision history...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <GitCommit className="w-8 h-8 mx-auto mb-3 text-gray-400" />
+        <p className="text-gray-600 dark:text-gray-400">No revision history is available for ACP-{acpNumber}.</p>
+      </div>
+    );
+  }
+
+  const revisionLabel = (hash: string) => {
+    const revision = revisions.find(item => item.hash === hash);
+    return revision ? `${shortHash(revision.hash)} · ${format(new Date(revision.date), 'MMM d, yyyy')} · ${revision.message}` : hash;
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Revisions */}
+      <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+        {revisions.map((revision, index) => {
+          const selected = revision.hash === toHash;
+          return (
+            <li key={revision.hash} className="ml-6">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ring-4 ring-white dark:ring-dark-800 ${
+                  revision.previousStatus ? 'bg-amber-400' : selected ? 'bg-blue-500' : 'bg-gray-300 dark:bg-gray-600'
+                }`}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">{revision.message}</span>
+                {revision.previousStatus && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300">
+                    {revision.previousStatus}
+                    <ArrowRight className="w-3 h-3" />
+                    {revision.status}
+                  </span>
+                )}
+              </div>
+              <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                <span className="font-mono">{shortHash(revision.hash)}</span>
+                <span>{revision.author}</span>
+                <time>{format(new Date(revision.date), 'MMM d, yyyy HH:mm')}</time>
+                {index < revisions.length - 1 && (
+                  <button
+                    onClick={() => compareWithPrevious(index)}
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    Compare with previous
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Diff */}
+      <div>
+        <div className="flex flex-col md:flex-row md:items-end gap-3 mb-4">
+          {[
+            { label: 'From', value: fromHash, onChange: setFromHash },
+            { label: 'To', value: toHash, onChange: setToHash },
+          ].map(select => (
+            <label key={select.label} className="flex-1 min-w-0">
+              <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{select.label}</span>
+              <select
+                value={select.value ?? ''}
+                onChange={(e) => select.onChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-dark-700 dark:text-white"
+              >
+                {revisions.map(revision => (
+                  <option key={revision.hash} value={revision.hash}>{revisionLabel(revision.hash)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {from && to && from.status !== to.status && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border border-amber-200 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 px-4 py-2 text-sm text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            Status changed from <strong>{from.status}</strong> to <strong>{to.status}</strong>
+          </div>
+        )}
+
+        {diff && (
+          <>
+            <div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              {fromHash === toHash ? (
+                'Same revision selected on both sides'
+              ) : (
+                <>
+                  <span className="text-green-600 dark:text-green-400">+{diff.added}</span>{' '}
+                  <span className="text-red-600 dark:text-red-400">−{diff.removed}</span> lines
+                </>
+              )}
+            </div>
+            <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+              <table className="w-full table-fixed font-mono text-xs leading-5">
+                <colgroup>
+                  <col className="w-10" />
+                  <col />
+                  <col className="w-10" />
+                  <col />
+                </colgroup>
+                <tbody>
+                  {diff.rows.map((item, index) =>
+                    item.kind === 'collapsed' && !expanded.has(index) ? (
+                      <tr key={index}>
+                        <td colSpan={4} className="bg-gray-50 dark:bg-dark-900/50">
+                          <button
+                            onClick={() => setExpanded(current => new Set(current).add(index))}
+                            className="w-full inline-flex items-center justify-center gap-1 py-1 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            <ChevronsUpDown className="w-3 h-3" />
+                            {item.rows.length} unchanged lines
+                          </button>
+                        </td>
+                      </tr>
+                    ) : (
+                      (item.kind === 'row' ? [item.row] : item.rows).map((row, rowIndex) => (
+                        <tr key={`${index}-${rowIndex}`} className="border-t border-gray-100 dark:border-gray-700/50 first:border-t-0">
+                          <DiffSide cell={row.left} />
+                          <DiffSide cell={row.right} />
+                        </tr>
+                      ))
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { EnhancedACP } from '../types';
+import { PIPELINE_STATUSES, PipelineStatus, STATUS_DOT_CLASSES, getCleanStatus } from '../utils/acpStatus';
+
+interface ACPPipelineProps {
+  acps: EnhancedACP[];
+  onSelect: (acp: EnhancedACP) => void;
+}
+
+// Kanban board with one column per lifecycle status. ACPs keep the order they are given in.
+export function ACPPipeline({ acps, onSelect }: ACPPipelineProps) {
+  const columns = useMemo(() => {
+    const statuses = acps.map(acp => getCleanStatus(acp.status));
+    const lifecycle: { status: PipelineStatus | 'Other'; items: EnhancedACP[] }[] = PIPELINE_STATUSES.map(status => ({
+      status,
+      items: acps.filter((_, index) => statuses[index] === status),
+    }));
+    // Statuses outside the lifecycle only get a column when something has one
+    const other = acps.filter((_, index) => !(PIPELINE_STATUSES as readonly string[]).includes(statuses[index]));
+    return other.length ? [...lifecycle, { status: 'Other' as const, items: other }] : lifecycle;
+  }, [acps]);
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map(({ status, items }) => (
+        <section
+          key={status}
+          className="flex-1 min-w-[16rem] bg-gray-100 dark:bg-dark-800/50 rounded-lg p-3"
+        >
+          <header className="flex items-center justify-between px-1 mb-3">
+            <h3 className="inline-flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+              <span className={`w-2.5 h-2.5 rounded-full ${STATUS_DOT_CLASSES[status]}`} />
+              {status}
+            </h3>
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-white dark:bg-dark-700 text-gray-600 dark:text-gray-300">
+              {items.length}
+            </span>
+          </header>
+
+          <div className="space-y-2">
+            {items.map(acp => (
+              <button
+                key={acp.number}
+                onClick={() => onSelect(acp)}
+                className="w-full text-left bg-white dark:bg-dark-800 rounded-lg border border-gray-200 dark:border-gray-700 p-3 hover:shadow-md hover:border-blue-400 dark:hover:border-blue-600 transition-all"
+              >
+                <span className="text-xs font-bold font-mono text-blue-600 dark:text-blue-400">ACP-{acp.number}</span>
+                <p className="mt-1 text-sm font-medium text-gray-900 dark:text-white line-clamp-2">{acp.title}</p>
+                <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span className="truncate">{acp.track}</span>
+                  {acp.authors.length > 0 && (
+                    <span className="truncate">
+                      {acp.authors[0].name}{acp.authors.length > 1 ? ` +${acp.authors.length - 1}` : ''}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))}
+            {items.length === 0 && (
+              <p className="px-1 py-4 text-center text-xs text-gray-500 dark:text-gray-400">No ACPs</p>
+            )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Share2 } from 'lucide-react';
+import { useACPGraph } from '../hooks/useACPGraph';
+import { getACPNeighbourhood, normalizeACPNumber } from '../utils/acpGraph';
+import { ACPDependencyGraph, ACPGraphIssues } from './ACPDependencyGraph';
+
+interface ACPRelationshipsPanelProps {
+  acpNumber: string;
+}
+
+// ACPs within two hops of the one being viewed. Hidden when it has no relationships.
+export function ACPRelationshipsPanel({ acpNumber }: ACPRelationshipsPanelProps) {
+  const { graph, loading } = useACPGraph();
+  const focus = normalizeACPNumber(acpNumber) ?? acpNumber;
+  const neighbourhood = useMemo(() => getACPNeighbourhood(graph, focus), [graph, focus]);
+
+  if (loading || neighbourhood.edges.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-8 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <Share2 className="w-5 h-5 text-blue-500" />
+          Related ACPs
+        </h2>
+        <Link to="/acps/graph" className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+          View full graph
+        </Link>
+      </div>
+      <ACPDependencyGraph graph={neighbourhood} focus={focus} height={360} />
+      <div className="mt-4">
+        <ACPGraphIssues graph={neighbourhood} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { PIPELINE_STATUSES, PipelineStatus, STATUS_DOT_CLASSES } from '../utils/acpStatus';
+
+interface ACPStatusBreakdownProps {
+  // Clean status -> number of ACPs
+  counts: Record<string, number>;
+  showLegend?: boolean;
+}
+
+// Stacked bar of ACPs per lifecycle status
+export function ACPStatusBreakdown({ counts, showLegend = true }: ACPStatusBreakdownProps) {
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const other = Object.entries(counts)
+    .filter(([status]) => !(PIPELINE_STATUSES as readonly string[]).includes(status))
+    .reduce((sum, [, count]) => sum + count, 0);
+  const segments: { status: PipelineStatus | 'Other'; count: number }[] = [
+    ...PIPELINE_STATUSES.map(status => ({ status, count: counts[status] ?? 0 })),
+    { status: 'Other' as const, count: other },
+  ].filter(segment => segment.count > 0);
+
+  if (total === 0) return null;
+
+  return (
+    <div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 dark:bg-dark-700">
+        {segments.map(segment => (
+          <div
+            key={segment.status}
+            className={STATUS_DOT_CLASSES[segment.status]}
+            style={{ width: `${(segment.count / total) * 100}%` }}
+            title={`${segment.status}: ${segment.count}`}
+          />
+        ))}
+      </div>
+      {showLegend && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+          {segments.map(segment => (
+            <span key={segment.status} className="inline-flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+              <span className={`w-2 h-2 rounded-full ${STATUS_DOT_CLASSES[segment.status]}`} />
+              {segment.status} {segment.count}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { EnhancedACP } from '../types';
+import { ACPMilestone, ACPTimelineEvent, getACPMilestones } from '../utils/acpStatus';
+
+interface ACPTimelineProps {
+  acps: EnhancedACP[];
+  onSelect: (acp: EnhancedACP) => void;
+}
+
+const MILESTONES: Record<ACPMilestone, { label: string; dot: string; badge: string }> = {
+  proposed: {
+    label: 'Proposed',
+    dot: 'bg-blue-500',
+    badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+  },
+  implementable: {
+    label: 'Implementable',
+    dot: 'bg-yellow-500',
+    badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+  },
+  activated: {
+    label: 'Activated',
+    dot: 'bg-green-500',
+    badge: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+  },
+  stale: {
+    label: 'Stale',
+    dot: 'bg-gray-400',
+    badge: 'bg-gray-100 text-gray-800 dark:bg-gray-900/50 dark:text-gray-300',
+  },
+};
+
+// ACP lifecycle milestones on a vertical timeline, newest first and grouped by year
+export function ACPTimeline({ acps, onSelect }: ACPTimelineProps) {
+  const { years, undated } = useMemo(() => {
+    const events = acps.flatMap(getACPMilestones).sort((a, b) => b.date - a.date);
+    const byYear = new Map<number, ACPTimelineEvent[]>();
+    events.forEach(event => {
+      const year = new Date(event.date).getFullYear();
+      byYear.set(year, [...(byYear.get(year) ?? []), event]);
+    });
+    const dated = new Set(events.map(event => event.acp.number));
+    return {
+      years: Array.from(byYear.entries()),
+      undated: acps.filter(acp => !dated.has(acp.number)),
+    };
+  }, [acps]);
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap gap-4 mb-6">
+        {Object.values(MILESTONES).map(milestone => (
+          <span key={milestone.label} className="inline-flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <span className={`w-2.5 h-2.5 rounded-full ${milestone.dot}`} />
+            {milestone.label}
+          </span>
+        ))}
+      </div>
+
+      {years.map(([year, events]) => (
+        <div key={year} className="mb-8 last:mb-0">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{year}</h3>
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+            {events.map(event => {
+              const milestone = MILESTONES[event.milestone];
+              return (
+                <li key={`${event.acp.number}-${event.milestone}`} className="ml-6">
+                  <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ring-4 ring-white dark:ring-dark-800 ${milestone.dot}`} />
+                  <button
+                    onClick={() => onSelect(event.acp)}
+                    className="w-full text-left rounded-lg px-3 py-2 -mx-3 hover:bg-gray-50 dark:hover:bg-dark-700/50 transition-colors group"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <time className="text-xs text-gray-500 dark:text-gray-400">
+                        {format(new Date(event.date), 'MMM d, yyyy')}
+                      </time>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${milestone.badge}`}>
+                        {milestone.label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                      <span className="font-mono font-semibold text-blue-600 dark:text-blue-400 mr-2">ACP-{event.acp.number}</span>
+                      {event.acp.title}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      ))}
+
+      {undated.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            No recorded dates ({undated.length})
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {undated.map(acp => (
+              <button
+                key={acp.number}
+                onClick={() => onSelect(acp)}
+                title={acp.title}
+                className="px-2.5 py-1 rounded-md text-xs font-mono font-medium bg-gray-100 dark:bg-dark-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-dark-600"
+              >
+                ACP-{acp.number}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, X } from 'lucide-react';
+import { getChains, getNetworkTPS, getTVLHealth, isFallbackData, queryKeys } from '../api';
+import { alerts, AlertEvent } from '../services/alerts';
+import { getAlertRuleSource } from '../utils/alertRules';
+import { useAlerts } from '../hooks/useAlerts';
+import { useQuery } from '../hooks/useQuery';
+
+const ALERT_POLL_INTERVAL = 60 * 1000; // 1 minute
+const TOAST_DURATION = 8000;
+const MAX_TOASTS = 4;
+
+// Polls the endpoints enabled rules depend on, evaluates the rules on every
+// result and shows raised alerts as toasts. Mounted once in App.
+export function AlertMonitor() {
+  const navigate = useNavigate();
+  const { rules } = useAlerts();
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+
+  // Only poll endpoints that an enabled rule depends on
+  const sources = useMemo(
+    () => new Set(rules.filter(rule => rule.enabled).map(rule => getAlertRuleSource(rule.type))),
+    [rules]
+  );
+
+  const { data: chains } = useQuery(queryKeys.chains, getChains, {
+    enabled: sources.has('chains'),
+    refetchInterval: ALERT_POLL_INTERVAL,
+  });
+  const { data: networkTps } = useQuery(queryKeys.networkTps, getNetworkTPS, {
+    enabled: sources.has('networkTps'),
+    refetchInterval: ALERT_POLL_INTERVAL,
+  });
+  const { data: tvlHealth } = useQuery(queryKeys.tvlHealth, getTVLHealth, {
+    enabled: sources.has('tvlHealth'),
+    refetchInterval: ALERT_POLL_INTERVAL,
+  });
+
+  // Rules are part of the dependencies so new or edited rules are checked right away.
+  // Placeholder data from a failed request is skipped so an outage doesn't raise alerts
+  useEffect(() => {
+    if (chains && sources.has('chains')) alerts.evaluate('chains', { chains });
+  }, [chains, rules, sources]);
+
+  useEffect(() => {
+    if (networkTps && !isFallbackData(networkTps) && sources.has('networkTps')) alerts.evaluate('networkTps', { networkTps });
+  }, [networkTps, rules, sources]);
+
+  useEffect(() => {
+    if (tvlHealth && !isFallbackData(tvlHealth) && sources.has('tvlHealth')) alerts.evaluate('tvlHealth', { tvlHealth });
+  }, [tvlHealth, rules, sources]);
+
+  useEffect(() => alerts.onAlert(event => {
+    setToasts(prev => [event, ...prev].slice(0, MAX_TOASTS));
+    setTimeout(() => setToasts(prev => prev.filter(toast => toast.id !== event.id)), TOAST_DURATION);
+  }), []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed top-24 right-4 z-50 flex flex-col gap-3 w-80 max-w-[calc(100vw-2rem)]">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role="alert"
+          className="flex items-start gap-3 p-4 rounded-lg shadow-lg bg-white dark:bg-dark-800 border-l-4 border-red-500"
+        >
+          <Bell className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <button
+            onClick={() => navigate('/alerts')}
+            className="flex-1 min-w-0 text-left"
+          >
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">{toast.title}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mt-0.5">{toast.message}</p>
+          </button>
+          <button
+            onClick={() => setToasts(prev => prev.filter(item => item.id !== toast.id))}
+            className="p-0.5 rounded text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            aria-label="Dismiss alert"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
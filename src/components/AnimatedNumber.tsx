@@ -0,0 +1,12 @@
+import { useAnimatedNumber } from '../hooks/useAnimatedNumber';
+
+interface AnimatedNumberProps {
+  value: number;
+  format?: (value: number) => string;
+  className?: string;
+}
+
+export function AnimatedNumber({ value, format = (v) => v.toFixed(2), className }: AnimatedNumberProps) {
+  const displayed = useAnimatedNumber(value);
+  return <span className={className}>{format(displayed)}</span>;
+}
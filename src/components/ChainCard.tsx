@@ -1,14 +1,23 @@
+import { useMemo } from 'react';
 import { Chain } from '../types';
-import { Activity, Server, Clock } from 'lucide-react';
+import { Activity, Server, Clock, Shield } from 'lucide-react';
 import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
+import { getDecentralizationMetrics } from '../utils/decentralization';
+import { WatchlistButton } from './WatchlistButton';
+import { AnimatedNumber } from './AnimatedNumber';
 
 interface ChainCardProps {
   chain: Chain;
+  // Comparison checkbox is shown only when onSelectChange is provided
+  selected?: boolean;
+  selectionDisabled?: boolean;
+  onSelectChange?: (selected: boolean) => void;
 }
 
-export function ChainCard({ chain }: ChainCardProps) {
+export function ChainCard({ chain, selected = false, selectionDisabled = false, onSelectChange }: ChainCardProps) {
   const navigate = useNavigate();
+  const decentralization = useMemo(() => getDecentralizationMetrics(chain.validators || []), [chain.validators]);
 
   const formatTPS = (tps: Chain['tps']) => {
     if (!tps || typeof tps.value !== 'number') return 'N/A';
@@ -28,7 +37,7 @@ export function ChainCard({ chain }: ChainCardProps) {
 
   return (
     <div 
-      className="stat-card cursor-pointer"
+      className={`stat-card cursor-pointer ${selected ? 'ring-2 ring-blue-500' : ''}`}
       onClick={() => navigate(`/chain/${chain.chainId}`)}
     >
       <div className="p-6">
@@ -52,6 +61,27 @@ export function ChainCard({ chain }: ChainCardProps) {
               <p className="text-sm text-gray-500 dark:text-gray-400">ID: {chain.chainId}</p>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            {onSelectChange && (
+              <label
+                className={`flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 ${
+                  selectionDisabled && !selected ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                }`}
+                title={selectionDisabled && !selected ? 'Comparison limit reached' : 'Select for comparison'}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  disabled={selectionDisabled && !selected}
+                  onChange={(e) => onSelectChange(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                />
+                Compare
+              </label>
+            )}
+            <WatchlistButton chainId={chain.chainId} chainName={chain.chainName} />
+          </div>
         </div>
         
         <div className="grid grid-cols-2 gap-4">
@@ -60,7 +90,11 @@ export function ChainCard({ chain }: ChainCardProps) {
               <Activity className={`w-4 h-4 ${tpsColor}`} />
               <span className="text-sm text-gray-600 dark:text-gray-300">TPS</span>
             </div>
-            <span className={`text-lg font-bold ${tpsColor}`}>{tpsValue}</span>
+            {chain.tps && typeof chain.tps.value === 'number' ? (
+              <AnimatedNumber value={chain.tps.value} className={`text-lg font-bold ${tpsColor}`} />
+            ) : (
+              <span className={`text-lg font-bold ${tpsColor}`}>{tpsValue}</span>
+            )}
           </div>
 
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-dark-800/50">
@@ -74,6 +108,22 @@ export function ChainCard({ chain }: ChainCardProps) {
           </div>
         </div>
 
+        {decentralization && (
+          <div
+            className="mt-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300"
+            title="Fewest validators controlling more than 33% of stake, and the Gini coefficient of stake"
+          >
+            <Shield className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+            <span>
+              Nakamoto <span className="font-semibold text-gray-900 dark:text-white">{decentralization.nakamoto33}</span>
+            </span>
+            <span className="text-gray-300 dark:text-gray-600">·</span>
+            <span>
+              Gini <span className="font-semibold text-gray-900 dark:text-white">{decentralization.gini.toFixed(2)}</span>
+            </span>
+          </div>
+        )}
+
         {chain.networkToken && (
           <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700/50">
             <div className="flex items-center gap-2">
@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { sankey, sankeyLinkHorizontal, SankeyLink, SankeyNode } from 'd3-sankey';
+import { useTheme } from '../hooks/useTheme';
+import { ChainCounterparty } from '../utils/chainMessaging';
+
+interface ChainFlowSankeyProps {
+  chainName: string;
+  counterparties: ChainCounterparty[];
+  height?: number;
+}
+
+interface FlowNode {
+  id: string;
+  name: string;
+  side: 'inbound' | 'chain' | 'outbound';
+}
+
+interface FlowLink {
+  source: string;
+  target: string;
+  value: number;
+}
+
+type LaidOutNode = SankeyNode<FlowNode, FlowLink>;
+type LaidOutLink = SankeyLink<FlowNode, FlowLink>;
+
+// Counterparties beyond this many per side are merged into one node
+const MAX_COUNTERPARTIES = 8;
+// Room for the labels either side of the diagram
+const LABEL_WIDTH = 120;
+
+const FLOW_COLORS = {
+  inbound: '#3b82f6',
+  chain: '#6366f1',
+  outbound: '#22c55e',
+};
+
+// The busiest counterparties on one side, with the rest merged into "Other chains"
+function topFlows(counterparties: ChainCounterparty[], side: 'inbound' | 'outbound') {
+  const flows = counterparties
+    .filter(counterparty => counterparty[side] > 0)
+    .map(counterparty => ({ chain: counterparty.chain, value: counterparty[side] }))
+    .sort((a, b) => b.value - a.value);
+  if (flows.length <= MAX_COUNTERPARTIES) return flows;
+  const rest = flows.slice(MAX_COUNTERPARTIES - 1).reduce((sum, flow) => sum + flow.value, 0);
+  return [...flows.slice(0, MAX_COUNTERPARTIES - 1), { chain: 'Other chains', value: rest }];
+}
+
+// Inbound counterparties on the left, the chain in the middle and outbound ones on the right
+export function ChainFlowSankey({ chainName, counterparties, height = 260 }: ChainFlowSankeyProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hovered, setHovered] = useState<LaidOutLink | null>(null);
+
+  useEffect(() => {
+    const updateWidth = () => setWidth(containerRef.current?.clientWidth ?? 0);
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  const layout = useMemo(() => {
+    const inbound = topFlows(counterparties, 'inbound');
+    const outbound = topFlows(counterparties, 'outbound');
+    if (width <= 2 * LABEL_WIDTH || (inbound.length === 0 && outbound.length === 0)) return null;
+
+    const nodes: FlowNode[] = [
+      { id: 'chain', name: chainName, side: 'chain' },
+      ...inbound.map(flow => ({ id: `in-${flow.chain}`, name: flow.chain, side: 'inbound' as const })),
+      ...outbound.map(flow => ({ id: `out-${flow.chain}`, name: flow.chain, side: 'outbound' as const })),
+    ];
+    const links: FlowLink[] = [
+      ...inbound.map(flow => ({ source: `in-${flow.chain}`, target: 'chain', value: flow.value })),
+      ...outbound.map(flow => ({ source: 'chain', target: `out-${flow.chain}`, value: flow.value })),
+    ];
+
+    // The top margin leaves room for the chain's label above its node.
+    // A chain with traffic in one direction only stays centred
+    const left = inbound.length > 0 ? LABEL_WIDTH : width / 2 - 8;
+    const right = outbound.length > 0 ? width - LABEL_WIDTH : width / 2 + 8;
+
+    return sankey<FlowNode, FlowLink>()
+      .nodeId(node => node.id)
+      .nodeWidth(16)
+      .nodePadding(10)
+      .extent([[left, 20], [right, height - 4]])({ nodes, links });
+  }, [chainName, counterparties, width, height]);
+
+  const nodeLabel = (node: LaidOutNode) => {
+    const x0 = node.x0 ?? 0;
+    const x1 = node.x1 ?? 0;
+    const y = ((node.y0 ?? 0) + (node.y1 ?? 0)) / 2;
+    if (node.side === 'chain') {
+      return { x: (x0 + x1) / 2, y: (node.y0 ?? 0) - 4, anchor: 'middle' as const, baseline: 'auto' as const };
+    }
+    return node.side === 'inbound'
+      ? { x: x0 - 6, y, anchor: 'end' as const, baseline: 'middle' as const }
+      : { x: x1 + 6, y, anchor: 'start' as const, baseline: 'middle' as const };
+  };
+
+  const linkName = (link: LaidOutLink) => {
+    const source = link.source as LaidOutNode;
+    const target = link.target as LaidOutNode;
+    return `${source.name} → ${target.name}`;
+  };
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height }}>
+      {layout ? (
+        <svg width={width} height={height}>
+          <g fill="none">
+            {layout.links.map((link, index) => {
+              const side = (link.target as LaidOutNode).side === 'chain' ? 'inbound' : 'outbound';
+              return (
+                <path
+                  key={index}
+                  d={sankeyLinkHorizontal()(link) ?? undefined}
+                  stroke={FLOW_COLORS[side]}
+                  strokeWidth={Math.max(1, link.width ?? 0)}
+                  strokeOpacity={hovered === link ? 0.7 : 0.35}
+                  onMouseEnter={() => setHovered(link)}
+                  onMouseLeave={() => setHovered(null)}
+                />
+              );
+            })}
+          </g>
+          <g>
+            {layout.nodes.map(node => {
+              const label = nodeLabel(node);
+              return (
+                <g key={node.id}>
+                  <rect
+                    x={node.x0}
+                    y={node.y0}
+                    width={(node.x1 ?? 0) - (node.x0 ?? 0)}
+                    height={Math.max(1, (node.y1 ?? 0) - (node.y0 ?? 0))}
+                    rx={3}
+                    fill={FLOW_COLORS[node.side]}
+                  />
+                  <text
+                    x={label.x}
+                    y={label.y}
+                    textAnchor={label.anchor}
+                    dominantBaseline={label.baseline}
+                    fontSize={11}
+                    fontWeight={node.side === 'chain' ? 600 : 400}
+                    fill={isDark ? '#e2e8f0' : '#1e293b'}
+                  >
+                    {node.name.length > 18 ? `${node.name.slice(0, 17)}…` : node.name}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      ) : (
+        <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+          No interchain messages to show
+        </div>
+      )}
+      {hovered && (
+        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-md shadow-md bg-white dark:bg-dark-700 border border-gray-200 dark:border-gray-600 text-xs text-gray-700 dark:text-gray-200 pointer-events-none whitespace-nowrap">
+          {linkName(hovered)}: <span className="font-semibold">{hovered.value.toLocaleString()}</span> messages
+        </div>
+      )}
+    </div>
+  );
+}
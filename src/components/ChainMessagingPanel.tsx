@@ -0,0 +1,283 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowDownLeft, ArrowUpRight, Network, RefreshCw, Scale } from 'lucide-react';
+import { getTeleporterDailyHistory, isFallbackData, queryKeys } from '../api';
+import { Chain, Timeframe, TimeframePreset } from '../types';
+import { TimeframeSelector } from './TimeframeSelector';
+import { ChainFlowSankey } from './ChainFlowSankey';
+import { isDateRange } from '../utils/timeframe';
+import { timeframeParam } from '../utils/urlState';
+import { useUrlState } from '../hooks/useUrlState';
+import { useQuery } from '../hooks/useQuery';
+import { useTheme } from '../hooks/useTheme';
+import { useOfflineSnapshot, formatSnapshotAge } from '../hooks/useOfflineSnapshot';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { getChainCounterparties, getChainFlowSeries, getChainFlowTotals } from '../utils/chainMessaging';
+import { getTeleporterExplorerUrl } from '../utils/teleporterRoutes';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend, Filler);
+
+interface ChainMessagingPanelProps {
+  // ICM data names chains in several ways, so messages are matched through the chain registry
+  chain: Chain;
+}
+
+const MESSAGING_PRESETS: TimeframePreset[] = [7, 14, 30, 90];
+const DEFAULT_TIMEFRAME: Timeframe = 30;
+const MAX_LISTED_COUNTERPARTIES = 10;
+
+const INBOUND_COLOR = 'rgb(59, 130, 246)';
+const OUTBOUND_COLOR = 'rgb(34, 197, 94)';
+
+export function ChainMessagingPanel({ chain }: ChainMessagingPanelProps) {
+  const { theme } = useTheme();
+  const { registry, loading: chainsLoading } = useChainRegistry();
+  const chainName = registry.getLabel(chain.chainId);
+  const isDark = theme === 'dark';
+  const [requestedTimeframe, setTimeframe] = useUrlState('icm', DEFAULT_TIMEFRAME, timeframeParam);
+  const timeframe = !isDateRange(requestedTimeframe) && MESSAGING_PRESETS.includes(requestedTimeframe)
+    ? requestedTimeframe
+    : DEFAULT_TIMEFRAME;
+
+  const historyKey = queryKeys.teleporterDailyHistory(timeframe);
+  const historyQuery = useQuery(historyKey, () => getTeleporterDailyHistory(timeframe));
+  // The history getter falls back to an empty list, which must not read as a quiet chain
+  const historyFailed = !!historyQuery.error || isFallbackData(historyQuery.data);
+  const offlineSnapshot = useOfflineSnapshot();
+  const fromSnapshot = offlineSnapshot.keys.includes(historyKey);
+  const history = useMemo(() => historyQuery.data ?? [], [historyQuery.data]);
+
+  const series = useMemo(() => getChainFlowSeries(history, chain.chainId, registry), [history, chain.chainId, registry]);
+  const totals = useMemo(() => getChainFlowTotals(series), [series]);
+  const counterparties = useMemo(
+    () => getChainCounterparties(history, chain.chainId, registry),
+    [history, chain.chainId, registry]
+  );
+
+  const chartData = {
+    labels: series.map(point => format(parseISO(point.date), 'MMM d')),
+    datasets: [
+      {
+        label: 'Inbound',
+        data: series.map(point => point.inbound),
+        borderColor: INBOUND_COLOR,
+        backgroundColor: isDark ? 'rgba(59, 130, 246, 0.2)' : 'rgba(59, 130, 246, 0.1)',
+        fill: true,
+        borderWidth: 2,
+        tension: 0.3,
+        pointRadius: series.length > 60 ? 0 : 2,
+      },
+      {
+        label: 'Outbound',
+        data: series.map(point => point.outbound),
+        borderColor: OUTBOUND_COLOR,
+        backgroundColor: isDark ? 'rgba(34, 197, 94, 0.2)' : 'rgba(34, 197, 94, 0.1)',
+        fill: true,
+        borderWidth: 2,
+        tension: 0.3,
+        pointRadius: series.length > 60 ? 0 : 2,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { color: isDark ? '#e2e8f0' : '#1e293b', boxWidth: 12, font: { size: 11 } },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', maxTicksLimit: 8 },
+      },
+      y: {
+        beginAtZero: true,
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b' },
+      },
+    },
+  };
+
+  const header = (
+    <>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Network className="w-5 h-5 text-blue-500" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">Interchain Messaging</h3>
+        </div>
+        <TimeframeSelector value={timeframe} onChange={setTimeframe} presets={MESSAGING_PRESETS} allowCustom={false} />
+      </div>
+      {fromSnapshot && offlineSnapshot.age !== null && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 mb-6 flex items-start gap-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-yellow-700 dark:text-yellow-300">
+            The API is unreachable. Showing saved messages from {formatSnapshotAge(offlineSnapshot.age)} ago.
+          </p>
+        </div>
+      )}
+    </>
+  );
+
+  if (historyQuery.loading || chainsLoading) {
+    return (
+      <div>
+        {header}
+        <div className="h-64 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (counterparties.length === 0) {
+    return (
+      <div>
+        {header}
+        <div className="h-48 flex flex-col items-center justify-center gap-4">
+          <p className="text-gray-600 dark:text-gray-300 text-center">
+            {historyFailed
+              ? 'Failed to load interchain messages'
+              : `${chainName} has not sent or received any interchain messages in this period`}
+          </p>
+          {historyFailed && (
+            <button
+              onClick={historyQuery.refetch}
+              disabled={historyQuery.fetching}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${historyQuery.fetching ? 'animate-spin' : ''}`} />
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const netLabel = totals.net === 0 ? 'Balanced' : totals.net > 0 ? 'Net receiver' : 'Net sender';
+
+  return (
+    <div>
+      {header}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <ArrowDownLeft className="w-4 h-4" style={{ color: INBOUND_COLOR }} />
+            Inbound
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.inbound.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <ArrowUpRight className="w-4 h-4" style={{ color: OUTBOUND_COLOR }} />
+            Outbound
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{totals.outbound.toLocaleString()}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Scale className="w-4 h-4" />
+            Net flow
+          </div>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {totals.net > 0 ? '+' : ''}{totals.net.toLocaleString()}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{netLabel}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Daily volume</h4>
+          <div className="h-64">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Message flow</h4>
+          <ChainFlowSankey chainName={chainName} counterparties={counterparties} height={256} />
+        </div>
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Counterparties</h4>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead>
+            <tr>
+              {['Chain', 'Inbound', 'Outbound', 'Net'].map(column => (
+                <th
+                  key={column}
+                  className={`px-4 py-2 bg-gray-50 dark:bg-dark-800/50 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider ${column === 'Chain' ? 'text-left' : 'text-right'}`}
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {counterparties.slice(0, MAX_LISTED_COUNTERPARTIES).map(counterparty => {
+              const net = counterparty.inbound - counterparty.outbound;
+              return (
+                <tr key={counterparty.chainId ?? counterparty.chain}>
+                  <td className="px-4 py-2 text-sm text-gray-900 dark:text-white whitespace-nowrap">{counterparty.chain}</td>
+                  <td className="px-4 py-2 text-sm text-right whitespace-nowrap">
+                    {counterparty.inboundRoute ? (
+                      <Link
+                        to={getTeleporterExplorerUrl(counterparty.inboundRoute)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {counterparty.inbound.toLocaleString()}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-400">{counterparty.inbound.toLocaleString()}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right whitespace-nowrap">
+                    {counterparty.outboundRoute ? (
+                      <Link
+                        to={getTeleporterExplorerUrl(counterparty.outboundRoute)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        {counterparty.outbound.toLocaleString()}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-400">{counterparty.outbound.toLocaleString()}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    {net > 0 ? '+' : ''}{net.toLocaleString()}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ZoomOut } from 'lucide-react';
+import { DateRange, Timeframe } from '../types';
+import { ChartSyncContext, createHoverChannel, useChartSync } from '../hooks/useChartSync';
+import { getTimeframeKey } from '../utils/timeframe';
+
+interface ChartSyncProviderProps {
+  initialTimeframe?: Timeframe;
+  // Makes the shared timeframe controlled, e.g. by a URL parameter
+  timeframe?: Timeframe;
+  onTimeframeChange?: (timeframe: Timeframe) => void;
+  children: React.ReactNode;
+}
+
+// Charts inside share one timeframe, a crosshair and a brushed zoom range
+export function ChartSyncProvider({
+  initialTimeframe = 30,
+  timeframe: controlledTimeframe,
+  onTimeframeChange,
+  children
+}: ChartSyncProviderProps) {
+  const [ownTimeframe, setOwnTimeframe] = useState<Timeframe>(initialTimeframe);
+  const [zoom, setZoom] = useState<DateRange | null>(null);
+  const [hover] = useState(createHoverChannel);
+
+  const timeframe = controlledTimeframe ?? ownTimeframe;
+  const setTimeframe = onTimeframeChange ?? setOwnTimeframe;
+
+  // A brushed range only makes sense within the timeframe it was drawn on
+  const timeframeKey = getTimeframeKey(timeframe);
+  useEffect(() => {
+    setZoom(null);
+  }, [timeframeKey]);
+
+  const value = useMemo(
+    () => ({ timeframe, setTimeframe, zoom, setZoom, hover }),
+    [timeframe, setTimeframe, zoom, hover]
+  );
+
+  return <ChartSyncContext.Provider value={value}>{children}</ChartSyncContext.Provider>;
+}
+
+// Shows the brushed range with a button to zoom back out
+export function ChartZoomIndicator() {
+  const sync = useChartSync();
+  if (!sync?.zoom) return null;
+
+  const formatDay = (timestamp: number) => format(new Date(timestamp * 1000), 'MMM d, yyyy');
+
+  return (
+    <div className="inline-flex items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+      <span>
+        Zoomed to {formatDay(sync.zoom.start)} – {formatDay(sync.zoom.end)}
+      </span>
+      <button
+        onClick={() => sync.setZoom(null)}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-dark-700 hover:bg-gray-200 dark:hover:bg-dark-600 rounded-lg font-medium text-gray-700 dark:text-gray-200 transition-colors"
+      >
+        <ZoomOut className="w-4 h-4" />
+        Reset zoom
+      </button>
+    </div>
+  );
+}
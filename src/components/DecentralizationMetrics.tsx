@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { Shield } from 'lucide-react';
+import { Validator } from '../types';
+import { getDecentralizationMetrics, getConcentrationLevel, ConcentrationLevel } from '../utils/decentralization';
+
+interface DecentralizationMetricsProps {
+  validators: Validator[];
+}
+
+const LEVEL_STYLES: Record<ConcentrationLevel, { label: string; className: string }> = {
+  low: { label: 'Low concentration', className: 'bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400' },
+  moderate: { label: 'Moderate concentration', className: 'bg-yellow-100 dark:bg-yellow-500/20 text-yellow-700 dark:text-yellow-400' },
+  high: { label: 'High concentration', className: 'bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400' },
+};
+
+export function DecentralizationMetrics({ validators }: DecentralizationMetricsProps) {
+  const metrics = useMemo(() => getDecentralizationMetrics(validators), [validators]);
+
+  if (!metrics) {
+    return (
+      <div>
+        <div className="flex items-center gap-2 mb-4">
+          <Shield className="w-5 h-5 text-blue-500" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">Decentralization</h3>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">No staked validators to measure</p>
+      </div>
+    );
+  }
+
+  const level = LEVEL_STYLES[getConcentrationLevel(metrics.hhi)];
+
+  const tiles = [
+    {
+      label: 'Nakamoto (33%)',
+      value: metrics.nakamoto33.toString(),
+      description: 'Validators needed to halt the chain',
+    },
+    {
+      label: 'Nakamoto (50%)',
+      value: metrics.nakamoto50.toString(),
+      description: 'Validators controlling a stake majority',
+    },
+    {
+      label: 'Gini Coefficient',
+      value: metrics.gini.toFixed(3),
+      description: '0 is equal stake, 1 is a single holder',
+    },
+    {
+      label: 'HHI',
+      value: Math.round(metrics.hhi).toLocaleString(),
+      description: 'Sum of squared stake shares (0-10,000)',
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Shield className="w-5 h-5 text-blue-500" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">Decentralization</h3>
+        </div>
+        <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${level.className}`}>
+          {level.label}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{tile.value}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{tile.description}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+        Based on stake of {metrics.validatorCount} validators
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useTheme } from '../hooks/useTheme';
+import {
+  ExportFilenameParts,
+  ExportRow,
+  canvasToPng,
+  canvasToSvg,
+  downloadFile,
+  getExportFilename,
+  toCsv,
+} from '../utils/chartExport';
+
+// Anything exposing a canvas, e.g. a react-chartjs-2 chart ref
+interface ExportableChart {
+  canvas: HTMLCanvasElement;
+}
+
+interface ExportMenuProps {
+  filename: ExportFilenameParts;
+  // Series as returned by the API, saved as-is for JSON
+  data: unknown;
+  // Flat rows for CSV; defaults to data when it is already a list of flat objects
+  rows?: ExportRow[];
+  chartRef?: React.RefObject<ExportableChart | null>;
+}
+
+type ExportFormat = 'csv' | 'json' | 'png' | 'svg';
+
+const FORMATS: { id: ExportFormat; name: string }[] = [
+  { id: 'csv', name: 'CSV' },
+  { id: 'json', name: 'JSON' },
+  { id: 'png', name: 'PNG image' },
+  { id: 'svg', name: 'SVG image' },
+];
+
+export function ExportMenu({ filename, data, rows, chartRef }: ExportMenuProps) {
+  const { theme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const background = theme === 'dark' ? '#1e293b' : '#ffffff';
+  const canvas = chartRef?.current?.canvas;
+  const csvRows = rows ?? (Array.isArray(data) ? data as ExportRow[] : []);
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    setIsOpen(false);
+    switch (exportFormat) {
+      case 'csv':
+        downloadFile(toCsv(csvRows), getExportFilename(filename, 'csv'), 'text/csv;charset=utf-8');
+        return;
+      case 'json':
+        downloadFile(JSON.stringify(data, null, 2), getExportFilename(filename, 'json'), 'application/json');
+        return;
+      case 'png':
+        if (!chartRef?.current) return;
+        canvasToPng(chartRef.current.canvas, background)
+          .then(blob => downloadFile(blob, getExportFilename(filename, 'png'), 'image/png'))
+          .catch(error => console.error('PNG export failed:', error));
+        return;
+      case 'svg':
+        if (!chartRef?.current) return;
+        downloadFile(canvasToSvg(chartRef.current.canvas, background), getExportFilename(filename, 'svg'), 'image/svg+xml');
+        return;
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-gray-100 dark:bg-dark-700 hover:bg-gray-200 dark:hover:bg-dark-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-200 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Export"
+      >
+        <Download className="w-4 h-4" />
+        <span className="hidden sm:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-1 w-40 bg-white dark:bg-dark-800 rounded-lg shadow-lg border border-gray-200 dark:border-dark-700 py-1 z-10"
+        >
+          {FORMATS.map(option => {
+            const disabled = option.id === 'png' || option.id === 'svg'
+              ? !canvas
+              : csvRows.length === 0 && option.id === 'csv';
+            return (
+              <button
+                key={option.id}
+                role="menuitem"
+                onClick={() => handleExport(option.id)}
+                disabled={disabled}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-dark-700/50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {option.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
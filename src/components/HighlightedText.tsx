@@ -0,0 +1,22 @@
+import { HighlightSegment } from '../utils/acpSearch';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+}
+
+// Text with search matches marked
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
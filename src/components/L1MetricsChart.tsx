@@ -1,9 +1,13 @@
-import React, { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { format } from 'date-fns';
-import { TPSHistory, NetworkTPS, CumulativeTxCount } from '../types';
-import { getTPSHistory, getNetworkTPS, getCumulativeTxCount } from '../api';
+import { getTPSHistory, getNetworkTPS, getCumulativeTxCount, queryKeys } from '../api';
 import { TrendingUp, ChevronDown, AlertTriangle } from 'lucide-react';
 import { MetricsChart, DataPoint } from './MetricsChart';
+import { useQuery } from '../hooks/useQuery';
+import { getTimeframeLabel } from '../utils/timeframe';
+import { TimeframeSelector } from './TimeframeSelector';
+import { useLiveRefetchInterval } from '../hooks/useLiveMode';
+import { useSyncedTimeframe } from '../hooks/useChartSync';
 
 interface L1MetricsChartProps {
   chainId?: string;
@@ -11,71 +15,48 @@ interface L1MetricsChartProps {
 }
 
 type MetricType = 'tps' | 'transactions';
-type TimeframeOption = 7 | 14 | 30;
 
 const METRICS = [
   { id: 'tps' as const, name: 'TPS' },
   { id: 'transactions' as const, name: 'Cumulative Transactions' },
 ];
 
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
 export function L1MetricsChart({ chainId, chainName }: L1MetricsChartProps) {
-  const [tpsHistory, setTpsHistory] = useState<TPSHistory[]>([]);
-  const [txHistory, setTxHistory] = useState<CumulativeTxCount[]>([]);
-  const [networkTPS, setNetworkTPS] = useState<NetworkTPS | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [selectedMetric, setSelectedMetric] = useState<MetricType>('tps');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const [timeframe, setTimeframe] = useState<TimeframeOption>(7);
-
-  useEffect(() => {
-    let mounted = true;
-
-    async function fetchData() {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        const promises: Promise<any>[] = [];
-        
-        if (chainId) {
-          promises.push(getTPSHistory(timeframe, chainId));
-          promises.push(getCumulativeTxCount(chainId, timeframe));
-        } else {
-          promises.push(getTPSHistory(timeframe));
-          promises.push(getNetworkTPS());
-        }
+  const { timeframe, setTimeframe } = useSyncedTimeframe(7);
+  const refetchInterval = useLiveRefetchInterval(REFRESH_INTERVAL);
 
-        const [history, secondResult] = await Promise.all(promises);
-        
-        if (mounted) {
-          setTpsHistory(history.sort((a, b) => a.timestamp - b.timestamp));
-          if (chainId) {
-            setTxHistory(secondResult);
-            setNetworkTPS(null);
-          } else {
-            setNetworkTPS(secondResult);
-          }
-        }
-      } catch (err) {
-        if (mounted) {
-          setError('Failed to fetch data');
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false);
-        }
-      }
-    }
+  const tpsQuery = useQuery(
+    queryKeys.tpsHistory(timeframe, chainId),
+    () => getTPSHistory(timeframe, chainId),
+    { refetchInterval }
+  );
+  const txQuery = useQuery(
+    chainId ? queryKeys.cumulativeTxCount(chainId, timeframe) : null,
+    () => getCumulativeTxCount(chainId!, timeframe),
+    { refetchInterval }
+  );
+  const networkQuery = useQuery(
+    chainId ? null : queryKeys.networkTps,
+    getNetworkTPS,
+    { refetchInterval }
+  );
 
-    fetchData();
-    const interval = setInterval(fetchData, 15 * 60 * 1000);
-    
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, [chainId, timeframe]);
+  const tpsHistory = useMemo(
+    () => [...(tpsQuery.data ?? [])].sort((a, b) => a.timestamp - b.timestamp),
+    [tpsQuery.data]
+  );
+  const txHistory = txQuery.data ?? [];
+  const networkTPS = networkQuery.data ?? null;
+  const loading = tpsQuery.loading || txQuery.loading || networkQuery.loading;
+  const error = tpsQuery.error || txQuery.error || networkQuery.error ? 'Failed to fetch data' : null;
+  const fetching = tpsQuery.fetching || txQuery.fetching || networkQuery.fetching;
+  // Oldest fetch among the queries on screen
+  const updatedAt = [tpsQuery.updatedAt, chainId ? txQuery.updatedAt : networkQuery.updatedAt]
+    .reduce<number | null>((oldest, time) => (time && (!oldest || time < oldest) ? time : oldest), null);
 
   const formatValue = (value: number): string => {
     if (selectedMetric === 'tps') {
@@ -133,36 +114,10 @@ export function L1MetricsChart({ chainId, chainName }: L1MetricsChartProps) {
     setIsDropdownOpen(false);
   };
 
-  const handleTimeframeChange = (newTimeframe: TimeframeOption) => {
-    setTimeframe(newTimeframe);
-    setLoading(true);
-    setError(null);
-    
-    if (chainId) {
-      Promise.all([
-        getTPSHistory(newTimeframe, chainId),
-        getCumulativeTxCount(chainId, newTimeframe)
-      ]).then(([tpsData, txData]) => {
-        setTpsHistory(tpsData.sort((a, b) => a.timestamp - b.timestamp));
-        setTxHistory(txData);
-        setLoading(false);
-      }).catch(err => {
-        setError('Failed to fetch data');
-        setLoading(false);
-      });
-    } else {
-      Promise.all([
-        getTPSHistory(newTimeframe),
-        getNetworkTPS()
-      ]).then(([history, current]) => {
-        setTpsHistory(history.sort((a, b) => a.timestamp - b.timestamp));
-        setNetworkTPS(current);
-        setLoading(false);
-      }).catch(err => {
-        setError('Failed to fetch data');
-        setLoading(false);
-      });
-    }
+  const handleRetry = () => {
+    tpsQuery.refetch();
+    txQuery.refetch();
+    networkQuery.refetch();
   };
 
   return (
@@ -187,7 +142,7 @@ export function L1MetricsChart({ chainId, chainName }: L1MetricsChartProps) {
         data={getChartData()}
         loading={loading}
         error={error}
-        onRetry={() => handleTimeframeChange(timeframe)}
+        onRetry={handleRetry}
         valueFormatter={formatValue}
         valueLabel={selectedMetric === 'tps' ? 'TPS' : ''}
         tooltipFormatter={tooltipFormatter}
@@ -200,40 +155,20 @@ export function L1MetricsChart({ chainId, chainName }: L1MetricsChartProps) {
             : 'rgba(202, 138, 4, 0.1)'
         }}
         lastUpdated={lastUpdated}
+        currentValue={!chainId && networkTPS && selectedMetric === 'tps' ? networkTPS.totalTps : undefined}
+        updatedAt={updatedAt}
+        fetching={fetching}
+        exportOptions={{
+          filename: {
+            chart: selectedMetric === 'tps' ? 'tps' : 'cumulative-transactions',
+            chain: chainId ? chainName || chainId : 'network',
+            timeframe: getTimeframeLabel(timeframe),
+          },
+          data: selectedMetric === 'tps' ? tpsHistory : txHistory,
+        }}
         actions={
           <div className="flex items-center gap-3">
-            <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex">
-              <button
-                onClick={() => handleTimeframeChange(7)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 7
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                7D
-              </button>
-              <button
-                onClick={() => handleTimeframeChange(14)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 14
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                14D
-              </button>
-              <button
-                onClick={() => handleTimeframeChange(30)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 30
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                30D
-              </button>
-            </div>
+            <TimeframeSelector value={timeframe} onChange={setTimeframe} />
 
             <div className="relative">
               <button
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { formatSnapshotAge } from '../hooks/useOfflineSnapshot';
+
+const TICK_INTERVAL = 15 * 1000;
+
+interface LastUpdatedProps {
+  updatedAt: number | null;
+  fetching?: boolean;
+  className?: string;
+}
+
+export function LastUpdated({ updatedAt, fetching = false, className = '' }: LastUpdatedProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the relative time current between fetches
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [updatedAt]);
+
+  if (!updatedAt && !fetching) return null;
+
+  const age = updatedAt ? formatSnapshotAge(Math.max(0, now - updatedAt)) : null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400 ${className}`}
+      title={updatedAt ? `Fetched ${new Date(updatedAt).toLocaleString()}` : undefined}
+    >
+      <RefreshCw className={`w-3 h-3 ${fetching ? 'animate-spin' : ''}`} />
+      {fetching ? 'Updating…' : age === 'just now' ? 'Updated just now' : `Updated ${age} ago`}
+    </span>
+  );
+}
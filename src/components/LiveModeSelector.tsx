@@ -0,0 +1,35 @@
+import { useLiveMode } from '../hooks/useLiveMode';
+import { LIVE_INTERVALS } from '../services/liveMode';
+
+export function LiveModeSelector() {
+  const { interval, setLiveInterval } = useLiveMode();
+  const live = interval > 0;
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="inline-flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-200">
+        <span className="relative flex h-2.5 w-2.5">
+          {live && <span className="absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75 animate-ping" />}
+          <span className={`relative inline-flex h-2.5 w-2.5 rounded-full ${live ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'}`} />
+        </span>
+        Live
+      </span>
+      <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex" role="group" aria-label="Live update interval">
+        {LIVE_INTERVALS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setLiveInterval(option.value)}
+            aria-pressed={interval === option.value}
+            className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+              interval === option.value
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format } from 'date-fns';
 import {
@@ -14,6 +14,12 @@ import {
 } from 'chart.js';
 import { useTheme } from '../hooks/useTheme';
 import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { AnimatedNumber } from './AnimatedNumber';
+import { LastUpdated } from './LastUpdated';
+import { ExportMenu } from './ExportMenu';
+import { ExportFilenameParts, ExportRow } from '../utils/chartExport';
+import { MAX_CHART_POINTS, downsample, filterToTimeframe } from '../utils/timeframe';
+import { useChartSync, useSyncedChart } from '../hooks/useChartSync';
 
 ChartJS.register(
   CategoryScale,
@@ -49,6 +55,17 @@ interface MetricsChartProps {
   };
   additionalInfo?: React.ReactNode;
   lastUpdated?: string;
+  // Headline value; defaults to the latest data point
+  currentValue?: number;
+  // When the data was last fetched, for the refresh indicator
+  updatedAt?: number | null;
+  fetching?: boolean;
+  // Adds an export menu for the plotted series and the rendered chart
+  exportOptions?: {
+    filename: ExportFilenameParts;
+    data: unknown;
+    rows?: ExportRow[];
+  };
   actions?: React.ReactNode;
 }
 
@@ -66,9 +83,24 @@ export function MetricsChart({
   color,
   additionalInfo,
   lastUpdated,
+  currentValue,
+  updatedAt = null,
+  fetching = false,
+  exportOptions,
   actions
 }: MetricsChartProps) {
   const { theme } = useTheme();
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  const zoom = useChartSync()?.zoom ?? null;
+
+  // Long ranges are downsampled so the chart stays responsive
+  const plotted = useMemo(() => {
+    const visible = zoom ? filterToTimeframe(data, point => point.timestamp, zoom) : data;
+    return downsample(visible, MAX_CHART_POINTS, point => point.timestamp, point => point.value);
+  }, [data, zoom]);
+  const timestamps = useMemo(() => plotted.map(point => point.timestamp), [plotted]);
+  const syncedChart = useSyncedChart(chartRef, timestamps);
+  const spansYear = data.length > 1 && data[data.length - 1].timestamp - data[0].timestamp > 300 * 24 * 60 * 60;
   const isDark = theme === 'dark';
 
   const defaultColors = {
@@ -128,7 +160,7 @@ export function MetricsChart({
       if (isNaN(date.getTime())) {
         throw new Error('Invalid date');
       }
-      return format(date, 'MMM d');
+      return format(date, spansYear ? 'MMM d, yyyy' : 'MMM d');
     } catch (err) {
       console.warn('Date formatting error:', err);
       return 'Invalid date';
@@ -136,17 +168,17 @@ export function MetricsChart({
   };
 
   const chartData = {
-    labels: data.map(item => formatDate(item.timestamp)),
+    labels: plotted.map(item => formatDate(item.timestamp)),
     datasets: [
       {
         label: title,
-        data: data.map(item => item.value),
+        data: plotted.map(item => item.value),
         fill: true,
         borderColor: chartColors.line,
         backgroundColor: chartColors.fill,
         borderWidth: isDark ? 2 : 1.5,
         tension: 0.4,
-        pointRadius: 4,
+        pointRadius: plotted.length > 60 ? 0 : 4,
         pointHoverRadius: 6,
         pointBackgroundColor: isDark ? '#1e293b' : '#ffffff',
       },
@@ -156,6 +188,7 @@ export function MetricsChart({
   const options = {
     responsive: true,
     maintainAspectRatio: false,
+    ...syncedChart.options,
     plugins: {
       legend: {
         display: false,
@@ -170,7 +203,7 @@ export function MetricsChart({
         boxPadding: 4,
         callbacks: {
           label: (context: any) => {
-            const dataPoint = data[context.dataIndex];
+            const dataPoint = plotted[context.dataIndex];
             if (tooltipFormatter) {
               return tooltipFormatter(dataPoint);
             }
@@ -212,7 +245,7 @@ export function MetricsChart({
 
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
         <div>
           <div className="flex items-center gap-2">
             {icon}
@@ -226,12 +259,21 @@ export function MetricsChart({
           {lastUpdated && (
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{lastUpdated}</p>
           )}
+          <LastUpdated updatedAt={updatedAt} fetching={fetching} className="mt-1" />
         </div>
-        <div className="flex items-center gap-4">
+        <div className="flex flex-wrap items-center gap-4">
           {actions}
+          {exportOptions && (
+            <ExportMenu
+              filename={exportOptions.filename}
+              data={exportOptions.data}
+              rows={exportOptions.rows}
+              chartRef={chartRef}
+            />
+          )}
           <div className="text-right">
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
-              {valueFormatter(latestValue)} {valueLabel}
+              <AnimatedNumber value={currentValue ?? latestValue} format={valueFormatter} /> {valueLabel}
             </p>
             {additionalInfo}
           </div>
@@ -239,7 +281,7 @@ export function MetricsChart({
       </div>
 
       <div className="h-64">
-        <Line data={chartData} options={options} />
+        <Line ref={chartRef} data={chartData} options={options} plugins={syncedChart.plugins} />
       </div>
     </div>
   );
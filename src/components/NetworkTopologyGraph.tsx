@@ -1,6 +1,13 @@
 import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { getChains, getNetworkTPS } from '../api';
-import { Chain, NetworkTPS } from '../types';
+import { getChains, getNetworkTPS, getTeleporterMessages, queryKeys } from '../api';
+import { Chain } from '../types';
+import { useQuery } from '../hooks/useQuery';
+import { useLiveRefetchInterval } from '../hooks/useLiveMode';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { ChainPairEdge, getChainPairEdges } from '../utils/chainMessaging';
+import { getTeleporterExplorerUrl } from '../utils/teleporterRoutes';
+import { AnimatedNumber } from './AnimatedNumber';
+import { LastUpdated } from './LastUpdated';
 import { Server, AlertTriangle, RefreshCw, Zap, Activity } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -19,18 +26,42 @@ interface Bullet {
   speed: number;
   size: number;
   color: string;
-  direction: 'outgoing' | 'incoming';
+}
+
+// Bullet animation settings. The busiest edge spawns a bullet with
+// BULLET_SPAWN_RATE per frame, quieter edges proportionally less often
+const BULLET_BASE_SPEED = 0.15;
+const MAX_BULLETS = 25;
+const BULLET_SPAWN_RATE = 0.04;
+const MAX_EDGE_WIDTH = 6;
+
+const BULLET_COLORS = [
+  '#3b82f6', '#60a5fa', '#93c5fd',
+  '#6366f1', '#818cf8', '#a5b4fc',
+  '#8b5cf6', '#a78bfa', '#c4b5fd'
+];
+
+const getRandomBulletColor = () => BULLET_COLORS[Math.floor(Math.random() * BULLET_COLORS.length)];
+
+// A bullet travelling along the edge, from the first chain of the pair when forward
+function createBullet(id: string, edge: ChainPairEdge, forward: boolean): Bullet {
+  return {
+    id,
+    fromChainId: forward ? edge.chainIds[0] : edge.chainIds[1],
+    toChainId: forward ? edge.chainIds[1] : edge.chainIds[0],
+    progress: 0,
+    speed: BULLET_BASE_SPEED * (0.8 + Math.random() * 0.4),
+    size: 2 + Math.random() * 2,
+    color: getRandomBulletColor(),
+  };
 }
 
 export function NetworkTopologyGraph() {
   const navigate = useNavigate();
-  const [chains, setChains] = useState<Chain[]>([]);
-  const [networkTPS, setNetworkTPS] = useState<NetworkTPS | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [positions, setPositions] = useState<Map<string, NodePosition>>(new Map());
   const [hoveredChain, setHoveredChain] = useState<Chain | null>(null);
   const [selectedChain, setSelectedChain] = useState<Chain | null>(null);
+  const [hoveredEdge, setHoveredEdge] = useState<ChainPairEdge | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [bullets, setBullets] = useState<Bullet[]>([]);
@@ -38,59 +69,41 @@ export function NetworkTopologyGraph() {
   const lastTimeRef = useRef<number>(0);
   const bulletIdCounter = useRef(0);
 
-  // Bullet animation settings
-  const BULLET_BASE_SPEED = 0.15;
-  const MAX_BULLETS = 25;
-  const BULLET_SPAWN_RATE = 0.04;
+  const refetchInterval = useLiveRefetchInterval(15 * 60 * 1000);
+  const chainsQuery = useQuery(queryKeys.chains, getChains, { refetchInterval });
+  const { data: networkTPS } = useQuery(queryKeys.networkTps, getNetworkTPS, { refetchInterval });
+  const { registry } = useChainRegistry();
+  const messagesQuery = useQuery(queryKeys.teleporterMessages, getTeleporterMessages, { refetchInterval });
 
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        setLoading(true);
-        const [chainsData, networkTPSData] = await Promise.all([
-          getChains(),
-          getNetworkTPS()
-        ]);
-        
-        if (chainsData && chainsData.length > 0) {
-          // Filter chains to include those with validators OR Avalanche chains
-          const validChains = chainsData.filter(chain => 
-            (chain.validators && chain.validators.length > 0) ||
-            chain.chainName.toLowerCase().includes('avalanche') ||
-            chain.chainName.toLowerCase().includes('c-chain')
-          );
-          
-          if (validChains.length > 0) {
-            setChains(validChains);
-            setNetworkTPS(networkTPSData);
-            setError(null);
-          } else {
-            setError('No chains with validators available');
-          }
-        } else {
-          setError('No chain data available');
-        }
-      } catch (err) {
-        console.error('Failed to fetch data for topology graph:', err);
-        setError('Failed to load network data');
-      } finally {
-        setLoading(false);
-      }
-    }
+  // Filter chains to include those with validators OR Avalanche chains
+  const chains = useMemo(() => (chainsQuery.data ?? []).filter(chain => 
+    (chain.validators && chain.validators.length > 0) ||
+    chain.chainName.toLowerCase().includes('avalanche') ||
+    chain.chainName.toLowerCase().includes('c-chain')
+  ), [chainsQuery.data]);
 
-    fetchData();
-    
-    // Refresh data every 15 minutes
-    const interval = setInterval(fetchData, 15 * 60 * 1000);
-    
-    return () => clearInterval(interval);
-  }, []);
+  // Edges between the chains on the graph, from the last day of ICM traffic
+  const { edges, unresolved } = useMemo(() => {
+    const chainIds = new Set(chains.map(chain => chain.chainId));
+    const pairs = getChainPairEdges(messagesQuery.data?.messages ?? [], registry);
+    const visible = pairs.edges.filter(edge => edge.chainIds.every(id => chainIds.has(id)));
+    const hidden = pairs.edges.filter(edge => !visible.includes(edge)).reduce((sum, edge) => sum + edge.total, 0);
+    return { edges: visible, unresolved: pairs.unresolved + hidden };
+  }, [chains, messagesQuery.data, registry]);
+  const maxEdgeTotal = edges[0]?.total ?? 0;
+
+  const loading = chainsQuery.loading;
+  const error = chainsQuery.error
+    ? 'Failed to load network data'
+    : !chainsQuery.data?.length
+      ? 'No chain data available'
+      : chains.length === 0 ? 'No chains with validators available' : null;
 
   // Find C-Chain for highlighting
-  const cChain = useMemo(() => chains.find(chain => 
-    chain.chainName.toLowerCase().includes('c-chain') || 
-    chain.chainName.toLowerCase().includes('c chain')
-  ), [chains]);
+  const cChain = useMemo(() => {
+    const chainId = registry.getChain('C-Chain')?.chainId;
+    return chains.find(chain => chain.chainId === chainId);
+  }, [chains, registry]);
 
   // Calculate node sizes based on TPS and importance
   const getNodeSize = (chain: Chain, isCenter: boolean) => {
@@ -202,9 +215,7 @@ export function NetworkTopologyGraph() {
 
   // Bullet animation loop
   useEffect(() => {
-    if (chains.length === 0 || positions.size === 0) return;
-
-    const centerChainId = cChain?.chainId || chains[0].chainId;
+    if (edges.length === 0 || positions.size === 0) return;
     
     const animate = (timestamp: number) => {
       if (!lastTimeRef.current) lastTimeRef.current = timestamp;
@@ -224,29 +235,15 @@ export function NetworkTopologyGraph() {
           })
           .filter(bullet => bullet.progress < 1);
         
-        if (updatedBullets.length < MAX_BULLETS && Math.random() < BULLET_SPAWN_RATE) {
-          const otherChains = chains.filter(chain => chain.chainId !== centerChainId);
-          
-          if (otherChains.length > 0) {
-            const randomChain = otherChains[Math.floor(Math.random() * otherChains.length)];
-            const direction = Math.random() > 0.5 ? 'outgoing' : 'incoming';
-            
-            const newBullet: Bullet = {
-              id: `bullet-${bulletIdCounter.current++}`,
-              fromChainId: direction === 'outgoing' ? centerChainId : randomChain.chainId,
-              toChainId: direction === 'outgoing' ? randomChain.chainId : centerChainId,
-              progress: 0,
-              speed: BULLET_BASE_SPEED * (0.8 + Math.random() * 0.4),
-              size: 2 + Math.random() * 2,
-              color: getRandomBulletColor(),
-              direction
-            };
-            
-            return [...updatedBullets, newBullet];
-          }
-        }
+        // Each edge spawns in proportion to its traffic, in the direction of a random message
+        const newBullets: Bullet[] = [];
+        edges.forEach(edge => {
+          if (updatedBullets.length + newBullets.length >= MAX_BULLETS) return;
+          if (Math.random() >= BULLET_SPAWN_RATE * (edge.total / maxEdgeTotal)) return;
+          newBullets.push(createBullet(`bullet-${bulletIdCounter.current++}`, edge, Math.random() * edge.total < edge.forward));
+        });
         
-        return updatedBullets;
+        return newBullets.length > 0 ? [...updatedBullets, ...newBullets] : updatedBullets;
       });
 
       animationRef.current = requestAnimationFrame(animate);
@@ -259,21 +256,26 @@ export function NetworkTopologyGraph() {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [chains, positions, cChain]);
+  }, [edges, maxEdgeTotal, positions]);
 
-  const getRandomBulletColor = () => {
-    const colors = [
-      '#3b82f6', '#60a5fa', '#93c5fd',
-      '#6366f1', '#818cf8', '#a5b4fc',
-      '#8b5cf6', '#a78bfa', '#c4b5fd'
-    ];
-    return colors[Math.floor(Math.random() * colors.length)];
-  };
+  const getEdgeWidth = (edge: ChainPairEdge) =>
+    1 + (MAX_EDGE_WIDTH - 1) * Math.sqrt(edge.total / maxEdgeTotal);
+
+  const getChainName = (chainId: string) =>
+    chains.find(chain => chain.chainId === chainId)?.chainName ?? chainId;
 
   const handleChainClick = (chain: Chain) => {
     navigate(`/chain/${chain.chainId}`);
   };
 
+  // Opens the flow explorer for the busier direction of the pair
+  const handleEdgeClick = (edge: ChainPairEdge) => {
+    const [first, second] = edge.names;
+    navigate(getTeleporterExplorerUrl(edge.forward >= edge.backward
+      ? { source: first, target: second }
+      : { source: second, target: first }));
+  };
+
   if (loading) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6 h-full">
@@ -294,7 +296,7 @@ export function NetworkTopologyGraph() {
             {error || 'No network data available'}
           </p>
           <button 
-            onClick={() => window.location.reload()}
+            onClick={chainsQuery.refetch}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
@@ -323,30 +325,18 @@ export function NetworkTopologyGraph() {
           <button 
             onClick={() => {
               bulletIdCounter.current = 0;
-              const centerChainId = cChain?.chainId || chains[0].chainId;
-              const otherChains = chains.filter(chain => chain.chainId !== centerChainId);
-              
               const newBullets: Bullet[] = [];
               
-              // Create a burst of bullets
-              otherChains.slice(0, 8).forEach(chain => {
-                ['outgoing', 'incoming'].forEach(direction => {
-                  newBullets.push({
-                    id: `bullet-${bulletIdCounter.current++}`,
-                    fromChainId: direction === 'outgoing' ? centerChainId : chain.chainId,
-                    toChainId: direction === 'outgoing' ? chain.chainId : centerChainId,
-                    progress: 0,
-                    speed: BULLET_BASE_SPEED * (0.8 + Math.random() * 0.4),
-                    size: 2 + Math.random() * 2,
-                    color: getRandomBulletColor(),
-                    direction: direction as 'outgoing' | 'incoming'
-                  });
-                });
+              // Create a burst of bullets along the busiest edges, in each direction that carries traffic
+              edges.slice(0, 8).forEach(edge => {
+                if (edge.forward > 0) newBullets.push(createBullet(`bullet-${bulletIdCounter.current++}`, edge, true));
+                if (edge.backward > 0) newBullets.push(createBullet(`bullet-${bulletIdCounter.current++}`, edge, false));
               });
               
               setBullets(newBullets);
             }}
-            className="p-1.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-800/30 transition-colors"
+            disabled={edges.length === 0}
+            className="p-1.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-800/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             title="Animate network"
           >
             <Zap className="w-4 h-4" />
@@ -411,28 +401,45 @@ export function NetworkTopologyGraph() {
             />
           )}
           
-          {/* Radial connections from center to all other chains */}
-          {chains.map(chain => {
-            const position = positions.get(chain.chainId);
-            if (!position || chain.chainId === cChain?.chainId) return null;
-            
-            const centerPosition = positions.get(cChain?.chainId || chains[0].chainId);
-            if (!centerPosition) return null;
+          {/* Connections between chains that exchanged messages, thicker for busier pairs */}
+          {edges.map(edge => {
+            const fromPosition = positions.get(edge.chainIds[0]);
+            const toPosition = positions.get(edge.chainIds[1]);
+            if (!fromPosition || !toPosition) return null;
             
-            const isHighlighted = hoveredChain?.chainId === chain.chainId || selectedChain?.chainId === chain.chainId;
+            const isHighlighted = hoveredEdge?.key === edge.key || edge.chainIds.some(id =>
+              id === hoveredChain?.chainId || id === selectedChain?.chainId
+            );
+            const width = getEdgeWidth(edge);
             
             return (
-              <line 
-                key={`connection-${chain.chainId}`}
-                x1={centerPosition.x}
-                y1={centerPosition.y}
-                x2={position.x}
-                y2={position.y}
-                stroke={isHighlighted ? '#60a5fa' : 'url(#connectionGradient)'}
-                strokeWidth={isHighlighted ? 2 : 1}
-                strokeOpacity={isHighlighted ? 0.8 : 0.4}
-                className="transition-all duration-300"
-              />
+              <g key={`connection-${edge.key}`}>
+                <line 
+                  x1={fromPosition.x}
+                  y1={fromPosition.y}
+                  x2={toPosition.x}
+                  y2={toPosition.y}
+                  stroke={isHighlighted ? '#60a5fa' : 'url(#connectionGradient)'}
+                  strokeWidth={isHighlighted ? width + 1 : width}
+                  strokeOpacity={isHighlighted ? 0.8 : 0.4}
+                  strokeLinecap="round"
+                  className="transition-all duration-300"
+                />
+                {/* Wider invisible line so thin edges are easy to hover */}
+                <line
+                  x1={fromPosition.x}
+                  y1={fromPosition.y}
+                  x2={toPosition.x}
+                  y2={toPosition.y}
+                  stroke="transparent"
+                  strokeWidth={Math.max(12, width + 6)}
+                  className="cursor-pointer"
+                  style={{ pointerEvents: 'stroke' }}
+                  onMouseEnter={() => setHoveredEdge(edge)}
+                  onMouseLeave={() => setHoveredEdge(null)}
+                  onClick={() => handleEdgeClick(edge)}
+                />
+              </g>
             );
           })}
           
@@ -575,6 +582,30 @@ export function NetworkTopologyGraph() {
         })}
         
         {/* Tooltips - positioned outside the main container to ensure proper z-index */}
+        {hoveredEdge && !hoveredChain && (() => {
+          const fromPosition = positions.get(hoveredEdge.chainIds[0]);
+          const toPosition = positions.get(hoveredEdge.chainIds[1]);
+          const rect = containerRef.current?.getBoundingClientRect();
+          if (!fromPosition || !toPosition || !rect) return null;
+          const [first, second] = hoveredEdge.chainIds.map(getChainName);
+          
+          return (
+            <div className="fixed pointer-events-none z-[9999]" style={{
+              left: `${(fromPosition.x + toPosition.x) / 2 + rect.left}px`,
+              top: `${(fromPosition.y + toPosition.y) / 2 + rect.top - 16}px`,
+              transform: 'translate(-50%, -100%)'
+            }}>
+              <div className="px-3 py-2 rounded-lg text-xs font-medium bg-gray-900 text-white shadow-xl border border-gray-700 animate-fade-in">
+                <div className="flex flex-col gap-1">
+                  <span>{first} → {second}: <span className="font-semibold">{hoveredEdge.forward.toLocaleString()}</span></span>
+                  <span>{second} → {first}: <span className="font-semibold">{hoveredEdge.backward.toLocaleString()}</span></span>
+                  <span className="text-gray-400">Click to explore this route</span>
+                </div>
+              </div>
+            </div>
+          );
+        })()}
+        
         {hoveredChain && (
           <div className="fixed pointer-events-none z-[9999]" style={{
             left: `${(positions.get(hoveredChain.chainId)?.x || 0) + (containerRef.current?.getBoundingClientRect().left || 0)}px`,
@@ -609,6 +640,19 @@ export function NetworkTopologyGraph() {
         <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
           <Server className="w-4 h-4" />
           <span>Active chains: <span className="font-semibold">{chains.length}</span></span>
+          <LastUpdated updatedAt={chainsQuery.updatedAt} fetching={chainsQuery.fetching} className="ml-2" />
+        </div>
+        
+        {/* Where the edges come from, or why there are none */}
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {messagesQuery.loading
+            ? 'Loading message traffic...'
+            : !messagesQuery.data
+              ? 'Message traffic unavailable'
+              : edges.length === 0
+                ? 'No messages between these chains in the last 24h'
+                : `Edges show messages in the last ${messagesQuery.data.metadata.timeWindow ?? 24}${messagesQuery.data.metadata.timeWindowUnit === 'days' ? 'd' : 'h'}`}
+          {unresolved > 0 && ` · ${unresolved.toLocaleString()} messages involve chains not shown`}
         </div>
         
         {/* Network TPS display */}
@@ -618,7 +662,7 @@ export function NetworkTopologyGraph() {
             <div className="flex flex-col">
               <span className="text-xs text-blue-100 font-medium">Network TPS</span>
               <span className="text-sm font-bold text-white">
-                {formatTPS(networkTPS.totalTps)}
+                <AnimatedNumber value={networkTPS.totalTps} format={formatTPS} />
               </span>
             </div>
           </div>
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { schemaDrift, SchemaDriftRecord } from '../services/schemaDrift';
+
+// Development-only panel listing backend responses that no longer match the
+// schemas in src/api/schemas.ts. Rendered by App when import.meta.env.DEV.
+export function SchemaDriftOverlay() {
+  const [records, setRecords] = useState<SchemaDriftRecord[]>(() => schemaDrift.getRecords());
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => schemaDrift.subscribe(setRecords), []);
+
+  if (records.length === 0) return null;
+
+  const endpointCount = new Set(records.map(record => record.endpoint)).size;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[28rem] max-w-[calc(100vw-2rem)] rounded-lg border border-amber-300 dark:border-amber-700 bg-white dark:bg-dark-800 shadow-lg text-sm">
+      <div className="flex items-center justify-between px-4 py-2 bg-amber-50 dark:bg-amber-900/30 rounded-t-lg">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          Schema drift: {records.length} issue{records.length === 1 ? '' : 's'} on {endpointCount} endpoint{endpointCount === 1 ? '' : 's'}
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => schemaDrift.clear()}
+          className="p-1 rounded text-amber-700 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/50"
+          title="Clear"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-dark-700">
+          {records.map(record => (
+            <li key={`${record.endpoint}|${record.path}|${record.message}`} className="px-4 py-2">
+              <div className="flex items-center justify-between gap-2">
+                <code className="text-xs text-gray-900 dark:text-white truncate">{record.endpoint}</code>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  ×{record.count} · {new Date(record.lastSeen).toLocaleTimeString()}
+                </span>
+              </div>
+              <div className="mt-1 text-xs">
+                <code className="text-amber-700 dark:text-amber-400">{record.path}</code>
+                <span className="text-gray-600 dark:text-gray-300"> — {record.message}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
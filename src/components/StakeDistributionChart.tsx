@@ -1,18 +1,21 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef } from 'react';
 import { Pie } from 'react-chartjs-2';
 import { Chart as ChartJS, ArcElement, Tooltip } from 'chart.js';
 import { Validator } from '../types';
 import { useTheme } from '../hooks/useTheme';
+import { ExportMenu } from './ExportMenu';
 
 ChartJS.register(ArcElement, Tooltip);
 
 interface StakeDistributionChartProps {
   validators: Validator[];
+  chainName?: string;
 }
 
-export function StakeDistributionChart({ validators }: StakeDistributionChartProps) {
+export function StakeDistributionChart({ validators, chainName }: StakeDistributionChartProps) {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const chartRef = useRef<ChartJS<'pie'>>(null);
 
   const { data, totalStake, colors } = useMemo(() => {
     // Calculate total stake
@@ -59,6 +62,16 @@ export function StakeDistributionChart({ validators }: StakeDistributionChartPro
     };
   }, [validators, isDark]);
 
+  const exportRows = useMemo(() => [...validators]
+    .sort((a, b) => b.weight - a.weight)
+    .map(validator => ({
+      address: validator.address,
+      weight: validator.weight,
+      sharePercent: totalStake > 0 ? Number(((validator.weight / totalStake) * 100).toFixed(4)) : 0,
+      active: validator.active,
+      uptime: validator.uptime,
+    })), [validators, totalStake]);
+
   const options = {
     responsive: true,
     maintainAspectRatio: false,
@@ -88,10 +101,17 @@ export function StakeDistributionChart({ validators }: StakeDistributionChartPro
 
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg p-6">
-      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Stake Distribution</h3>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Stake Distribution</h3>
+        <ExportMenu
+          filename={{ chart: 'stake-distribution', chain: chainName }}
+          data={exportRows}
+          chartRef={chartRef}
+        />
+      </div>
       <div className="flex flex-col md:flex-row items-start gap-4">
         <div className="w-full md:w-3/4 h-[500px]">
-          <Pie data={data} options={options} />
+          <Pie ref={chartRef} data={data} options={options} />
         </div>
         <div className="w-full md:w-1/4">
           <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-4">
@@ -1,8 +1,9 @@
-import { CheckCircle, AlertTriangle, Menu, X, ExternalLink } from 'lucide-react';
+import { CheckCircle, AlertTriangle, Menu, X, ExternalLink, WifiOff, Bell } from 'lucide-react';
 import { HealthStatus } from '../types';
 import { useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { ThemeToggle } from './ThemeToggle';
+import { useOfflineSnapshot, formatSnapshotAge } from '../hooks/useOfflineSnapshot';
 
 interface StatusBarProps {
   health: HealthStatus | null;
@@ -16,6 +17,7 @@ export function StatusBar({ health }: StatusBarProps) {
   const [showComingSoon, setShowComingSoon] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
+  const offlineSnapshot = useOfflineSnapshot();
 
   useEffect(() => {
     const controlNavbar = () => {
@@ -105,7 +107,22 @@ export function StatusBar({ health }: StatusBarProps) {
                 />
               </button>
 
-              {health && (
+              {offlineSnapshot.offline && offlineSnapshot.snapshotAt !== null ? (
+                // Mobile shows just the icon so cached data is still flagged on small screens
+                <div
+                  className="flex items-center gap-2 pl-3 md:pl-6 border-l border-gray-200 dark:border-dark-700"
+                  title={`Showing data fetched ${new Date(offlineSnapshot.snapshotAt).toLocaleString()}`}
+                  aria-label="Offline snapshot"
+                >
+                  <div className="p-1.5 rounded-lg bg-amber-100 dark:bg-amber-500/20">
+                    <WifiOff className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+                  </div>
+                  <span className="hidden md:inline text-sm font-medium text-amber-700 dark:text-amber-400">
+                    Offline snapshot
+                    {offlineSnapshot.age !== null && ` · ${formatSnapshotAge(offlineSnapshot.age)}${offlineSnapshot.age >= 60000 ? ' old' : ''}`}
+                  </span>
+                </div>
+              ) : health && (
                 <div className="hidden md:flex items-center gap-2 pl-6 border-l border-gray-200 dark:border-dark-700">
                   <div className="p-1.5 rounded-lg bg-green-100 dark:bg-green-500/20">
                     <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
@@ -141,6 +158,17 @@ export function StatusBar({ health }: StatusBarProps) {
                 >
                   ACPs
                 </Link>
+
+                <Link
+                  to="/alerts"
+                  className={`inline-flex items-center gap-1.5 px-4 py-2 text-sm font-medium rounded-md transition-colors ${isActive('/alerts')
+                    ? 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400'
+                    }`}
+                >
+                  <Bell className="w-3.5 h-3.5" />
+                  Alerts
+                </Link>
               </div>
 
               <div className="h-6 w-px bg-gray-200 dark:bg-gray-700"></div>
@@ -163,7 +191,7 @@ export function StatusBar({ health }: StatusBarProps) {
           </div>
 
           {/* Mobile Menu */}
-          <div className={`md:hidden transition-all duration-300 ease-in-out ${isMobileMenuOpen ? 'max-h-64 opacity-100' : 'max-h-0 opacity-0 overflow-hidden'
+          <div className={`md:hidden transition-all duration-300 ease-in-out ${isMobileMenuOpen ? 'max-h-80 opacity-100' : 'max-h-0 opacity-0 overflow-hidden'
             }`}>
             <div className="px-2 pt-2 pb-3 space-y-1 border-t border-gray-200 dark:border-dark-700">
               <ComingSoonBlog isMobile={true} />
@@ -188,6 +216,17 @@ export function StatusBar({ health }: StatusBarProps) {
                 ACPs
               </Link>
 
+              <Link
+                to="/alerts"
+                onClick={() => setIsMobileMenuOpen(false)}
+                className={`block px-3 py-2 rounded-md text-base font-medium transition-colors ${isActive('/alerts')
+                  ? 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400'
+                  }`}
+              >
+                Alerts
+              </Link>
+
               <div className="pt-4 border-t border-gray-200 dark:border-dark-700">
                 <div className="flex items-center justify-between px-3">
                   <span className="text-sm font-medium text-gray-700 dark:text-gray-200">Theme</span>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useRef } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format } from 'date-fns';
 import {
@@ -12,9 +12,15 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import { TVLHistory, TVLHealth } from '../types';
-import { getTVLHistory, getTVLHealth } from '../api';
+import { getTVLHistory, getTVLHealth, queryKeys } from '../api';
 import { useTheme } from '../hooks/useTheme';
+import { useQuery } from '../hooks/useQuery';
+import { useLiveRefetchInterval } from '../hooks/useLiveMode';
+import { LastUpdated } from './LastUpdated';
+import { ExportMenu } from './ExportMenu';
+import { TimeframeSelector } from './TimeframeSelector';
+import { MAX_CHART_POINTS, downsample, filterToTimeframe, getTimeframeLabel } from '../utils/timeframe';
+import { useSyncedChart, useSyncedTimeframe } from '../hooks/useChartSync';
 import { AlertTriangle, TrendingUp, RefreshCw, Info } from 'lucide-react';
 
 ChartJS.register(
@@ -30,77 +36,47 @@ ChartJS.register(
 
 export function TVLChart() {
   const { theme } = useTheme();
-  const [tvlHistory, setTvlHistory] = useState<TVLHistory[]>([]);
-  const [tvlHealth, setTvlHealth] = useState<TVLHealth | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  const { timeframe, setTimeframe, zoom } = useSyncedTimeframe(30);
+  // Refresh every 5 minutes unless live mode polls more often
+  const refetchInterval = useLiveRefetchInterval(5 * 60 * 1000);
+  const historyQuery = useQuery(queryKeys.tvlHistory(timeframe), () => getTVLHistory(timeframe), { refetchInterval });
+  const healthQuery = useQuery(queryKeys.tvlHealth, getTVLHealth, { refetchInterval });
 
   const isDark = theme === 'dark';
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      setRetrying(true);
-
-      const [history, health] = await Promise.all([
-        getTVLHistory(30),
-        getTVLHealth()
-      ]);
-
-      // Validate and process TVL history data
-      if (history && Array.isArray(history)) {
-        const validHistory = history
-          .filter(item => 
-            item && 
-            typeof item.date === 'number' && 
-            typeof item.tvl === 'number' && 
-            !isNaN(item.date) && 
-            !isNaN(item.tvl)
-          )
-          .sort((a, b) => a.date - b.date); // Sort by date ascending
-
-        if (validHistory.length > 0) {
-          setTvlHistory(validHistory);
-          setTvlHealth(health);
-        } else {
-          throw new Error('No valid TVL data available');
-        }
-      } else {
-        throw new Error('Invalid TVL data format');
-      }
-    } catch (err) {
-      console.error('TVL data fetch error:', err);
-      setError('Unable to load TVL data. Please try again later.');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
+  // Validate and process TVL history data
+  const tvlHistory = useMemo(() => (historyQuery.data ?? [])
+    .filter(item => 
+      item && 
+      typeof item.date === 'number' && 
+      typeof item.tvl === 'number' && 
+      !isNaN(item.date) && 
+      !isNaN(item.tvl)
+    )
+    .sort((a, b) => a.date - b.date), // Sort by date ascending
+  [historyQuery.data]);
+  // Long ranges are downsampled so the chart stays responsive
+  const plotted = useMemo(() => {
+    const visible = zoom ? filterToTimeframe(tvlHistory, item => item.date, zoom) : tvlHistory;
+    return downsample(visible, MAX_CHART_POINTS, item => item.date, item => item.tvl);
+  }, [tvlHistory, zoom]);
+  const timestamps = useMemo(() => plotted.map(item => item.date), [plotted]);
+  const syncedChart = useSyncedChart(chartRef, timestamps);
+  const spansYear = tvlHistory.length > 300;
+  const tvlHealth = tvlHistory.length > 0 ? healthQuery.data ?? null : null;
+
+  const loading = historyQuery.loading || healthQuery.loading;
+  const retrying = historyQuery.fetching || healthQuery.fetching;
+  const error = historyQuery.error || healthQuery.error
+    ? 'Unable to load TVL data. Please try again later.'
+    : null;
+
+  const fetchData = () => {
+    historyQuery.refetch();
+    healthQuery.refetch();
   };
 
-  useEffect(() => {
-    let mounted = true;
-
-    const loadData = async () => {
-      try {
-        await fetchData();
-      } catch (err) {
-        if (mounted) {
-          setError('Failed to load TVL data');
-        }
-      }
-    };
-
-    loadData();
-    const interval = setInterval(loadData, 5 * 60 * 1000); // Refresh every 5 minutes
-
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, []);
-
   if (loading) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
@@ -125,6 +101,7 @@ export function TVLChart() {
               Historical TVL data across all chains
             </p>
           </div>
+          <TimeframeSelector value={timeframe} onChange={setTimeframe} />
         </div>
         <div className="h-64 flex flex-col items-center justify-center">
           <AlertTriangle className="h-12 w-12 text-yellow-500 mb-4" />
@@ -154,19 +131,19 @@ export function TVLChart() {
   }
 
   const data = {
-    labels: tvlHistory.map(item => 
-      format(new Date(item.date * 1000), 'MMM d')
+    labels: plotted.map(item => 
+      format(new Date(item.date * 1000), spansYear ? 'MMM d, yyyy' : 'MMM d')
     ),
     datasets: [
       {
         label: 'Total Value Locked (TVL)',
-        data: tvlHistory.map(item => item.tvl),
+        data: plotted.map(item => item.tvl),
         fill: true,
         borderColor: isDark ? 'rgb(96, 165, 250)' : 'rgb(59, 130, 246)',
         backgroundColor: isDark ? 'rgba(96, 165, 250, 0.2)' : 'rgba(59, 130, 246, 0.1)',
         borderWidth: isDark ? 2 : 1.5,
         tension: 0.4,
-        pointRadius: 4,
+        pointRadius: plotted.length > 60 ? 0 : 4,
         pointHoverRadius: 6,
         pointBackgroundColor: isDark ? '#1e293b' : '#ffffff',
       },
@@ -176,6 +153,7 @@ export function TVLChart() {
   const options = {
     responsive: true,
     maintainAspectRatio: false,
+    ...syncedChart.options,
     plugins: {
       legend: {
         display: false,
@@ -226,7 +204,7 @@ export function TVLChart() {
 
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
         <div>
           <div className="flex items-center gap-2">
             <TrendingUp className="w-5 h-5 text-blue-500" />
@@ -237,17 +215,26 @@ export function TVLChart() {
               Last updated: {format(new Date(tvlHealth.lastUpdate), 'MMM d, h:mm a')}
             </p>
           )}
+          <LastUpdated updatedAt={healthQuery.updatedAt} fetching={retrying} className="mt-1" />
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <TimeframeSelector value={timeframe} onChange={setTimeframe} />
+          <ExportMenu
+            filename={{ chart: 'tvl', chain: 'c-chain', timeframe: getTimeframeLabel(timeframe) }}
+            data={tvlHistory}
+            chartRef={chartRef}
+          />
+          {tvlHealth && (
+            <div className="text-right">
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                ${tvlHealth.tvl.toLocaleString()}
+              </p>
+              <p className={`text-sm ${tvlHealth.status === 'healthy' ? 'text-green-500 dark:text-green-400' : 'text-yellow-500 dark:text-yellow-400'}`}>
+                {tvlHealth.status === 'healthy' ? 'Data is current' : 'Data is stale'}
+              </p>
+            </div>
+          )}
         </div>
-        {tvlHealth && (
-          <div className="text-right">
-            <p className="text-2xl font-bold text-gray-900 dark:text-white">
-              ${tvlHealth.tvl.toLocaleString()}
-            </p>
-            <p className={`text-sm ${tvlHealth.status === 'healthy' ? 'text-green-500 dark:text-green-400' : 'text-yellow-500 dark:text-yellow-400'}`}>
-              {tvlHealth.status === 'healthy' ? 'Data is current' : 'Data is stale'}
-            </p>
-          </div>
-        )}
       </div>
 
       <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-6 flex items-start gap-2">
@@ -260,7 +247,7 @@ export function TVLChart() {
       </div>
 
       <div className="h-64">
-        <Line data={data} options={options} />
+        <Line ref={chartRef} data={data} options={options} plugins={syncedChart.plugins} />
       </div>
     </div>
   );
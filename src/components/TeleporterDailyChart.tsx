@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import { useMemo, useRef } from 'react';
 import { Line } from 'react-chartjs-2';
 import { format, parseISO, subDays } from 'date-fns';
 import {
@@ -12,9 +12,17 @@ import {
   Legend,
   Filler
 } from 'chart.js';
-import { TeleporterDailyData, TimeframeOption } from '../types';
-import { getTeleporterDailyHistory } from '../api';
+import { getTeleporterDailyHistory, queryKeys } from '../api';
 import { useTheme } from '../hooks/useTheme';
+import { useQuery } from '../hooks/useQuery';
+import { useLiveRefetchInterval } from '../hooks/useLiveMode';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { UNKNOWN_CHAIN_LABEL } from '../services/chainRegistry';
+import { LastUpdated } from './LastUpdated';
+import { ExportMenu } from './ExportMenu';
+import { TimeframeSelector } from './TimeframeSelector';
+import { MAX_CHART_POINTS, downsample, filterToTimeframe, getTimeframeLabel } from '../utils/timeframe';
+import { useSyncedChart, useSyncedTimeframe } from '../hooks/useChartSync';
 import { useMediaQuery, breakpoints } from '../hooks/useMediaQuery';
 import { RefreshCw, MessageSquare, Clock } from 'lucide-react';
 
@@ -31,58 +39,57 @@ ChartJS.register(
 
 export function TeleporterDailyChart() {
   const { theme } = useTheme();
-  const [dailyData, setDailyData] = useState<TeleporterDailyData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
-  const [timeframe, setTimeframe] = useState<TimeframeOption>(7);
+  const { timeframe, setTimeframe, zoom } = useSyncedTimeframe(7);
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  const refetchInterval = useLiveRefetchInterval(15 * 60 * 1000);
+  const dailyQuery = useQuery(
+    queryKeys.teleporterDailyHistory(timeframe),
+    () => getTeleporterDailyHistory(timeframe),
+    { refetchInterval }
+  );
 
+  const { registry } = useChainRegistry();
   const isDark = theme === 'dark';
   const isMobile = useMediaQuery(breakpoints.sm);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      setRetrying(true);
-
-      const data = await getTeleporterDailyHistory(timeframe);
-      
-      if (data.length > 0) {
-        // Sort data by date and take only the last N days based on timeframe
-        const sortedData = data
-          .sort((a, b) => a.dateString.localeCompare(b.dateString))
-          .slice(-timeframe);
-        
-        setDailyData(sortedData);
-      } else {
-        throw new Error('No daily message data available');
-      }
-    } catch (err) {
-      console.error('Failed to fetch daily message data:', err);
-      setError('Failed to load daily message data');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
-  };
+  // Sort data by date and take only the last N days for fixed-length timeframes
+  const dailyData = useMemo(() => {
+    const sorted = [...(dailyQuery.data ?? [])].sort((a, b) => a.dateString.localeCompare(b.dateString));
+    return typeof timeframe === 'number' ? sorted.slice(-timeframe) : sorted;
+  }, [dailyQuery.data, timeframe]);
 
-  useEffect(() => {
-    let mounted = true;
+  // Long ranges are downsampled so the chart stays responsive
+  const plottedData = useMemo(() => {
+    const visible = zoom ? filterToTimeframe(dailyData, item => Date.parse(item.date) / 1000, zoom) : dailyData;
+    return downsample(visible, MAX_CHART_POINTS, item => Date.parse(item.date), item => item.totalMessages);
+  }, [dailyData, zoom]);
+  const timestamps = useMemo(() => plottedData.map(item => Date.parse(item.date) / 1000), [plottedData]);
+  const syncedChart = useSyncedChart(chartRef, timestamps);
+  const spansYear = dailyData.length > 300;
 
-    const loadData = async () => {
-      if (!mounted) return;
-      await fetchData();
-    };
+  // One CSV row per day and chain pair. Chain IDs are left empty for chains the registry doesn't know
+  const exportRows = useMemo(() => dailyData.flatMap(day => day.data.map(message => ({
+    date: day.dateString,
+    sourceChain: message.sourceChain,
+    sourceChainId: registry.getChain(message.sourceChain)?.chainId ?? '',
+    destinationChain: message.destinationChain,
+    destinationChainId: registry.getChain(message.destinationChain)?.chainId ?? '',
+    messageCount: message.messageCount,
+  }))), [dailyData, registry]);
 
-    loadData();
-    const interval = setInterval(loadData, 15 * 60 * 1000);
+  // Messages of the latest day sent or received by chains missing from the chain list
+  const unknownMessages = useMemo(() => {
+    const latest = dailyData[dailyData.length - 1];
+    if (!latest || !registry.ready) return 0;
+    return latest.data
+      .filter(message => !registry.getChain(message.sourceChain) || !registry.getChain(message.destinationChain))
+      .reduce((sum, message) => sum + message.messageCount, 0);
+  }, [dailyData, registry]);
 
-    return () => {
-      mounted = false;
-      clearInterval(interval);
-    };
-  }, [timeframe]);
+  const loading = dailyQuery.loading;
+  const retrying = dailyQuery.fetching;
+  const error = dailyQuery.error ? 'Failed to load daily message data' : null;
+  const fetchData = dailyQuery.refetch;
 
   if (loading) {
     return (
@@ -129,20 +136,21 @@ export function TeleporterDailyChart() {
   }
 
   const data = {
-    labels: dailyData.map(item => {
+    labels: plottedData.map(item => {
       const [year, month, day] = item.dateString.split('-');
-      return format(new Date(parseInt(year), parseInt(month) - 1, parseInt(day)), isMobile ? 'd MMM' : 'MMM d');
+      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+      return format(date, spansYear ? 'MMM yyyy' : isMobile ? 'd MMM' : 'MMM d');
     }),
     datasets: [
       {
         label: 'Total Daily Messages',
-        data: dailyData.map(item => item.totalMessages),
+        data: plottedData.map(item => item.totalMessages),
         fill: true,
         borderColor: isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)',
         backgroundColor: isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)',
         borderWidth: isDark ? 2 : 1.5,
         tension: 0.4,
-        pointRadius: isMobile ? 2 : 4,
+        pointRadius: plottedData.length > 60 ? 0 : isMobile ? 2 : 4,
         pointHoverRadius: isMobile ? 4 : 6,
         pointBackgroundColor: isDark ? '#1e293b' : '#ffffff',
       },
@@ -151,6 +159,7 @@ export function TeleporterDailyChart() {
 
   const options = {
     responsive: true,
+    ...syncedChart.options,
     maintainAspectRatio: false,
     plugins: {
       legend: {
@@ -172,7 +181,7 @@ export function TeleporterDailyChart() {
         },
         callbacks: {
           label: (context: any) => {
-            const dataPoint = dailyData[context.dataIndex];
+            const dataPoint = plottedData[context.dataIndex];
             return [
               `Messages: ${context.parsed.y.toLocaleString()}`,
               `Window: ${dataPoint.timeWindow}h`,
@@ -233,41 +242,17 @@ export function TeleporterDailyChart() {
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
               Last updated: {format(parseISO(latestData?.date || new Date().toISOString()), 'MMM d, h:mm a')}
             </p>
+            <LastUpdated updatedAt={dailyQuery.updatedAt} fetching={retrying} className="mt-1" />
           </div>
 
           <div className="flex flex-col sm:flex-row sm:items-center gap-3">
-            <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex">
-              <button
-                onClick={() => setTimeframe(7)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 7
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                7D
-              </button>
-              <button
-                onClick={() => setTimeframe(14)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 14
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                14D
-              </button>
-              <button
-                onClick={() => setTimeframe(30)}
-                className={`flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
-                  timeframe === 30
-                    ? 'bg-blue-500 text-white'
-                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-                }`}
-              >
-                30D
-              </button>
-            </div>
+            <TimeframeSelector value={timeframe} onChange={setTimeframe} />
+            <ExportMenu
+              filename={{ chart: 'icm-daily-messages', timeframe: getTimeframeLabel(timeframe) }}
+              data={dailyData}
+              rows={exportRows}
+              chartRef={chartRef}
+            />
           </div>
         </div>
 
@@ -278,11 +263,16 @@ export function TeleporterDailyChart() {
           <p className="text-sm text-gray-500 dark:text-gray-400">
             messages in the last {latestData.timeWindow}h
           </p>
+          {unknownMessages > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {unknownMessages.toLocaleString()} involve {UNKNOWN_CHAIN_LABEL.toLowerCase()} not in the chain list
+            </p>
+          )}
         </div>
       </div>
 
       <div className="h-[300px] sm:h-[400px]">
-        <Line data={data} options={options} />
+        <Line ref={chartRef} data={data} options={options} plugins={syncedChart.plugins} />
       </div>
     </div>
   );
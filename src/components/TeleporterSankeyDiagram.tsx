@@ -1,13 +1,17 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
 import { sankey, sankeyLinkHorizontal } from 'd3-sankey';
 import { format } from 'date-fns';
 import { RefreshCw, AlertTriangle, MessageSquare, ArrowUpDown, Activity, Clock } from 'lucide-react';
 import { useTheme } from '../hooks/useTheme';
 import { useNavigate } from 'react-router-dom';
-
-// Get API base URL from environment variables
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001';
+import { getTeleporterMessages, getTeleporterWeeklyMessages, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useLiveRefetchInterval } from '../hooks/useLiveMode';
+import { useOfflineSnapshot, formatSnapshotAge } from '../hooks/useOfflineSnapshot';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { UNKNOWN_CHAIN_KEY, UNKNOWN_CHAIN_LABEL } from '../services/chainRegistry';
+import { TeleporterRoute, getTeleporterExplorerUrl } from '../utils/teleporterRoutes';
 
 interface TeleporterMessage {
   source: string;
@@ -33,6 +37,10 @@ interface SankeyNode extends d3.SankeyNode<SankeyNode, SankeyLink> {
   color?: string;
   displayName?: string;
   originalName?: string;
+  // Set for chains the registry resolved, so the node can link to them
+  chainId?: string | null;
+  // Chain names that could not be resolved and were merged into this node
+  unknownNames?: string[];
 }
 
 interface SankeyLink extends d3.SankeyLink<SankeyNode, SankeyLink> {
@@ -42,19 +50,49 @@ interface SankeyLink extends d3.SankeyLink<SankeyNode, SankeyLink> {
   gradient?: string;
 }
 
-export function TeleporterSankeyDiagram() {
+interface TeleporterSankeyDiagramProps {
+  // Called when a flow is clicked; opens the flow explorer for it by default
+  onLinkClick?: (route: TeleporterRoute) => void;
+}
+
+export function TeleporterSankeyDiagram({ onLinkClick }: TeleporterSankeyDiagramProps = {}) {
   const navigate = useNavigate();
-  const [data, setData] = useState<TeleporterData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [hoveredLink, setHoveredLink] = useState<SankeyLink | null>(null);
   const [hoveredNode, setHoveredNode] = useState<SankeyNode | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const [selectedChain, setSelectedChain] = useState<string | null>(null);
   const [timeframe, setTimeframe] = useState<'daily' | 'weekly'>('daily');
+  // Bumped on window resize so the diagram is redrawn at the new size
+  const [layoutVersion, setLayoutVersion] = useState(0);
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
+  const { registry, loading: chainsLoading } = useChainRegistry();
+
+  const refetchInterval = useLiveRefetchInterval(15 * 60 * 1000);
+  const queryKey = timeframe === 'daily' ? queryKeys.teleporterMessages : queryKeys.teleporterWeeklyMessages;
+  const messagesQuery = useQuery(
+    queryKey,
+    timeframe === 'daily' ? getTeleporterMessages : getTeleporterWeeklyMessages,
+    { refetchInterval }
+  );
+  const offlineSnapshot = useOfflineSnapshot();
+  const fromSnapshot = offlineSnapshot.keys.includes(queryKey);
+
+  const data = useMemo<TeleporterData | null>(() => {
+    if (!messagesQuery.data) return null;
+    const { messages, metadata } = messagesQuery.data;
+    return {
+      messages: messages
+        .map(message => ({ source: message.source || 'Unknown', target: message.target || 'Unknown', value: message.count }))
+        .sort((a, b) => b.value - a.value),
+      metadata: {
+        ...metadata,
+        timeWindow: metadata.timeWindow ?? (timeframe === 'daily' ? 24 : 7),
+        timeWindowUnit: metadata.timeWindowUnit ?? (timeframe === 'daily' ? 'hours' : 'days'),
+      },
+    };
+  }, [messagesQuery.data, timeframe]);
   
   // Force text colors to always be white for dark background
   const forceTextColors = useCallback(() => {
@@ -114,21 +152,6 @@ export function TeleporterSankeyDiagram() {
     };
   }, [hoveredNode, hoveredLink]);
   
-  // Function to format chain names for better readability
-  const formatChainName = (name: string) => {
-    if (!name) return 'Unknown';
-    
-    // Special case for specific chains
-    if (name === 'Avalanche (C-Chain)') return 'C-Chain';
-    if (name === 'Dexalot L1') return 'Dexalot';
-    if (name === 'zeroone Mainnet L1') return 'ZeroOne';
-    if (name === 'Lamina1 L1') return 'Lamina1';
-    if (name === 'PLYR PHI L1') return 'PLYR';
-    
-    // For other chains, just return the name
-    return name;
-  };
-
   // Generate a consistent color for a chain
   const getChainColor = useCallback((chainName: string) => {
     // Predefined colors for common chains
@@ -162,151 +185,35 @@ export function TeleporterSankeyDiagram() {
     return `hsl(${h}, ${s}, ${l})`;
   }, []);
 
-  // Function to find chain ID from chain name
-  const findChainId = (chainName: string) => {
-    // Map of known chain names to their IDs
-    const chainMap: Record<string, string> = {
-      'Avalanche (C-Chain)': 'C',
-      'C-Chain': 'C',
-      'Dexalot L1': 'dexalot',
-      'Dexalot': 'dexalot',
-      'zeroone Mainnet L1': 'zeroone',
-      'ZeroOne': 'zeroone',
-      'Lamina1 L1': 'lamina1',
-      'Lamina1': 'lamina1',
-      'PLYR PHI L1': 'plyr',
-      'PLYR': 'plyr',
-    };
-    
-    return chainMap[chainName] || null;
-  };
-
-  const fetchData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Use the appropriate endpoint based on the selected timeframe
-      const endpoint = timeframe === 'daily' 
-        ? `${API_BASE_URL}/api/teleporter/messages/daily-count`
-        : `${API_BASE_URL}/api/teleporter/messages/weekly-count`;
-      
-      const response = await fetch(endpoint);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const rawData = await response.json();
-      
-      // Process the API response format
-      if (!rawData || !rawData.data || !Array.isArray(rawData.data)) {
-        throw new Error('Invalid data format: Missing data array');
-      }
-      
-      // Transform the data to our expected format
-      const messages = rawData.data.map((item: any) => ({
-        source: item.sourceChain || 'Unknown',
-        target: item.destinationChain || 'Unknown',
-        value: Number(item.messageCount) || 0
-      }));
-      
-      // Sort messages by value in descending order
-      messages.sort((a, b) => b.value - a.value);
-      
-      const totalMessages = rawData.metadata?.totalMessages || 
-        messages.reduce((sum, msg) => sum + msg.value, 0);
-      
-      const processedData: TeleporterData = {
-        messages,
-        metadata: {
-          totalMessages,
-          timeWindow: timeframe === 'daily' ? 24 : 7,
-          timeWindowUnit: timeframe === 'daily' ? 'hours' : 'days',
-          updatedAt: rawData.metadata?.updatedAt || new Date().toISOString()
-        }
-      };
-      
-      setData(processedData);
-    } catch (err) {
-      console.error(`Failed to fetch ${timeframe} Teleporter messages:`, err);
-      
-      // Use sample data for demonstration when there's an error
-      const sampleData = generateSampleData();
-      setData(sampleData);
-      setError(`Using sample data - API connection failed for ${timeframe} data`);
-    } finally {
-      setLoading(false);
-    }
-  }, [timeframe]);
-
-  // Generate sample data for demonstration
-  const generateSampleData = (): TeleporterData => {
-    // Different sample data based on timeframe
-    const dailySampleMessages = [
-      { source: 'Dexalot L1', target: 'Avalanche (C-Chain)', value: 408 },
-      { source: 'Avalanche (C-Chain)', target: 'Dexalot L1', value: 362 },
-      { source: 'Avalanche (C-Chain)', target: 'zeroone Mainnet L1', value: 24 },
-      { source: 'Lamina1 L1', target: 'Avalanche (C-Chain)', value: 17 },
-      { source: 'zeroone Mainnet L1', target: 'Avalanche (C-Chain)', value: 16 },
-      { source: 'Avalanche (C-Chain)', target: '898b8aa8', value: 12 },
-      { source: 'Avalanche (C-Chain)', target: 'PLYR PHI L1', value: 6 },
-      { source: 'PLYR PHI L1', target: 'Avalanche (C-Chain)', value: 2 }
-    ];
-    
-    const weeklySampleMessages = [
-      { source: 'Dexalot L1', target: 'Avalanche (C-Chain)', value: 2845 },
-      { source: 'Avalanche (C-Chain)', target: 'Dexalot L1', value: 2532 },
-      { source: 'Avalanche (C-Chain)', target: 'zeroone Mainnet L1', value: 168 },
-      { source: 'zeroone Mainnet L1', target: 'Avalanche (C-Chain)', value: 112 },
-      { source: 'Lamina1 L1', target: 'Avalanche (C-Chain)', value: 119 },
-      { source: 'Avalanche (C-Chain)', target: 'Lamina1 L1', value: 84 },
-      { source: 'Avalanche (C-Chain)', target: '898b8aa8', value: 84 },
-      { source: 'Avalanche (C-Chain)', target: 'PLYR PHI L1', value: 42 },
-      { source: 'PLYR PHI L1', target: 'Avalanche (C-Chain)', value: 14 }
-    ];
-    
-    const messages = timeframe === 'daily' ? dailySampleMessages : weeklySampleMessages;
-    const totalMessages = messages.reduce((sum, msg) => sum + msg.value, 0);
-    
-    return {
-      messages,
-      metadata: {
-        totalMessages,
-        timeWindow: timeframe === 'daily' ? 24 : 7,
-        timeWindowUnit: timeframe === 'daily' ? 'hours' : 'days',
-        updatedAt: new Date().toISOString()
-      }
-    };
-  };
-
+  // Reset selected chain when changing timeframe
   useEffect(() => {
-    fetchData();
-    
-    // Reset selected chain when changing timeframe
     setSelectedChain(null);
-    
-    // Refresh data every 15 minutes
-    const interval = setInterval(fetchData, 15 * 60 * 1000);
-    
-    return () => clearInterval(interval);
-  }, [fetchData, timeframe]);
+  }, [timeframe]);
 
   // Handle node click to navigate to chain details
-  const handleNodeClick = (node: SankeyNode) => {
-    // Extract the original chain name from the node
-    const chainName = node.originalName;
-    if (!chainName) return;
-    
-    // Find the chain ID based on the chain name
-    const chainId = findChainId(chainName);
-    if (chainId) {
-      navigate(`/chain/${chainId}`);
+  const handleNodeClick = useCallback((node: SankeyNode) => {
+    if (node.chainId) {
+      navigate(`/chain/${node.chainId}`);
     } else {
-      // If we can't find a chain ID, just toggle the filter
-      setSelectedChain(selectedChain === node.name ? null : node.name);
+      // Chains the registry doesn't know have no page, so just toggle the filter
+      setSelectedChain(current => current === node.name ? null : node.name);
     }
-  };
+  }, [navigate]);
+
+  // Read through a ref so a new callback from the parent doesn't redraw the diagram
+  const onLinkClickRef = useRef(onLinkClick);
+  onLinkClickRef.current = onLinkClick;
+
+  const handleLinkClick = useCallback((link: SankeyLink) => {
+    // A flow into or out of the unknown bucket can span several chains
+    if (link.source.unknownNames || link.target.unknownNames) return;
+    const route = { source: link.source.originalName || '', target: link.target.originalName || '' };
+    if (onLinkClickRef.current) {
+      onLinkClickRef.current(route);
+    } else {
+      navigate(getTeleporterExplorerUrl(route));
+    }
+  }, [navigate]);
 
   // Draw the Sankey diagram
   useEffect(() => {
@@ -337,49 +244,54 @@ export function TeleporterSankeyDiagram() {
         throw new Error('No message data available');
       }
       
-      // Create a map of unique source and target nodes
-      const nodesMap = new Map();
-      
-      // Add all sources and targets to the map with unique IDs
-      data.messages.forEach((msg) => {
-        const sourceKey = `source-${msg.source}`;
-        const targetKey = `target-${msg.target}`;
-        
-        if (!nodesMap.has(sourceKey)) {
-          nodesMap.set(sourceKey, {
-            name: sourceKey,
-            displayName: formatChainName(msg.source),
-            originalName: msg.source,
-            isSource: true,
-            color: getChainColor(msg.source)
-          });
-        }
+      // Create a map of unique source and target nodes. Names the registry can't
+      // resolve are merged into one "Unknown chains" node on each side
+      const nodesMap = new Map<string, {
+        name: string;
+        displayName: string;
+        originalName: string;
+        chainId: string | null;
+        unknownNames?: string[];
+        isSource: boolean;
+        color: string;
+      }>();
+      const linksMap = new Map<string, { source: string; target: string; value: number }>();
+      
+      const addNode = (chainName: string, isSource: boolean) => {
+        const resolution = registry.resolve(chainName);
+        const unknown = registry.ready && !resolution.chain;
+        const key = `${isSource ? 'source' : 'target'}-${unknown ? UNKNOWN_CHAIN_KEY : resolution.chain?.chainId ?? chainName}`;
+        const existing = nodesMap.get(key);
         
-        if (!nodesMap.has(targetKey)) {
-          nodesMap.set(targetKey, {
-            name: targetKey,
-            displayName: formatChainName(msg.target),
-            originalName: msg.target,
-            isSource: false,
-            color: getChainColor(msg.target)
+        if (existing) {
+          if (existing.unknownNames && !existing.unknownNames.includes(chainName)) existing.unknownNames.push(chainName);
+        } else {
+          nodesMap.set(key, {
+            name: key,
+            displayName: unknown ? UNKNOWN_CHAIN_LABEL : resolution.chain ? resolution.label : chainName,
+            originalName: chainName,
+            chainId: resolution.chain?.chainId ?? null,
+            unknownNames: unknown ? [chainName] : undefined,
+            isSource,
+            color: unknown ? '#6b7280' : getChainColor(resolution.chain?.chainName ?? chainName)
           });
         }
+        return key;
+      };
+      
+      // Add all sources and targets, summing flows that resolve to the same pair
+      data.messages.forEach((msg) => {
+        const sourceKey = addNode(msg.source, true);
+        const targetKey = addNode(msg.target, false);
+        const linkKey = `${sourceKey}|${targetKey}`;
+        const link = linksMap.get(linkKey) ?? { source: sourceKey, target: targetKey, value: 0 };
+        link.value += msg.value;
+        linksMap.set(linkKey, link);
       });
       
-      // Convert the map to an array of nodes
+      // Convert the maps to arrays of nodes and links
       const nodes = Array.from(nodesMap.values());
-      
-      // Create links with references to node indices
-      const links = data.messages.map(msg => {
-        const sourceKey = `source-${msg.source}`;
-        const targetKey = `target-${msg.target}`;
-        
-        return {
-          source: sourceKey,
-          target: targetKey,
-          value: msg.value
-        };
-      });
+      const links = Array.from(linksMap.values());
       
       // Filter links and nodes based on selected chain
       let filteredLinks = links;
@@ -482,7 +394,7 @@ export function TeleporterSankeyDiagram() {
             0.6
         )
         .style('transition', 'opacity 0.3s ease, stroke-width 0.3s ease')
-        .style('cursor', 'pointer');
+        .style('cursor', d => d.source.unknownNames || d.target.unknownNames ? 'default' : 'pointer');
       
       // Add subtle animation to links
       linkPaths.each(function(d, i) {
@@ -536,6 +448,10 @@ export function TeleporterSankeyDiagram() {
       
       // Add interaction to links
       linkPaths
+        .on('click', function(event, d) {
+          handleLinkClick(d);
+          event.stopPropagation();
+        })
         .on('mouseover', function(event, d) {
           // Highlight the link
           d3.select(this)
@@ -777,27 +693,22 @@ export function TeleporterSankeyDiagram() {
         .text(err instanceof Error ? err.message : 'Unknown error');
     }
     
-  }, [data, getChainColor, selectedChain, navigate, handleNodeClick]);
+  }, [data, registry, layoutVersion, getChainColor, selectedChain, navigate, handleNodeClick, handleLinkClick]);
 
-  // Handle window resize
+  // Redraw the diagram on resize
   useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
     const handleResize = () => {
-      if (data) {
-        // Redraw the diagram on resize
-        const timer = setTimeout(() => {
-          if (svgRef.current && containerRef.current) {
-            d3.select(svgRef.current).selectAll('*').remove();
-            // This will trigger the useEffect that draws the diagram
-            setData({...data});
-          }
-        }, 100);
-        return () => clearTimeout(timer);
-      }
+      clearTimeout(timer);
+      timer = setTimeout(() => setLayoutVersion(version => version + 1), 100);
     };
     
     window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [data]);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
 
   // Format large numbers with appropriate suffixes
   const formatNumber = (num: number): string => {
@@ -829,7 +740,52 @@ export function TeleporterSankeyDiagram() {
     return `${diffDays} day${diffDays === 1 ? '' : 's'} ago`;
   };
 
-  if (loading) {
+  const header = (
+    <div className="flex justify-between items-center mb-4">
+      <div className="flex items-center gap-2">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Avalanche Interchain Messages (ICM)
+        </h3>
+      </div>
+      
+      <div className="flex items-center gap-3">
+        {/* Toggle switch for daily/weekly data */}
+        <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex items-center">
+          <button
+            onClick={() => setTimeframe('daily')}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              timeframe === 'daily'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
+            }`}
+          >
+            Daily
+          </button>
+          <button
+            onClick={() => setTimeframe('weekly')}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              timeframe === 'weekly'
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
+            }`}
+          >
+            Weekly
+          </button>
+        </div>
+        
+        <button 
+          onClick={messagesQuery.refetch}
+          disabled={messagesQuery.fetching}
+          className="p-1.5 rounded-full bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600 transition-colors"
+          title="Refresh data"
+        >
+          <RefreshCw className={`w-4 h-4 ${messagesQuery.fetching ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+    </div>
+  );
+
+  if (messagesQuery.loading || chainsLoading) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6 h-full">
         <div className="h-[400px] flex flex-col items-center justify-center">
@@ -840,19 +796,26 @@ export function TeleporterSankeyDiagram() {
     );
   }
 
+  // Nothing is drawn without real data, so an outage can't be mistaken for actual flows
   if (!data) {
     return (
       <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6 h-full">
-        <div className="h-[400px] flex flex-col items-center justify-center">
+        {header}
+        <div className="h-[400px] flex flex-col items-center justify-center text-center rounded-lg border border-dashed border-gray-300 dark:border-gray-600 px-6">
           <AlertTriangle className="h-12 w-12 text-yellow-500 mb-4" />
-          <p className="text-gray-600 dark:text-gray-300 text-center mb-4">
-            No Teleporter message data available
+          <p className="font-medium text-gray-900 dark:text-white mb-1">
+            Message flows are unavailable
+          </p>
+          <p className="text-sm text-gray-600 dark:text-gray-300 max-w-sm mb-4">
+            {messagesQuery.error?.message || 'The API returned no data'}. The diagram only shows live
+            Teleporter data and will appear once the API responds.
           </p>
           <button 
-            onClick={fetchData}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            onClick={messagesQuery.refetch}
+            disabled={messagesQuery.fetching}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${messagesQuery.fetching ? 'animate-spin' : ''}`} />
             Retry
           </button>
         </div>
@@ -862,54 +825,16 @@ export function TeleporterSankeyDiagram() {
 
   return (
     <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6 h-full">
-      <div className="flex justify-between items-center mb-4">
-        <div className="flex items-center gap-2">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-            Avalanche Interchain Messages (ICM)
-          </h3>
-        </div>
-        
-        <div className="flex items-center gap-3">
-          {/* Toggle switch for daily/weekly data */}
-          <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex items-center">
-            <button
-              onClick={() => setTimeframe('daily')}
-              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-                timeframe === 'daily'
-                  ? 'bg-blue-500 text-white'
-                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-              }`}
-            >
-              Daily
-            </button>
-            <button
-              onClick={() => setTimeframe('weekly')}
-              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-                timeframe === 'weekly'
-                  ? 'bg-blue-500 text-white'
-                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
-              }`}
-            >
-              Weekly
-            </button>
-          </div>
-          
-          <button 
-            onClick={fetchData}
-            className="p-1.5 rounded-full bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600 transition-colors"
-            title="Refresh data"
-          >
-            <RefreshCw className="w-4 h-4" />
-          </button>
-        </div>
-      </div>
+      {header}
       
-      {error && (
+      {(fromSnapshot || messagesQuery.error) && (
         <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 mb-4 flex items-start gap-2">
           <AlertTriangle className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
           <div>
             <p className="text-sm text-yellow-700 dark:text-yellow-300">
-              {error}
+              {fromSnapshot && offlineSnapshot.age !== null
+                ? `The API is unreachable. Showing saved flows from ${formatSnapshotAge(offlineSnapshot.age)} ago.`
+                : 'Refreshing failed. Showing the last flows that loaded.'}
             </p>
           </div>
         </div>
@@ -962,6 +887,11 @@ export function TeleporterSankeyDiagram() {
             <div className="text-gray-600 dark:text-gray-300">
               {((hoveredLink.value / data.metadata.totalMessages) * 100).toFixed(1)}% of total
             </div>
+            <div className="text-xs text-blue-500 dark:text-blue-400 mt-1">
+              {hoveredLink.source.unknownNames || hoveredLink.target.unknownNames
+                ? 'Includes chains that could not be identified'
+                : 'Click to see this route over time'}
+            </div>
           </div>
         )}
         
@@ -984,8 +914,13 @@ export function TeleporterSankeyDiagram() {
             <div className="text-gray-600 dark:text-gray-300">
               {((hoveredNode.value || 0) / data.metadata.totalMessages * 100).toFixed(1)}% of total
             </div>
+            {hoveredNode.unknownNames && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 max-w-[16rem]">
+                Not in the chain list: {hoveredNode.unknownNames.join(', ')}
+              </div>
+            )}
             <div className="text-xs text-blue-500 dark:text-blue-400 mt-1">
-              Click to {findChainId(hoveredNode.originalName || '') ? 'view chain details' : selectedChain === hoveredNode.name ? 'reset filter' : 'filter connections'}
+              Click to {hoveredNode.chainId ? 'view chain details' : selectedChain === hoveredNode.name ? 'reset filter' : 'filter connections'}
             </div>
           </div>
         )}
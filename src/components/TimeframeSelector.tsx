@@ -0,0 +1,116 @@
+import { useEffect, useId, useRef, useState } from 'react';
+import { Calendar } from 'lucide-react';
+import { Timeframe, TimeframePreset } from '../types';
+import { TIMEFRAME_PRESETS, isDateRange, parseIsoDate, toIsoDate } from '../utils/timeframe';
+
+interface TimeframeSelectorProps {
+  value: Timeframe;
+  onChange: (timeframe: Timeframe) => void;
+  // Presets to offer; defaults to all of them
+  presets?: TimeframePreset[];
+  allowCustom?: boolean;
+}
+
+const pillClassName = (active: boolean) => `flex-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors whitespace-nowrap ${
+  active
+    ? 'bg-blue-500 text-white'
+    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-dark-600'
+}`;
+
+const dateInputClassName = 'block w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-dark-800 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export function TimeframeSelector({ value, onChange, presets, allowCustom = true }: TimeframeSelectorProps) {
+  const options = presets
+    ? TIMEFRAME_PRESETS.filter(option => presets.includes(option.value))
+    : TIMEFRAME_PRESETS;
+  const custom = isDateRange(value);
+  const today = toIsoDate(Date.now() / 1000);
+
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [start, setStart] = useState(() => (custom ? toIsoDate(value.start) : ''));
+  const [end, setEnd] = useState(() => (custom ? toIsoDate(value.end) : today));
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputId = useId();
+
+  // Close the picker when clicking outside it
+  useEffect(() => {
+    if (!isPickerOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsPickerOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isPickerOpen]);
+
+  const startTime = parseIsoDate(start);
+  const endTime = parseIsoDate(end);
+  const rangeValid = startTime !== null && endTime !== null && startTime <= endTime;
+
+  const applyRange = () => {
+    if (startTime === null || endTime === null || startTime > endTime) return;
+    onChange({ start: startTime, end: endTime });
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 flex">
+        {options.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value)}
+            className={pillClassName(value === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+        {allowCustom && (
+          <button
+            onClick={() => setIsPickerOpen(!isPickerOpen)}
+            className={`inline-flex items-center gap-1 ${pillClassName(custom)}`}
+            aria-expanded={isPickerOpen}
+            title={custom ? `${toIsoDate(value.start)} to ${toIsoDate(value.end)}` : 'Custom range'}
+          >
+            <Calendar className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">Custom</span>
+          </button>
+        )}
+      </div>
+
+      {isPickerOpen && (
+        <div className="absolute right-0 mt-2 w-64 p-4 bg-white dark:bg-dark-800 rounded-lg shadow-lg border border-gray-200 dark:border-dark-700 z-20 space-y-3">
+          <div>
+            <label htmlFor={`${inputId}-start`} className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">From</label>
+            <input
+              id={`${inputId}-start`}
+              type="date"
+              value={start}
+              max={end || today}
+              onChange={(e) => setStart(e.target.value)}
+              className={dateInputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor={`${inputId}-end`} className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">To</label>
+            <input
+              id={`${inputId}-end`}
+              type="date"
+              value={end}
+              min={start || undefined}
+              max={today}
+              onChange={(e) => setEnd(e.target.value)}
+              className={dateInputClassName}
+            />
+          </div>
+          <button
+            onClick={applyRange}
+            disabled={!rangeValid}
+            className="w-full px-3 py-1.5 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
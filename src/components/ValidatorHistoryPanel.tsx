@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { format } from 'date-fns';
+import { History, UserPlus, UserMinus, TrendingUp, TrendingDown, RefreshCw } from 'lucide-react';
+import { getValidatorHistory, queryKeys } from '../api';
+import { Timeframe, TimeframePreset } from '../types';
+import { TimeframeSelector } from './TimeframeSelector';
+import { getTimeframeDays, isDateRange } from '../utils/timeframe';
+import { timeframeParam } from '../utils/urlState';
+import { useUrlState } from '../hooks/useUrlState';
+import { useQuery } from '../hooks/useQuery';
+import { useTheme } from '../hooks/useTheme';
+import { diffValidatorSets, getUptimeSeries } from '../utils/validatorHistory';
+import { getValidatorColor } from './StakeDistributionChart';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface ValidatorHistoryPanelProps {
+  chainId: string;
+}
+
+// Uptime lines for more validators than this become unreadable
+const MAX_UPTIME_LINES = 6;
+const MAX_LISTED_CHANGES = 5;
+
+// Snapshot history only comes in fixed-length windows
+const HISTORY_PRESETS: TimeframePreset[] = [7, 14, 30, 90];
+const DEFAULT_TIMEFRAME: Timeframe = 30;
+
+const shortenAddress = (address: string) =>
+  address.length > 20 ? `${address.slice(0, 12)}...${address.slice(-6)}` : address;
+
+export function ValidatorHistoryPanel({ chainId }: ValidatorHistoryPanelProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [requestedTimeframe, setTimeframe] = useUrlState('history', DEFAULT_TIMEFRAME, timeframeParam);
+  const timeframe = !isDateRange(requestedTimeframe) && HISTORY_PRESETS.includes(requestedTimeframe)
+    ? requestedTimeframe
+    : DEFAULT_TIMEFRAME;
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const historyQuery = useQuery(
+    queryKeys.validatorHistory(chainId, getTimeframeDays(timeframe)),
+    () => getValidatorHistory(chainId, getTimeframeDays(timeframe))
+  );
+  const snapshots = useMemo(() => historyQuery.data ?? [], [historyQuery.data]);
+
+  // Jump back to the latest snapshot whenever the window changes
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [chainId, timeframe]);
+
+  const index = selectedIndex ?? snapshots.length - 1;
+  const snapshot = snapshots[index];
+  const previous = index > 0 ? snapshots[index - 1] : undefined;
+
+  const diff = useMemo(
+    () => snapshot && previous ? diffValidatorSets(previous.validators, snapshot.validators) : null,
+    [snapshot, previous]
+  );
+
+  const chartData = useMemo(() => {
+    if (!snapshot) return null;
+
+    const addresses = [...snapshot.validators]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_UPTIME_LINES)
+      .map(validator => validator.address);
+    const series = getUptimeSeries(snapshots, addresses);
+
+    return {
+      labels: snapshots.map(item => format(new Date(item.timestamp * 1000), 'MMM d')),
+      datasets: addresses.map((address, i) => ({
+        label: shortenAddress(address),
+        data: series.get(address) ?? [],
+        borderColor: getValidatorColor(i, isDark),
+        backgroundColor: getValidatorColor(i, isDark, 0.2),
+        borderWidth: 2,
+        tension: 0.3,
+        spanGaps: false,
+        // Highlight the snapshot selected on the slider
+        pointRadius: snapshots.map((_, pointIndex) => pointIndex === index ? 4 : 0),
+      })),
+    };
+  }, [snapshots, snapshot, index, isDark]);
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { color: isDark ? '#e2e8f0' : '#1e293b', boxWidth: 12, font: { size: 11 } },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        callbacks: {
+          label: (context: { dataset: { label?: string }; parsed: { y: number | null } }) =>
+            context.parsed.y === null ? '' : `${context.dataset.label}: ${context.parsed.y.toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', maxTicksLimit: 8 },
+      },
+      y: {
+        suggestedMin: 80,
+        max: 100,
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', callback: (value: string | number) => `${value}%` },
+      },
+    },
+  };
+
+  const header = (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-blue-500" />
+        <h3 className="font-semibold text-gray-900 dark:text-white">Validator History</h3>
+      </div>
+      <TimeframeSelector value={timeframe} onChange={setTimeframe} presets={HISTORY_PRESETS} allowCustom={false} />
+    </div>
+  );
+
+  if (historyQuery.loading) {
+    return (
+      <div>
+        {header}
+        <div className="h-64 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div>
+        {header}
+        <div className="h-64 flex flex-col items-center justify-center gap-4">
+          <p className="text-gray-600 dark:text-gray-300">
+            {historyQuery.error ? 'Failed to load validator history' : 'No validator history available'}
+          </p>
+          <button
+            onClick={historyQuery.refetch}
+            disabled={historyQuery.fetching}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${historyQuery.fetching ? 'animate-spin' : ''}`} />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const totalWeight = snapshot.validators.reduce((sum, validator) => sum + validator.weight, 0);
+
+  return (
+    <div>
+      {header}
+
+      {/* Time slider over stored snapshots */}
+      <div className="mb-6">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="text-gray-500 dark:text-gray-400">
+            {format(new Date(snapshots[0].timestamp * 1000), 'MMM d')}
+          </span>
+          <span className="font-medium text-gray-900 dark:text-white">
+            {format(new Date(snapshot.timestamp * 1000), 'MMM d, yyyy')}
+          </span>
+          <span className="text-gray-500 dark:text-gray-400">
+            {format(new Date(snapshots[snapshots.length - 1].timestamp * 1000), 'MMM d')}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={snapshots.length - 1}
+          value={index}
+          onChange={(e) => setSelectedIndex(Number(e.target.value))}
+          className="w-full accent-blue-500"
+          aria-label="Validator snapshot date"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Validators</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{snapshot.validators.length}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Joined</p>
+          <p className="text-2xl font-bold text-green-600 dark:text-green-400">+{diff?.joined.length ?? 0}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Left</p>
+          <p className="text-2xl font-bold text-red-600 dark:text-red-400">-{diff?.left.length ?? 0}</p>
+        </div>
+        <div className="bg-gray-50 dark:bg-dark-800/50 rounded-lg p-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Total Stake</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">{totalWeight.toLocaleString()}</p>
+          {diff && diff.totalWeightDelta !== 0 && (
+            <p className={`text-xs ${diff.totalWeightDelta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {diff.totalWeightDelta > 0 ? '+' : ''}{diff.totalWeightDelta.toLocaleString()}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {previous
+          ? `Changes since ${format(new Date(previous.timestamp * 1000), 'MMM d')}`
+          : 'Earliest stored snapshot'}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+            <UserPlus className="w-4 h-4 text-green-500" />
+            Joined
+          </h4>
+          {diff?.joined.length ? (
+            <ul className="space-y-1">
+              {diff.joined.map(validator => (
+                <li key={validator.address} className="text-xs font-mono text-gray-700 dark:text-gray-300" title={validator.address}>
+                  {shortenAddress(validator.address)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+            <UserMinus className="w-4 h-4 text-red-500" />
+            Left
+          </h4>
+          {diff?.left.length ? (
+            <ul className="space-y-1">
+              {diff.left.map(validator => (
+                <li key={validator.address} className="text-xs font-mono text-gray-700 dark:text-gray-300" title={validator.address}>
+                  {shortenAddress(validator.address)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white mb-2">
+            <TrendingUp className="w-4 h-4 text-blue-500" />
+            Largest Weight Changes
+          </h4>
+          {diff?.weightChanges.length ? (
+            <ul className="space-y-1">
+              {diff.weightChanges.slice(0, MAX_LISTED_CHANGES).map(change => (
+                <li key={change.address} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-mono text-gray-700 dark:text-gray-300" title={change.address}>
+                    {shortenAddress(change.address)}
+                  </span>
+                  <span className={`inline-flex items-center gap-1 ${change.delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {change.delta > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                    {change.delta > 0 ? '+' : ''}{change.delta.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+          )}
+        </div>
+      </div>
+
+      {chartData && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+            Uptime Trend (top {chartData.datasets.length} by stake)
+          </h4>
+          <div className="h-64">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
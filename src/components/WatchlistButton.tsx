@@ -0,0 +1,34 @@
+import { Star } from 'lucide-react';
+import { useWatchlist } from '../hooks/useWatchlist';
+
+interface WatchlistButtonProps {
+  chainId: string;
+  chainName: string;
+  className?: string;
+}
+
+export function WatchlistButton({ chainId, chainName, className = '' }: WatchlistButtonProps) {
+  const { isStarred, toggle } = useWatchlist();
+  const starred = isStarred(chainId);
+  const label = starred ? `Remove ${chainName} from watchlist` : `Add ${chainName} to watchlist`;
+
+  return (
+    <button
+      onClick={(e) => {
+        // Cards navigate on click, so keep the star from opening the chain
+        e.stopPropagation();
+        toggle(chainId);
+      }}
+      className={`p-1.5 rounded-full transition-colors hover:bg-gray-100 dark:hover:bg-dark-700 ${className}`}
+      aria-label={label}
+      aria-pressed={starred}
+      title={label}
+    >
+      <Star
+        className={`w-5 h-5 ${
+          starred ? 'text-yellow-400 fill-yellow-400' : 'text-gray-400 dark:text-gray-500'
+        }`}
+      />
+    </button>
+  );
+}
@@ -0,0 +1,166 @@
+import { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Star, Download, Upload, Server } from 'lucide-react';
+import { getTPSHistory, queryKeys } from '../api';
+import { Chain } from '../types';
+import { useQuery } from '../hooks/useQuery';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { watchlist } from '../services/watchlist';
+import { WatchlistButton } from './WatchlistButton';
+
+const SPARKLINE_DAYS = 7;
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 32;
+
+interface WatchlistSectionProps {
+  chains: Chain[];
+}
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) {
+    return <div className="h-8 flex items-center text-xs text-gray-400 dark:text-gray-500">No TPS history</div>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values.map((value, i) => {
+    const x = (i / (values.length - 1)) * SPARKLINE_WIDTH;
+    const y = SPARKLINE_HEIGHT - 2 - ((value - min) / range) * (SPARKLINE_HEIGHT - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const trendUp = values[values.length - 1] >= values[0];
+
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      className={trendUp ? 'text-green-500 dark:text-green-400' : 'text-red-500 dark:text-red-400'}
+      aria-hidden="true"
+    >
+      <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+function WatchlistItem({ chain }: { chain: Chain }) {
+  const navigate = useNavigate();
+  const { data: history } = useQuery(
+    queryKeys.tpsHistory(SPARKLINE_DAYS, chain.chainId),
+    () => getTPSHistory(SPARKLINE_DAYS, chain.chainId)
+  );
+  const values = useMemo(() => (history ?? []).map(item => item.totalTps), [history]);
+
+  return (
+    <div
+      className="flex items-center gap-3 p-4 rounded-lg bg-gray-50 dark:bg-dark-800/50 cursor-pointer hover:bg-gray-100 dark:hover:bg-dark-700 transition-colors"
+      onClick={() => navigate(`/chain/${chain.chainId}`)}
+    >
+      {chain.chainLogoUri ? (
+        <img src={chain.chainLogoUri} alt={`${chain.chainName} logo`} className="w-8 h-8 rounded-lg" />
+      ) : (
+        <div className="w-8 h-8 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+          <Server className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="font-semibold text-gray-900 dark:text-white truncate">{chain.chainName}</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {chain.tps ? `${chain.tps.value.toFixed(2)} TPS` : 'TPS N/A'}
+        </p>
+      </div>
+      <Sparkline values={values} />
+      <WatchlistButton chainId={chain.chainId} chainName={chain.chainName} />
+    </div>
+  );
+}
+
+export function WatchlistSection({ chains }: WatchlistSectionProps) {
+  const { chainIds } = useWatchlist();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Starred chains missing from the current chain list are skipped
+  const starredChains = useMemo(
+    () => chainIds
+      .map(id => chains.find(chain => chain.chainId === id))
+      .filter((chain): chain is Chain => !!chain),
+    [chainIds, chains]
+  );
+
+  const handleExport = () => {
+    const blob = new Blob([watchlist.export()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'l1beat-watchlist.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const added = watchlist.import(await file.text());
+      setMessage({ text: added > 0 ? `Imported ${added} chain${added === 1 ? '' : 's'}` : 'No new chains to import', isError: false });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to import watchlist', isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Star className="w-5 h-5 text-yellow-400 fill-yellow-400" />
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Watchlist</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          {message && (
+            <span className={`text-xs ${message.isError ? 'text-red-500 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+              {message.text}
+            </span>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+          >
+            <Upload className="w-4 h-4 mr-1.5" />
+            Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={chainIds.length === 0}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4 mr-1.5" />
+            Export
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {starredChains.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Star a chain to pin it here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {starredChains.map(chain => (
+            <WatchlistItem key={chain.chainId} chain={chain} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,13 @@ import { z } from 'zod';
 
 // Define a schema for environment variables
 const envSchema = z.object({
-  VITE_API_BASE_URL: z.string().url(),
+  VITE_API_BASE_URL: z.string().url().optional(),
+  // Serve every api.ts and blogApi.ts request from seeded fixtures instead of the network
+  VITE_USE_MOCK_API: z.enum(['true', 'false']).optional(),
+  VITE_MOCK_SEED: z.coerce.number().int().optional(),
+}).refine(env => env.VITE_USE_MOCK_API === 'true' || env.VITE_API_BASE_URL, {
+  message: 'VITE_API_BASE_URL is required unless VITE_USE_MOCK_API is enabled',
+  path: ['VITE_API_BASE_URL'],
 });
 
 // Parse environment variables
@@ -10,5 +16,7 @@ const env = envSchema.parse(import.meta.env);
 
 // Configuration object
 export const config = {
-  apiBaseUrl: env.VITE_API_BASE_URL,
-} as const;
\ No newline at end of file
+  apiBaseUrl: env.VITE_API_BASE_URL ?? '',
+  useMockApi: env.VITE_USE_MOCK_API === 'true',
+  mockSeed: env.VITE_MOCK_SEED,
+} as const;
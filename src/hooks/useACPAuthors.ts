@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { ACPAuthorProfile, buildAuthorProfiles } from '../utils/acpAuthors';
+import { useACPs } from './useACPs';
+
+export interface ACPAuthorsState {
+  authors: ACPAuthorProfile[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load every ACP and group them into author profiles
+ * @returns Author profiles, most prolific first, and load state
+ */
+export function useACPAuthors(): ACPAuthorsState {
+  const { acps, loading, error } = useACPs();
+  const authors = useMemo(() => buildAuthorProfiles(acps), [acps]);
+
+  return { authors, loading, error };
+}
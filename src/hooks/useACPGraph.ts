@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { EnhancedACP } from '../types';
+import { ACPGraph, buildACPGraph } from '../utils/acpGraph';
+import { useACPs } from './useACPs';
+
+export interface ACPGraphState {
+  acps: EnhancedACP[];
+  graph: ACPGraph;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load every ACP and build the relationship graph between them
+ * @returns The ACPs, their graph with detected cycles and missing references, and load state
+ */
+export function useACPGraph(): ACPGraphState {
+  const { acps, loading, error } = useACPs();
+  const graph = useMemo(() => buildACPGraph(acps), [acps]);
+
+  return { acps, graph, loading, error };
+}
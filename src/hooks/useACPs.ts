@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { acpService } from '../services/acpService';
+import { EnhancedACP } from '../types';
+
+export interface ACPsState {
+  acps: EnhancedACP[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Load every ACP from the generated index
+ * @returns The ACPs and load state
+ */
+export function useACPs(): ACPsState {
+  const [acps, setAcps] = useState<EnhancedACP[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function fetchACPs() {
+      try {
+        setLoading(true);
+        setError(null);
+        const acpsData = await acpService.loadACPs();
+        if (!mounted) return;
+        if (acpsData.length === 0) {
+          throw new Error('No ACPs found. Make sure the submodule is initialized and the build script has been run.');
+        }
+        setAcps(acpsData);
+      } catch (err) {
+        if (!mounted) return;
+        console.error('Error loading ACPs:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load ACPs');
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchACPs();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return { acps, loading, error };
+}
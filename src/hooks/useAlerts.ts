@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { alerts, AlertState } from '../services/alerts';
+
+/**
+ * Alert rules and history from the local alert store
+ * @returns Current rules and alert history, updated as they change
+ */
+export function useAlerts(): AlertState {
+  const [state, setState] = useState<AlertState>(() => alerts.getState());
+
+  useEffect(() => alerts.subscribe(setState), []);
+
+  return state;
+}
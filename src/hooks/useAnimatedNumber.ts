@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+
+const DEFAULT_DURATION = 600;
+
+/**
+ * Tween towards a numeric value whenever it changes
+ * @param value Target value
+ * @param duration Animation length in milliseconds
+ * @returns The value to render on the current frame
+ */
+export function useAnimatedNumber(value: number, duration: number = DEFAULT_DURATION): number {
+  const [displayed, setDisplayed] = useState(value);
+  const displayedRef = useRef(value);
+
+  useEffect(() => {
+    const from = displayedRef.current;
+    const reduceMotion = typeof window.matchMedia === 'function'
+      && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+    if (from === value || !Number.isFinite(from) || !Number.isFinite(value) || reduceMotion) {
+      displayedRef.current = value;
+      setDisplayed(value);
+      return;
+    }
+
+    const start = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = Math.min(1, (now - start) / duration);
+      // Ease out cubic
+      const eased = 1 - Math.pow(1 - progress, 3);
+      displayedRef.current = from + (value - from) * eased;
+      setDisplayed(displayedRef.current);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [value, duration]);
+
+  return displayed;
+}
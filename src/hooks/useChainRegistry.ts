@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { getChains, queryKeys } from '../api';
+import { createChainRegistry, ChainRegistry } from '../services/chainRegistry';
+import { useQuery } from './useQuery';
+
+/**
+ * Chain registry over the shared chains query
+ * @returns Registry that resolves chain IDs, names and aliases, plus the query's loading flag
+ */
+export function useChainRegistry(): { registry: ChainRegistry; loading: boolean } {
+  const chainsQuery = useQuery(queryKeys.chains, getChains);
+  const registry = useMemo(() => createChainRegistry(chainsQuery.data ?? []), [chainsQuery.data]);
+  return { registry, loading: chainsQuery.loading };
+}
@@ -0,0 +1,218 @@
+import { createContext, useContext, useEffect, useId, useMemo, useRef } from 'react';
+import type { Chart as ChartJS, Plugin } from 'chart.js';
+import { DateRange, Timeframe } from '../types';
+import { timeframeParam } from '../utils/urlState';
+import { useUrlState } from './useUrlState';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Brushes narrower than this are treated as clicks
+const MIN_BRUSH_PIXELS = 8;
+
+// Chart.js defaults plus the mouse buttons used for brushing
+const SYNC_EVENTS: (keyof HTMLElementEventMap)[] = [
+  'mousemove', 'mouseout', 'mousedown', 'mouseup', 'click', 'touchstart', 'touchmove',
+];
+
+export interface ChartHover {
+  // UTC day (unix seconds at midnight) under the cursor
+  date: number;
+  // Chart the cursor is on; it already shows its own tooltip
+  source: string;
+}
+
+type HoverListener = (hover: ChartHover | null) => void;
+
+/**
+ * Cursor position shared between charts. Kept outside React state so moving
+ * the mouse redraws the charts without re-rendering them.
+ */
+export function createHoverChannel() {
+  let current: ChartHover | null = null;
+  const listeners = new Set<HoverListener>();
+
+  return {
+    get: () => current,
+    set(hover: ChartHover | null) {
+      if (current?.date === hover?.date && current?.source === hover?.source) return;
+      current = hover;
+      listeners.forEach(listener => listener(current));
+    },
+    subscribe(listener: HoverListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export interface ChartSyncState {
+  timeframe: Timeframe;
+  setTimeframe: (timeframe: Timeframe) => void;
+  // Range brushed on any chart; cleared whenever the timeframe changes
+  zoom: DateRange | null;
+  setZoom: (zoom: DateRange | null) => void;
+  hover: ReturnType<typeof createHoverChannel>;
+}
+
+export const ChartSyncContext = createContext<ChartSyncState | null>(null);
+
+/**
+ * Shared chart state when rendered inside a ChartSyncProvider, otherwise null
+ */
+export function useChartSync() {
+  return useContext(ChartSyncContext);
+}
+
+/**
+ * Timeframe for a chart: the shared one inside a ChartSyncProvider, otherwise
+ * the chart's own, kept in a URL parameter
+ * @param initial Timeframe to start with when the chart is not synced
+ * @param urlParam Query parameter holding the chart's own timeframe
+ */
+export function useSyncedTimeframe(initial: Timeframe, urlParam = 'range') {
+  const sync = useChartSync();
+  const [timeframe, setTimeframe] = useUrlState(urlParam, initial, timeframeParam);
+
+  return sync
+    ? { timeframe: sync.timeframe, setTimeframe: sync.setTimeframe, zoom: sync.zoom }
+    : { timeframe, setTimeframe, zoom: null };
+}
+
+// Index of the point closest to a date, or -1 when the date is off the chart
+function findNearestIndex(timestamps: number[], date: number): number {
+  if (!timestamps.length) return -1;
+  if (date < timestamps[0] - DAY_SECONDS || date > timestamps[timestamps.length - 1] + DAY_SECONDS) return -1;
+
+  let nearest = 0;
+  timestamps.forEach((timestamp, index) => {
+    if (Math.abs(timestamp - date) < Math.abs(timestamps[nearest] - date)) nearest = index;
+  });
+  return nearest;
+}
+
+const toDay = (timestamp: number) => Math.floor(timestamp / DAY_SECONDS) * DAY_SECONDS;
+
+/**
+ * Wire a line chart into the surrounding ChartSyncProvider: hovering publishes
+ * the date under the cursor, other charts' cursors show a crosshair and tooltip
+ * here, and dragging across the plot zooms every chart to that range.
+ * Does nothing outside a provider.
+ * @param chartRef Ref passed to the react-chartjs-2 chart
+ * @param timestamps Unix timestamp (seconds) of each plotted point, in order
+ * @returns Plugins and options to merge into the chart
+ */
+export function useSyncedChart(chartRef: React.RefObject<ChartJS<'line'> | null>, timestamps: number[]) {
+  const sync = useChartSync();
+  const id = useId();
+  const syncRef = useRef(sync);
+  const timestampsRef = useRef(timestamps);
+  const brushRef = useRef<{ start: number; end: number } | null>(null);
+
+  useEffect(() => {
+    syncRef.current = sync;
+    timestampsRef.current = timestamps;
+  });
+
+  // Follow the cursor on the other charts
+  useEffect(() => {
+    if (!sync) return;
+    return sync.hover.subscribe(hover => {
+      const chart = chartRef.current;
+      if (!chart || hover?.source === id) return;
+
+      const index = hover ? findNearestIndex(timestampsRef.current, hover.date) : -1;
+      const point = index >= 0 ? chart.getDatasetMeta(0).data[index] : undefined;
+      const active = point ? chart.data.datasets.map((_, datasetIndex) => ({ datasetIndex, index })) : [];
+      chart.setActiveElements(active);
+      chart.tooltip?.setActiveElements(active, { x: point?.x ?? 0, y: point?.y ?? 0 });
+      chart.update('none');
+    });
+  }, [sync, id, chartRef]);
+
+  const plugin = useMemo<Plugin<'line'>>(() => ({
+    id: 'chartSync',
+    afterEvent(chart, args) {
+      const { event } = args;
+      const current = syncRef.current;
+      if (!current) return;
+
+      if (event.type === 'mouseout') {
+        brushRef.current = null;
+        current.hover.set(null);
+        args.changed = true;
+        return;
+      }
+      if (event.x === null) return;
+
+      const { left, right } = chart.chartArea;
+      const x = Math.min(right, Math.max(left, event.x));
+      const points = timestampsRef.current;
+      const indexAt = (pixel: number) =>
+        Math.min(points.length - 1, Math.max(0, Math.round(chart.scales.x.getValueForPixel(pixel) ?? 0)));
+
+      switch (event.type) {
+        case 'mousedown':
+          if (args.inChartArea) brushRef.current = { start: x, end: x };
+          break;
+        case 'mousemove':
+          current.hover.set(args.inChartArea && points.length
+            ? { date: toDay(points[indexAt(x)]), source: id }
+            : null);
+          if (brushRef.current) {
+            brushRef.current.end = x;
+            args.changed = true;
+          }
+          break;
+        case 'mouseup': {
+          const brush = brushRef.current;
+          brushRef.current = null;
+          if (!brush || Math.abs(brush.end - brush.start) < MIN_BRUSH_PIXELS || !points.length) break;
+          const from = indexAt(Math.min(brush.start, brush.end));
+          const to = indexAt(Math.max(brush.start, brush.end));
+          if (to > from) current.setZoom({ start: toDay(points[from]), end: toDay(points[to]) });
+          args.changed = true;
+          break;
+        }
+      }
+    },
+    afterDatasetsDraw(chart) {
+      const { ctx, chartArea } = chart;
+      const active = chart.getActiveElements()[0];
+      const brush = brushRef.current;
+
+      ctx.save();
+      if (active) {
+        ctx.beginPath();
+        ctx.setLineDash([4, 4]);
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = 'rgba(148, 163, 184, 0.7)';
+        ctx.moveTo(active.element.x, chartArea.top);
+        ctx.lineTo(active.element.x, chartArea.bottom);
+        ctx.stroke();
+      }
+      if (brush) {
+        ctx.fillStyle = 'rgba(59, 130, 246, 0.15)';
+        ctx.fillRect(
+          Math.min(brush.start, brush.end),
+          chartArea.top,
+          Math.abs(brush.end - brush.start),
+          chartArea.bottom - chartArea.top
+        );
+      }
+      ctx.restore();
+    },
+  }), [id]);
+
+  return useMemo(() => sync
+    ? {
+        plugins: [plugin],
+        options: {
+          events: SYNC_EVENTS,
+          interaction: { mode: 'index' as const, intersect: false },
+        },
+      }
+    : { plugins: [], options: {} },
+  [sync, plugin]);
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { liveMode, LiveInterval } from '../services/liveMode';
+
+/**
+ * Dashboard live mode setting
+ * @returns Selected polling interval (0 when off) and a setter
+ */
+export function useLiveMode() {
+  const [interval, setIntervalState] = useState<LiveInterval>(() => liveMode.getInterval());
+
+  useEffect(() => liveMode.subscribe(setIntervalState), []);
+
+  return { interval, setLiveInterval: liveMode.setInterval };
+}
+
+/**
+ * Polling interval for a widget: the live mode interval when live mode is
+ * on, otherwise the widget's own background refresh interval
+ * @param fallback Interval to use when live mode is off
+ */
+export function useLiveRefetchInterval(fallback?: number): number | undefined {
+  const { interval } = useLiveMode();
+  return interval || fallback;
+}
@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'react';
+import { offlineCache, OfflineStatus } from '../services/offlineCache';
+
+const AGE_REFRESH_INTERVAL = 60 * 1000; // 1 minute
+
+export interface OfflineSnapshotState extends OfflineStatus {
+  // Milliseconds since the oldest snapshot on screen was fetched
+  age: number | null;
+}
+
+/**
+ * Track whether dashboard data is being served from the IndexedDB snapshot
+ * @returns Offline flag, snapshot fetch time and its age, refreshed every minute
+ */
+export function useOfflineSnapshot(): OfflineSnapshotState {
+  const [status, setStatus] = useState<OfflineStatus>(() => offlineCache.getStatus());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => offlineCache.subscribe(nextStatus => {
+    setStatus(nextStatus);
+    setNow(Date.now());
+  }), []);
+
+  // Keep the displayed age current while offline
+  useEffect(() => {
+    if (!status.offline) return;
+    const interval = setInterval(() => setNow(Date.now()), AGE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [status.offline]);
+
+  return {
+    ...status,
+    age: status.snapshotAt !== null ? Math.max(0, now - status.snapshotAt) : null,
+  };
+}
+
+/**
+ * Format a snapshot age for display, e.g. "5 min", "3 h", "2 d"
+ */
+export function formatSnapshotAge(age: number): string {
+  const minutes = Math.floor(age / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h`;
+  return `${Math.floor(hours / 24)} d`;
+}
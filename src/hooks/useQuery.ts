@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { queryClient } from '../services/queryClient';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  refetchInterval?: number;
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: Error | null;
+  loading: boolean;
+  fetching: boolean;
+  updatedAt: number | null;
+  refetch: () => void;
+}
+
+interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  loading: boolean;
+  fetching: boolean;
+  updatedAt: number | null;
+}
+
+function getInitialState<T>(key: string | null): QueryState<T> {
+  const entry = key ? queryClient.getEntry<T>(key) : undefined;
+  return {
+    data: entry?.data,
+    error: null,
+    loading: !!key && entry?.data === undefined,
+    fetching: false,
+    updatedAt: entry?.updatedAt || null,
+  };
+}
+
+/**
+ * Subscribe a component to a cached api.ts query
+ * @param key Cache key the fetcher writes to (see queryKeys in api.ts), or null to skip
+ * @param fetcher Function that resolves the data through the shared cache
+ * @param options Optional polling interval (paused while the tab is hidden) and enabled flag
+ * @returns Current data, error and loading state plus a refetch trigger
+ */
+export function useQuery<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+): QueryResult<T> {
+  const { enabled = true, refetchInterval } = options;
+  const [state, setState] = useState<QueryState<T>>(() => getInitialState<T>(key));
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!key) {
+      setState(getInitialState<T>(null));
+      return;
+    }
+    if (!enabled) return;
+
+    let active = true;
+    let lastSeen = 0;
+
+    const load = () => {
+      setState(prev => (prev.fetching ? prev : { ...prev, fetching: true }));
+      fetcherRef.current()
+        .then(data => {
+          if (!active) return;
+          const updatedAt = queryClient.getEntry(key)?.updatedAt ?? 0;
+          lastSeen = updatedAt;
+          setState({ data, error: null, loading: false, fetching: false, updatedAt: updatedAt || Date.now() });
+        })
+        .catch(err => {
+          if (!active) return;
+          setState(prev => ({
+            ...prev,
+            error: err instanceof Error ? err : new Error(String(err)),
+            loading: false,
+            fetching: false,
+          }));
+        });
+    };
+
+    setState(getInitialState<T>(key));
+    load();
+
+    // Re-read when another caller refreshes or invalidates this key
+    const unsubscribe = queryClient.subscribe(key, entry => {
+      if (!active || !entry) return;
+      if (entry.invalidated && !entry.error) {
+        load();
+      } else if (!entry.promise && !entry.error && entry.data !== undefined && entry.updatedAt > lastSeen) {
+        load();
+      }
+    });
+
+    // Polling pauses while the tab is hidden and catches up once it is visible again
+    let missedRefetch = false;
+    const interval = refetchInterval
+      ? setInterval(() => {
+          if (document.hidden) {
+            missedRefetch = true;
+            return;
+          }
+          queryClient.invalidate(key, true);
+        }, refetchInterval)
+      : null;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden || !missedRefetch) return;
+      missedRefetch = false;
+      queryClient.invalidate(key, true);
+    };
+    if (interval) document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      active = false;
+      unsubscribe();
+      if (interval) {
+        clearInterval(interval);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      }
+    };
+  }, [key, enabled, refetchInterval]);
+
+  const refetch = useCallback(() => {
+    if (key) queryClient.invalidate(key, true);
+  }, [key]);
+
+  return { ...state, refetch };
+}
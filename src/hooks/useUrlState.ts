@@ -0,0 +1,71 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { UrlParamCodec, UrlParamsSchema, readUrlParams, writeUrlParams } from '../utils/urlState';
+
+export interface UrlStateUpdateOptions {
+  // Replace the current history entry instead of pushing one, e.g. while typing
+  replace?: boolean;
+}
+
+/**
+ * Several values stored in the query string, so the view can be bookmarked or
+ * shared and back/forward navigation restores it. Updates apply all changes
+ * in one history entry.
+ * @param schema Codec and default per parameter; keep it a module constant
+ * @returns Current values and an updater taking the changed values
+ */
+export function useUrlParams<T>(schema: UrlParamsSchema<T>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Only re-parse when one of this schema's parameters changes
+  const scoped = new URLSearchParams();
+  Object.keys(schema).forEach(key => {
+    const value = searchParams.get(key);
+    if (value !== null) scoped.set(key, value);
+  });
+  const signature = scoped.toString();
+  const values = useMemo(() => readUrlParams(schema, new URLSearchParams(signature)), [schema, signature]);
+
+  const update = useCallback((
+    changes: Partial<T> | ((current: T) => Partial<T>),
+    { replace = false }: UrlStateUpdateOptions = {}
+  ) => {
+    // Read the live URL so several updates in one event build on each other
+    const current = new URLSearchParams(window.location.search);
+    const resolved = typeof changes === 'function' ? changes(readUrlParams(schema, current)) : changes;
+    const next = writeUrlParams(schema, current, resolved);
+    if (next.toString() !== current.toString()) {
+      setSearchParams(next, { replace, preventScrollReset: true });
+    }
+  }, [schema, setSearchParams]);
+
+  return [values, update] as const;
+}
+
+/**
+ * A single value stored in a query parameter
+ * @param key Query parameter name
+ * @param defaultValue Used when the parameter is missing or invalid
+ * @param codec How the value is written to the URL
+ * @returns Current value and a setter
+ */
+export function useUrlState<T>(
+  key: string,
+  defaultValue: T,
+  codec: UrlParamCodec<T>,
+  options: UrlStateUpdateOptions = {}
+) {
+  const schema = useMemo(
+    () => ({ [key]: { codec, defaultValue } }) as UrlParamsSchema<Record<string, T>>,
+    [key, codec, defaultValue]
+  );
+  const [values, update] = useUrlParams(schema);
+  const { replace } = options;
+
+  const setValue = useCallback(
+    (value: T) => update({ [key]: value }, { replace }),
+    [key, update, replace]
+  );
+
+  return [values[key], setValue] as const;
+}
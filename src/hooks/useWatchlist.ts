@@ -0,0 +1,17 @@
+import { useCallback, useEffect, useState } from 'react';
+import { watchlist } from '../services/watchlist';
+
+/**
+ * Starred chains from the persisted watchlist
+ * @returns Starred chain IDs plus helpers to check and toggle a chain
+ */
+export function useWatchlist() {
+  const [chainIds, setChainIds] = useState<string[]>(() => watchlist.getChainIds());
+
+  useEffect(() => watchlist.subscribe(setChainIds), []);
+
+  const isStarred = useCallback((chainId: string) => chainIds.includes(chainId), [chainIds]);
+  const toggle = useCallback((chainId: string) => watchlist.toggle(chainId), []);
+
+  return { chainIds, isStarred, toggle };
+}
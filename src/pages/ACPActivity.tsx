@@ -0,0 +1,192 @@
+// src/pages/ACPActivity.tsx
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, ArrowRight, ArrowRightLeft, FilePlus, Replace, RefreshCw, Rss, Activity } from 'lucide-react';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useUrlState } from '../hooks/useUrlState';
+import { enumParam } from '../utils/urlState';
+import { acpService } from '../services/acpService';
+import { ACPActivityEvent, ACPActivityType } from '../types';
+
+type ActivityFilter = 'all' | ACPActivityType;
+
+const FILTERS: { value: ActivityFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'created', label: 'New ACPs' },
+  { value: 'status-changed', label: 'Status changes' },
+  { value: 'replaced', label: 'Replaced' },
+];
+
+const FILTER_PARAM = enumParam<ActivityFilter>(FILTERS.map(filter => filter.value));
+
+const EVENT_STYLES: Record<ACPActivityType, { icon: typeof FilePlus; className: string }> = {
+  created: { icon: FilePlus, className: 'bg-blue-100 text-blue-600 dark:bg-blue-500/20 dark:text-blue-400' },
+  'status-changed': { icon: ArrowRightLeft, className: 'bg-amber-100 text-amber-600 dark:bg-amber-500/20 dark:text-amber-400' },
+  replaced: { icon: Replace, className: 'bg-purple-100 text-purple-600 dark:bg-purple-500/20 dark:text-purple-400' },
+};
+
+function EventSummary({ event }: { event: ACPActivityEvent }) {
+  const acpLink = (
+    <Link to={`/acps/${event.number}`} className="font-mono font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+      ACP-{event.number}
+    </Link>
+  );
+
+  switch (event.type) {
+    case 'created':
+      return <>{acpLink} was proposed as <span className="font-medium">{event.status}</span></>;
+    case 'status-changed':
+      return (
+        <>
+          {acpLink} moved from <span className="font-medium">{event.previousStatus}</span>
+          <ArrowRight className="inline w-3.5 h-3.5 mx-1 -mt-0.5" />
+          <span className="font-medium">{event.status}</span>
+        </>
+      );
+    case 'replaced':
+      return (
+        <>
+          {acpLink} was replaced by{' '}
+          <Link to={`/acps/${event.replacedBy}`} className="font-mono font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+            ACP-{event.replacedBy}
+          </Link>
+        </>
+      );
+  }
+}
+
+export default function ACPActivity() {
+  const navigate = useNavigate();
+  const [events, setEvents] = useState<ACPActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useUrlState<ActivityFilter>('type', 'all', FILTER_PARAM);
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function fetchActivity() {
+      setLoading(true);
+      const feed = await acpService.loadActivity();
+      if (!mounted) return;
+      setEvents(feed?.events ?? []);
+      setLoading(false);
+    }
+
+    fetchActivity();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Newest month first, events within a month newest first
+  const months = useMemo(() => {
+    const byMonth = new Map<string, ACPActivityEvent[]>();
+    events
+      .filter(event => filter === 'all' || event.type === filter)
+      .forEach(event => {
+        const month = format(new Date(event.date), 'MMMM yyyy');
+        byMonth.set(month, [...(byMonth.get(month) ?? []), event]);
+      });
+    return Array.from(byMonth.entries());
+  }, [events, filter]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
+      <StatusBar health={health ?? null} />
+
+      <div className="flex-1">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <button
+            onClick={() => navigate('/acps')}
+            className="inline-flex items-center mb-6 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to ACPs
+          </button>
+
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">ACP Activity</h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-300">
+                New proposals, status changes and replacements, from the ACP repository history
+              </p>
+            </div>
+            <a
+              href="/acps/feed.xml"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+            >
+              <Rss className="w-4 h-4 mr-2 text-orange-500" />
+              Atom feed
+            </a>
+          </div>
+
+          <div className="bg-gray-100 dark:bg-dark-700 rounded-full p-1 inline-flex mb-6">
+            {FILTERS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                  filter === option.value
+                    ? 'bg-blue-500 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-24 text-gray-600 dark:text-gray-300">
+              <RefreshCw className="w-6 h-6 animate-spin mr-3 text-blue-600" />
+              Loading activity...
+            </div>
+          ) : months.length === 0 ? (
+            <div className="text-center py-24">
+              <Activity className="w-10 h-10 mx-auto mb-4 text-gray-400" />
+              <p className="text-gray-600 dark:text-gray-400">No ACP activity recorded yet</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {months.map(([month, monthEvents]) => (
+                <section key={month}>
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">{month}</h2>
+                  <ul className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                    {monthEvents.map(event => {
+                      const style = EVENT_STYLES[event.type];
+                      const Icon = style.icon;
+                      return (
+                        <li key={event.id} className="flex items-start gap-4 p-4">
+                          <span className={`flex-shrink-0 p-2 rounded-full ${style.className}`}>
+                            <Icon className="w-4 h-4" />
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm text-gray-900 dark:text-white">
+                              <EventSummary event={event} />
+                            </p>
+                            <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{event.title}</p>
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {format(new Date(event.date), 'MMM d, yyyy')} · {event.author} ·{' '}
+                              <span className="font-mono">{event.hash.slice(0, 7)}</span> {event.message}
+                            </p>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
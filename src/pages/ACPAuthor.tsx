@@ -0,0 +1,167 @@
+// src/pages/ACPAuthor.tsx
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, AlertTriangle, ExternalLink, Building2, UserX } from 'lucide-react';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { ACPStatusBreakdown } from '../components/ACPStatusBreakdown';
+import { ACPTimeline } from '../components/ACPTimeline';
+import EnhancedACPCard from '../components/ACPCard';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useACPAuthors } from '../hooks/useACPAuthors';
+
+export default function ACPAuthor() {
+  const { github } = useParams<{ github: string }>();
+  const navigate = useNavigate();
+  const { authors, loading, error } = useACPAuthors();
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+
+  const author = authors.find(profile => profile.id === github?.toLowerCase());
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex flex-col items-center justify-center py-24">
+          <RefreshCw className="w-8 h-8 animate-spin mb-4 text-blue-600" />
+          <p className="text-gray-600 dark:text-gray-300">Loading author...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center py-24 text-center">
+          <AlertTriangle className="w-8 h-8 mb-4 text-red-600" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Failed to Load ACPs</h2>
+          <p className="text-gray-600 dark:text-gray-300">{error}</p>
+        </div>
+      );
+    }
+
+    if (!author) {
+      return (
+        <div className="flex flex-col items-center justify-center py-24 text-center">
+          <UserX className="w-10 h-10 mb-4 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Author Not Found</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-6">No ACP lists "{github}" as an author.</p>
+          <Link to="/acps/authors" className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+            Browse all authors
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {/* Header */}
+        <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6">
+            {author.github ? (
+              <img
+                src={`https://github.com/${author.github}.png?size=160`}
+                alt=""
+                className="w-16 h-16 rounded-full bg-gray-100 dark:bg-dark-700"
+              />
+            ) : (
+              <span className="w-16 h-16 rounded-full bg-gray-100 dark:bg-dark-700 flex items-center justify-center text-2xl font-semibold text-gray-600 dark:text-gray-300">
+                {author.name.charAt(0)}
+              </span>
+            )}
+            <div className="flex-1 min-w-0">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{author.name}</h1>
+              <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                {author.github && (
+                  <a
+                    href={`https://github.com/${author.github}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                  >
+                    @{author.github}
+                    <ExternalLink className="w-3 h-3 ml-1" />
+                  </a>
+                )}
+                {author.organization && (
+                  <span className="inline-flex items-center">
+                    <Building2 className="w-4 h-4 mr-1" />
+                    {author.organization}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-3xl font-bold text-gray-900 dark:text-white">{author.acps.length}</div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">ACP{author.acps.length === 1 ? '' : 's'}</div>
+            </div>
+          </div>
+          <ACPStatusBreakdown counts={author.statusCounts} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+          {/* Activity */}
+          <div className="lg:col-span-2 bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Activity</h2>
+            <ACPTimeline acps={author.acps} onSelect={(acp) => navigate(`/acps/${acp.number}`)} />
+          </div>
+
+          {/* Co-authors */}
+          <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 self-start">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Co-authors</h2>
+            {author.coAuthors.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">{author.name} has written every ACP on their own.</p>
+            ) : (
+              <ul className="space-y-2">
+                {author.coAuthors.map(coAuthor => (
+                  <li key={coAuthor.id}>
+                    <Link
+                      to={`/acps/authors/${coAuthor.id}`}
+                      className="flex items-center justify-between px-3 py-2 rounded-md text-sm hover:bg-gray-50 dark:hover:bg-dark-700 transition-colors"
+                    >
+                      <span className="text-blue-600 dark:text-blue-400">{coAuthor.name}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {coAuthor.count} shared ACP{coAuthor.count === 1 ? '' : 's'}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Proposals */}
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Proposals</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {author.acps.map(acp => (
+            <EnhancedACPCard
+              key={acp.number}
+              acp={acp}
+              onClick={() => navigate(`/acps/${acp.number}`)}
+            />
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
+      <StatusBar health={health ?? null} />
+
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <button
+            onClick={() => navigate('/acps/authors')}
+            className="inline-flex items-center mb-6 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Authors
+          </button>
+
+          {renderContent()}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
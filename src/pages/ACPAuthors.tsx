@@ -0,0 +1,120 @@
+// src/pages/ACPAuthors.tsx
+import { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, AlertTriangle, Search, Users } from 'lucide-react';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { ACPStatusBreakdown } from '../components/ACPStatusBreakdown';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useACPAuthors } from '../hooks/useACPAuthors';
+import { useUrlState } from '../hooks/useUrlState';
+import { stringParam } from '../utils/urlState';
+
+export default function ACPAuthors() {
+  const navigate = useNavigate();
+  const { authors, loading, error } = useACPAuthors();
+  const [query, setQuery] = useUrlState('q', '', stringParam, { replace: true });
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+
+  const filteredAuthors = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    if (!search) return authors;
+    return authors.filter(author =>
+      author.name.toLowerCase().includes(search) ||
+      author.github.toLowerCase().includes(search) ||
+      author.organization.toLowerCase().includes(search)
+    );
+  }, [authors, query]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
+      <StatusBar health={health ?? null} />
+
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <button
+            onClick={() => navigate('/acps')}
+            className="inline-flex items-center mb-6 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to ACPs
+          </button>
+
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">ACP Authors</h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-300">
+                {authors.length > 0 ? `${authors.length} people` : 'The people'} behind the Avalanche Community Proposals
+              </p>
+            </div>
+            <div className="relative w-full md:w-80">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search by name, GitHub or organization..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-700 dark:text-white"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-24">
+              <RefreshCw className="w-8 h-8 animate-spin mb-4 text-blue-600" />
+              <p className="text-gray-600 dark:text-gray-300">Loading authors...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <AlertTriangle className="w-8 h-8 mb-4 text-red-600" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Failed to Load ACPs</h2>
+              <p className="text-gray-600 dark:text-gray-300">{error}</p>
+            </div>
+          ) : filteredAuthors.length === 0 ? (
+            <div className="text-center py-24">
+              <Users className="w-10 h-10 mx-auto mb-4 text-gray-400" />
+              <p className="text-gray-600 dark:text-gray-400">No authors match "{query}"</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredAuthors.map(author => (
+                <Link
+                  key={author.id}
+                  to={`/acps/authors/${author.id}`}
+                  className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 hover:shadow-md hover:border-blue-400 dark:hover:border-blue-600 transition-all"
+                >
+                  <div className="flex items-center gap-3 mb-3">
+                    {author.github ? (
+                      <img
+                        src={`https://github.com/${author.github}.png?size=80`}
+                        alt=""
+                        className="w-10 h-10 rounded-full bg-gray-100 dark:bg-dark-700"
+                        loading="lazy"
+                      />
+                    ) : (
+                      <span className="w-10 h-10 rounded-full bg-gray-100 dark:bg-dark-700 flex items-center justify-center text-sm font-semibold text-gray-600 dark:text-gray-300">
+                        {author.name.charAt(0)}
+                      </span>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="font-semibold text-gray-900 dark:text-white truncate">{author.name}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[author.github && `@${author.github}`, author.organization].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                    <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      {author.acps.length} ACP{author.acps.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <ACPStatusBreakdown counts={author.statusCounts} showLegend={false} />
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
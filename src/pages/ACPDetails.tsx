@@ -1,7 +1,7 @@
 // src/pages/ACPDetails.tsx
 import mermaid from 'mermaid';
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -12,6 +12,8 @@ import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import 'katex/dist/katex.min.css';
 import { StatusBar } from '../components/StatusBar';
 import { Footer } from '../components/Footer';
+import { ACPRelationshipsPanel } from '../components/ACPRelationshipsPanel';
+import { ACPHistory } from '../components/ACPHistory';
 import {
   ArrowLeft,
   ExternalLink,
@@ -26,11 +28,19 @@ import {
   XCircle,
   AlertTriangle,
   RefreshCw,
-  BookOpen
+  BookOpen,
+  History
 } from 'lucide-react';
-import { getHealth } from '../api';
-import { HealthStatus } from '../types';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
 import { acpService, LocalACP } from '../services/acpService';
+import { useUrlState } from '../hooks/useUrlState';
+import { enumParam } from '../utils/urlState';
+import { getAuthorId } from '../utils/acpAuthors';
+
+type DetailsTab = 'proposal' | 'history';
+const TAB_PARAM = enumParam<DetailsTab>(['proposal', 'history']);
+
 const preprocessContent = (content: string) => {
   return content
     // Only escape very specific, obvious currency tokens - be extremely conservative
@@ -56,7 +66,8 @@ export default function ACPDetails() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const [tab, setTab] = useUrlState<DetailsTab>('tab', 'proposal', TAB_PARAM);
+  const { data: health } = useQuery(queryKeys.health, getHealth);
 
   useEffect(() => {
     let mounted = true;
@@ -69,10 +80,7 @@ export default function ACPDetails() {
         setError(null);
 
         console.log(`Loading ACP-${acpNumber} from local data...`);
-        const [acpData, healthData] = await Promise.all([
-          acpService.loadACPByNumber(acpNumber),
-          getHealth(),
-        ]);
+        const acpData = await acpService.loadACPByNumber(acpNumber);
         
         if (!mounted) return;
         
@@ -82,7 +90,6 @@ export default function ACPDetails() {
         }
 
         setAcp(acpData);
-        setHealth(healthData);
       } catch (err) {
         if (!mounted) return;
         console.error(`Error loading ACP-${acpNumber}:`, err);
@@ -430,7 +437,7 @@ export default function ACPDetails() {
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-        <StatusBar health={health} />
+        <StatusBar health={health ?? null} />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
@@ -449,7 +456,7 @@ export default function ACPDetails() {
   if (error || !acp) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-        <StatusBar health={health} />
+        <StatusBar health={health ?? null} />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center max-w-md">
             <AlertTriangle className="w-8 h-8 mx-auto mb-4 text-red-600" />
@@ -483,7 +490,7 @@ export default function ACPDetails() {
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-      <StatusBar health={health} />
+      <StatusBar health={health ?? null} />
 
       <div className="flex-1">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -518,16 +525,13 @@ export default function ACPDetails() {
                   <Users className="w-5 h-5 text-gray-400" />
                   <div className="flex flex-wrap gap-2">
                     {acp.authors?.map((author, index) => (
-                      <a
+                      <Link
                         key={index}
-                        href={`https://github.com/${author.github}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                        to={`/acps/authors/${getAuthorId(author)}`}
                         className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
                       >
                         {author.name}
-                        <ExternalLink className="w-3 h-3 ml-1" />
-                      </a>
+                      </Link>
                     )) || <span className="text-sm text-gray-600 dark:text-gray-400">Unknown</span>}
                   </div>
                 </div>
@@ -581,7 +585,35 @@ export default function ACPDetails() {
             </div>
           </div>
 
-          {/* Content with ReactMarkdown */}
+          <ACPRelationshipsPanel acpNumber={acp.number} />
+
+          {/* Tabs */}
+          <div className="flex gap-1 mb-4 border-b border-gray-200 dark:border-gray-700">
+            {([
+              { id: 'proposal', label: 'Proposal', icon: BookOpen },
+              { id: 'history', label: acp.revisions?.length ? `History (${acp.revisions.length})` : 'History', icon: History },
+            ] as const).map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setTab(id)}
+                className={`inline-flex items-center gap-2 px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+                  tab === id
+                    ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'history' ? (
+            <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+              <ACPHistory acpNumber={acp.number} />
+            </div>
+          ) : (
+          /* Content with ReactMarkdown */
           <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8 overflow-hidden">
             <div className="prose prose-gray dark:prose-invert max-w-none break-words prose-table:table-auto prose-table:border-collapse prose-th:border prose-th:border-gray-300 prose-th:px-4 prose-th:py-2 prose-th:bg-gray-50 prose-td:border prose-td:border-gray-300 prose-td:px-4 prose-td:py-2">
             <ReactMarkdown 
@@ -641,6 +673,7 @@ export default function ACPDetails() {
 </ReactMarkdown>
             </div>
           </div>
+          )}
         </div>
       </div>
       <Footer />
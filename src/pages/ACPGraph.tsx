@@ -0,0 +1,100 @@
+// src/pages/ACPGraph.tsx
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, RefreshCw, AlertTriangle } from 'lucide-react';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { ACPDependencyGraph, ACPGraphIssues } from '../components/ACPDependencyGraph';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useACPGraph } from '../hooks/useACPGraph';
+import { useUrlState } from '../hooks/useUrlState';
+import { booleanParam } from '../utils/urlState';
+
+export default function ACPGraph() {
+  const navigate = useNavigate();
+  const { graph, loading, error } = useACPGraph();
+  const [showUnconnected, setShowUnconnected] = useUrlState('all', false, booleanParam);
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+
+  // Most ACPs stand alone, so only those with a relationship are drawn by default
+  const visibleGraph = useMemo(() => {
+    if (showUnconnected) return graph;
+    const connected = new Set(graph.edges.flatMap(edge => [edge.source, edge.target]));
+    return { ...graph, nodes: graph.nodes.filter(node => connected.has(node.id)) };
+  }, [graph, showUnconnected]);
+
+  const stats = [
+    { label: 'Connected ACPs', value: graph.nodes.filter(node => !node.missing && graph.edges.some(edge => edge.source === node.id || edge.target === node.id)).length },
+    { label: 'Relationships', value: graph.edges.length },
+    { label: 'Dependency cycles', value: graph.cycles.length },
+    { label: 'Missing references', value: graph.missingReferences.length },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
+      <StatusBar health={health ?? null} />
+
+      <div className="flex-1">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <button
+            onClick={() => navigate('/acps')}
+            className="inline-flex items-center mb-6 text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to ACPs
+          </button>
+
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">ACP Dependency Graph</h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-300">
+                How proposals depend on, replace and supersede each other. Click an ACP to open it.
+              </p>
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showUnconnected}
+                onChange={(e) => setShowUnconnected(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+              />
+              Show unconnected ACPs
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-24">
+              <RefreshCw className="w-8 h-8 animate-spin mb-4 text-blue-600" />
+              <p className="text-gray-600 dark:text-gray-300">Loading ACPs...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-24 text-center">
+              <AlertTriangle className="w-8 h-8 mb-4 text-red-600" />
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Failed to Load ACPs</h2>
+              <p className="text-gray-600 dark:text-gray-300">{error}</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+                {stats.map(stat => (
+                  <div key={stat.label} className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">{stat.value}</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-white dark:bg-dark-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-6">
+                <ACPDependencyGraph graph={visibleGraph} height={640} />
+              </div>
+
+              <ACPGraphIssues graph={graph} />
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
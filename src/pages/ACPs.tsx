@@ -23,15 +23,26 @@ import {
   Star,
   Archive,
   Code,
-  AlertCircle
+  AlertCircle,
+  CalendarDays,
+  Kanban,
+  Share2,
+  Activity
 } from 'lucide-react';
-import { getHealth } from '../api';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
+import { useUrlParams } from '../hooks/useUrlState';
+import { UrlParamsSchema, enumParam, stringParam } from '../utils/urlState';
 import { acpService, LocalACP, EnhancedACP, ACPStats } from '../services/acpService';
 import EnhancedACPCard from '../components/ACPCard';
+import { ACPTimeline } from '../components/ACPTimeline';
+import { ACPPipeline } from '../components/ACPPipeline';
+import { ACPSearchIndex, ViewMode } from '../types';
+import { getCleanStatus } from '../utils/acpStatus';
+import { HighlightSegment, getHighlightSegments, searchACPIndex, tokenize } from '../utils/acpSearch';
 
 
-type ViewMode = 'grid' | 'list';
-type SortOption = 'number' | 'title' | 'status' | 'track';
+type SortOption = 'relevance' | 'number' | 'title' | 'status' | 'track';
 type SortOrder = 'asc' | 'desc';
 
 interface Filters {
@@ -41,30 +52,56 @@ interface Filters {
   author: string;
 }
 
+interface ACPsUrlState extends Filters {
+  q: string;
+  sort: SortOption;
+  order: SortOrder;
+  view: ViewMode;
+}
+
+const EMPTY_FILTERS: Filters = {
+  status: '',
+  track: '',
+  complexity: '',
+  author: '',
+};
+
+// Search, filters, sorting and view mode are kept in the query string so views can be shared
+const URL_PARAMS: UrlParamsSchema<ACPsUrlState> = {
+  q: { codec: stringParam, defaultValue: '' },
+  status: { codec: stringParam, defaultValue: '' },
+  track: { codec: stringParam, defaultValue: '' },
+  complexity: { codec: stringParam, defaultValue: '' },
+  author: { codec: stringParam, defaultValue: '' },
+  // Relevance orders search results by score and everything else by number
+  sort: { codec: enumParam<SortOption>(['relevance', 'number', 'title', 'status', 'track']), defaultValue: 'relevance' },
+  order: { codec: enumParam<SortOrder>(['asc', 'desc']), defaultValue: 'desc' },
+  view: { codec: enumParam<ViewMode>(['grid', 'list', 'timeline', 'pipeline']), defaultValue: 'grid' },
+};
+
 export default function ACPs() {
   const navigate = useNavigate();
   const [acps, setAcps] = useState<LocalACP[]>([]);
   const [stats, setStats] = useState<ACPStats | null>(null);
+  const [searchIndex, setSearchIndex] = useState<ACPSearchIndex | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // UI State
-  const [viewMode, setViewMode] = useState<ViewMode>('grid');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('number');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [showFilters, setShowFilters] = useState(false);
+  const [urlState, setUrlState] = useUrlParams(URL_PARAMS);
+  const { q: searchQuery, sort: sortBy, order: sortOrder, view: viewMode } = urlState;
 
   // Filters
-  const [filters, setFilters] = useState<Filters>({
-    status: '',
-    track: '',
-    complexity: '',
-    author: '',
+  const filters = useMemo<Filters>(() => ({
+    status: urlState.status,
+    track: urlState.track,
+    complexity: urlState.complexity,
+    author: urlState.author,
+  }), [urlState]);
+  // Start with the panel open when a shared link has filters applied
+  const [showFilters, setShowFilters] = useState(() => Object.values(filters).some(Boolean));
 
-  });
-
-  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const { data: health } = useQuery(queryKeys.health, getHealth);
 
   useEffect(() => {
     let mounted = true;
@@ -77,9 +114,9 @@ export default function ACPs() {
         setError(null);
 
         console.log('Loading ACPs from local data...');
-        const [acpsData, healthData] = await Promise.all([
+        const [acpsData, indexData] = await Promise.all([
           acpService.loadACPs(),
-          getHealth(),
+          acpService.loadSearchIndex(),
         ]);
         
         if (!mounted) return;
@@ -88,8 +125,8 @@ export default function ACPs() {
           throw new Error('No ACPs found. Make sure the submodule is initialized and the build script has been run.');
         }
         setAcps(acpsData);
+        setSearchIndex(indexData);
         setStats(calculateStats(acpsData));
-        setHealth(healthData);
         setError(null);
       } catch (err) {
         if (!mounted) return;
@@ -109,15 +146,6 @@ export default function ACPs() {
     };
   }, []);
 
-  const getCleanStatus = (status: string) => {
-    if (!status) return 'Unknown';
-    // Extracts the primary status from a detailed string.
-    // e.g., "Proposed (Last Call - Final Comments)" -> "Proposed"
-    // e.g., "Active [ACPs.md]" -> "Active"
-    const match = status.match(/^[a-zA-Z]+/);
-    return match ? match[0] : 'Unknown';
-  };
-
     function calculateStats(acps: EnhancedACP[]): ACPStats {
   const stats: ACPStats = {
     total: acps.length,
@@ -191,11 +219,24 @@ export default function ACPs() {
 }
 
 
+  // Ranked full-text search, when the index could be loaded. Queries without an
+  // indexable word (a single letter, only stop words) use the substring filter instead
+  const search = useMemo(
+    () => (searchIndex && tokenize(searchQuery).length > 0 ? searchACPIndex(searchIndex, searchQuery) : null),
+    [searchIndex, searchQuery]
+  );
+  const searchHits = useMemo(
+    () => new Map(search?.hits.map(hit => [hit.number, hit]) ?? []),
+    [search]
+  );
+
   // Filter and sort ACPs
   const filteredAndSortedACPs = useMemo(() => {
     let filtered = acps.filter(acp => {
       // Search filter
-      if (searchQuery) {
+      if (search) {
+        if (!searchHits.has(acp.number)) return false;
+      } else if (searchQuery) {
         const query = searchQuery.toLowerCase();
         const matchesSearch = 
           acp.title.toLowerCase().includes(query) ||
@@ -235,6 +276,11 @@ export default function ACPs() {
       let comparison = 0;
       
       switch (sortBy) {
+        case 'relevance':
+          comparison = search
+            ? (searchHits.get(a.number)?.score ?? 0) - (searchHits.get(b.number)?.score ?? 0)
+            : Number(a.number) - Number(b.number);
+          break;
         case 'number':
           comparison = Number(a.number) - Number(b.number);
           break;
@@ -253,7 +299,19 @@ export default function ACPs() {
     });
 
     return filtered;
-  }, [acps, searchQuery, filters, sortBy, sortOrder]);
+  }, [acps, search, searchHits, searchQuery, filters, sortBy, sortOrder]);
+
+  // Excerpts around the matched words, from the abstract or else the full text
+  const snippets = useMemo(() => {
+    const result = new Map<string, HighlightSegment[]>();
+    if (!search) return result;
+    filteredAndSortedACPs.forEach(acp => {
+      const terms = searchHits.get(acp.number)?.terms ?? [];
+      const segments = getHighlightSegments(acp.abstract, terms);
+      result.set(acp.number, segments.length ? segments : getHighlightSegments(acp.content, terms));
+    });
+    return result;
+  }, [search, searchHits, filteredAndSortedACPs]);
 
   const getStatusIcon = (status: string) => {
     const cleanStatus = getCleanStatus(status); 
@@ -313,20 +371,13 @@ export default function ACPs() {
   };
 
   const clearFilters = () => {
-    setFilters({
-      status: '',
-      track: '',
-      complexity: '',
-      author: '',
-
-    });
-    setSearchQuery('');
+    setUrlState({ ...EMPTY_FILTERS, q: '' });
   };
 
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-        <StatusBar health={health} />
+        <StatusBar health={health ?? null} />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-600" />
@@ -345,7 +396,7 @@ export default function ACPs() {
   if (error) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-        <StatusBar health={health} />
+        <StatusBar health={health ?? null} />
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center max-w-md">
             <AlertTriangle className="w-8 h-8 mx-auto mb-4 text-red-600" />
@@ -369,7 +420,7 @@ export default function ACPs() {
   }
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-dark-900 flex flex-col">
-      <StatusBar health={health} />
+      <StatusBar health={health ?? null} />
 
       <div className="flex-1">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -384,6 +435,27 @@ export default function ACPs() {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigate('/acps/authors')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Authors
+              </button>
+              <button
+                onClick={() => navigate('/acps/activity')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+              >
+                <Activity className="w-4 h-4 mr-2" />
+                Activity
+              </button>
+              <button
+                onClick={() => navigate('/acps/graph')}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+              >
+                <Share2 className="w-4 h-4 mr-2" />
+                Dependency Graph
+              </button>
               <button
                 onClick={() => window.location.reload()}
                 className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
@@ -458,7 +530,7 @@ export default function ACPs() {
                     type="text"
                     placeholder="Search ACPs by number, title, or author..."
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => setUrlState({ q: e.target.value }, { replace: true })}
                     className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-dark-700 dark:text-white"
                   />
                 </div>
@@ -487,7 +559,8 @@ export default function ACPs() {
                 {/* View Mode Toggle */}
                 <div className="flex items-center bg-gray-100 dark:bg-dark-700 rounded-md p-1">
                   <button
-                    onClick={() => setViewMode('grid')}
+                    onClick={() => setUrlState({ view: 'grid' })}
+                    title="Grid"
                     className={`p-2 rounded ${
                       viewMode === 'grid'
                         ? 'bg-white dark:bg-dark-600 shadow-sm'
@@ -497,7 +570,8 @@ export default function ACPs() {
                     <Grid className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => setViewMode('list')}
+                    onClick={() => setUrlState({ view: 'list' })}
+                    title="List"
                     className={`p-2 rounded ${
                       viewMode === 'list'
                         ? 'bg-white dark:bg-dark-600 shadow-sm'
@@ -506,6 +580,28 @@ export default function ACPs() {
                   >
                     <List className="w-4 h-4" />
                   </button>
+                  <button
+                    onClick={() => setUrlState({ view: 'timeline' })}
+                    title="Timeline"
+                    className={`p-2 rounded ${
+                      viewMode === 'timeline'
+                        ? 'bg-white dark:bg-dark-600 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                    }`}
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setUrlState({ view: 'pipeline' })}
+                    title="Pipeline"
+                    className={`p-2 rounded ${
+                      viewMode === 'pipeline'
+                        ? 'bg-white dark:bg-dark-600 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                    }`}
+                  >
+                    <Kanban className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
             </div>
@@ -521,7 +617,7 @@ export default function ACPs() {
                     </label>
                     <select
                       value={filters.status}
-                      onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                      onChange={(e) => setUrlState({ status: e.target.value })}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-dark-700 dark:text-white"
                     >
                       <option value="">All</option>
@@ -542,7 +638,7 @@ export default function ACPs() {
                     </label>
                     <select
                       value={filters.track}
-                      onChange={(e) => setFilters({ ...filters, track: e.target.value })}
+                      onChange={(e) => setUrlState({ track: e.target.value })}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-dark-700 dark:text-white"
                     >
                       <option value="">All</option>
@@ -560,7 +656,7 @@ export default function ACPs() {
                     </label>
                     <select
                       value={filters.complexity}
-                      onChange={(e) => setFilters({ ...filters, complexity: e.target.value })}
+                      onChange={(e) => setUrlState({ complexity: e.target.value })}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-dark-700 dark:text-white"
                     >
                       <option value="">All</option>
@@ -579,7 +675,7 @@ export default function ACPs() {
                     <input
                       type="text"
                       value={filters.author}
-                      onChange={(e) => setFilters({ ...filters, author: e.target.value })}
+                      onChange={(e) => setUrlState({ author: e.target.value }, { replace: true })}
                       placeholder="Filter by author..."
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-dark-700 dark:text-white"
                     />
@@ -590,13 +686,7 @@ export default function ACPs() {
                   {/* Clear Filters */}
                   <div className="flex items-end">
                     <button
-                      onClick={() => setFilters({
-                        status: '',
-                        track: '',
-                        complexity: '',
-                        author: '',
-                        hasDiscussion: null
-                      })}
+                      onClick={() => setUrlState(EMPTY_FILTERS)}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-700 hover:bg-gray-50 dark:hover:bg-dark-600"
                     >
                       Clear All
@@ -610,6 +700,23 @@ export default function ACPs() {
           {/* Results Count */}
           <div className="mb-4 text-sm text-gray-600 dark:text-gray-400">
             Showing {filteredAndSortedACPs.length} of {acps.length} ACPs
+            {search && search.suggestions.length > 0 && (
+              <span className="ml-2">
+                · Did you mean{' '}
+                {search.suggestions.map((suggestion, index) => (
+                  <span key={suggestion}>
+                    {index > 0 && ', '}
+                    <button
+                      onClick={() => setUrlState({ q: suggestion })}
+                      className="font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
+                    >
+                      {suggestion}
+                    </button>
+                  </span>
+                ))}
+                ?
+              </span>
+            )}
           </div>
 
           {/* ACPs Grid/List */}
@@ -623,6 +730,10 @@ export default function ACPs() {
                 Try adjusting your search or filters
               </p>
             </div>
+          ) : viewMode === 'timeline' ? (
+            <ACPTimeline acps={filteredAndSortedACPs} onSelect={(acp) => navigate(`/acps/${acp.number}`)} />
+          ) : viewMode === 'pipeline' ? (
+            <ACPPipeline acps={filteredAndSortedACPs} onSelect={(acp) => navigate(`/acps/${acp.number}`)} />
           ) : viewMode === 'grid' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {filteredAndSortedACPs.map((acp) => (
@@ -630,6 +741,7 @@ export default function ACPs() {
                   key={acp.number}
                   acp={acp}
                   viewMode="grid"
+                  snippet={snippets.get(acp.number)}
                   onClick={(acp) => navigate(`/acps/${acp.number}`)}
                 />
               ))}
@@ -641,6 +753,7 @@ export default function ACPs() {
                   key={acp.number}
                   acp={acp}
                   viewMode="list"
+                  snippet={snippets.get(acp.number)}
                   onClick={(acp) => navigate(`/acps/${acp.number}`)}
                 />
               ))}
@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Bell, BellRing, Plus, Trash2, History } from 'lucide-react';
+import { getChains, getHealth, queryKeys } from '../api';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { useQuery } from '../hooks/useQuery';
+import { useAlerts } from '../hooks/useAlerts';
+import { alerts } from '../services/alerts';
+import { ALERT_RULE_TYPES, AlertRuleType, describeAlertRule } from '../utils/alertRules';
+
+const inputClassName = 'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-dark-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+function getNotificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export function Alerts() {
+  const navigate = useNavigate();
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+  const { data: chains } = useQuery(queryKeys.chains, getChains);
+  const { rules, history } = useAlerts();
+
+  const [type, setType] = useState<AlertRuleType>('chain-tps-zero');
+  const [chainId, setChainId] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const ruleType = ALERT_RULE_TYPES.find(item => item.id === type) ?? ALERT_RULE_TYPES[0];
+  const thresholdValue = threshold === '' ? ruleType.defaultThreshold : Number(threshold);
+  const thresholdInvalid = ruleType.defaultThreshold !== null && (thresholdValue === null || !Number.isFinite(thresholdValue) || thresholdValue < 0);
+
+  const chainNames = useMemo(
+    () => new Map((chains ?? []).map(chain => [chain.chainId, chain.chainName])),
+    [chains]
+  );
+  const sortedChains = useMemo(
+    () => [...(chains ?? [])].sort((a, b) => a.chainName.localeCompare(b.chainName)),
+    [chains]
+  );
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (thresholdInvalid) return;
+    alerts.addRule({
+      type,
+      chainId: ruleType.usesChain && chainId ? chainId : null,
+      threshold: ruleType.defaultThreshold !== null ? thresholdValue : null,
+    });
+    setThreshold('');
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await alerts.requestNotificationPermission());
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <StatusBar health={health ?? null} />
+
+      <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => navigate('/')}
+          className="inline-flex items-center px-3 py-2 mb-6 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Dashboard
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <Bell className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Alerts</h2>
+          </div>
+
+          {permission === 'granted' ? (
+            <span className="text-sm text-green-600 dark:text-green-400">Browser notifications enabled</span>
+          ) : permission === 'denied' ? (
+            <span className="text-sm text-gray-500 dark:text-gray-400">Browser notifications are blocked in your browser settings</span>
+          ) : permission === 'default' && (
+            <button
+              onClick={handleEnableNotifications}
+              className="inline-flex items-center self-start px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+            >
+              <BellRing className="w-4 h-4 mr-2" />
+              Enable browser notifications
+            </button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+          Rules are stored in this browser and checked every minute while L1Beat is open.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            {/* Rule editor */}
+            <form onSubmit={handleAddRule} className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">New Rule</h3>
+
+              <div>
+                <label htmlFor="alert-type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Condition</label>
+                <select
+                  id="alert-type"
+                  value={type}
+                  onChange={(e) => {
+                    setType(e.target.value as AlertRuleType);
+                    setThreshold('');
+                  }}
+                  className={inputClassName}
+                >
+                  {ALERT_RULE_TYPES.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {ruleType.usesChain && (
+                <div>
+                  <label htmlFor="alert-chain" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Chain</label>
+                  <select
+                    id="alert-chain"
+                    value={chainId}
+                    onChange={(e) => setChainId(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">Any chain</option>
+                    {sortedChains.map(chain => (
+                      <option key={chain.chainId} value={chain.chainId}>{chain.chainName}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {ruleType.defaultThreshold !== null && (
+                <div>
+                  <label htmlFor="alert-threshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {type === 'validator-uptime' ? 'Uptime threshold (%)' : 'TPS threshold'}
+                  </label>
+                  <input
+                    id="alert-threshold"
+                    type="number"
+                    min={0}
+                    max={type === 'validator-uptime' ? 100 : undefined}
+                    step="any"
+                    placeholder={String(ruleType.defaultThreshold)}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={thresholdInvalid}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="-ml-1 mr-2 h-4 w-4" />
+                Add Rule
+              </button>
+            </form>
+
+            {/* Rule list */}
+            <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Rules</h3>
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No alert rules yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rules.map(rule => (
+                    <li key={rule.id} className="flex items-center gap-3 py-3">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) => alerts.updateRule(rule.id, { enabled: e.target.checked })}
+                        aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                        className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className={`flex-1 text-sm ${rule.enabled ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>
+                        {describeAlertRule(rule, rule.chainId ? chainNames.get(rule.chainId) : undefined)}
+                      </span>
+                      <button
+                        onClick={() => alerts.removeRule(rule.id)}
+                        className="p-1.5 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-dark-700"
+                        aria-label="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Alert history */}
+          <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <History className="w-5 h-5 text-blue-500" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">History</h3>
+              </div>
+              {history.length > 0 && (
+                <button
+                  onClick={() => alerts.clearHistory()}
+                  className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No alerts have fired yet.</p>
+            ) : (
+              <ul className="space-y-3 max-h-[36rem] overflow-y-auto">
+                {history.map(event => (
+                  <li key={event.id} className="p-3 rounded-lg bg-gray-50 dark:bg-dark-800/50">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{event.title}</p>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {format(new Date(event.timestamp), 'MMM d, h:mm a')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{event.message}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import { BlogPost, getBlogPosts, getBlogTags, BlogTag } from '../api/blogApi';
 import { BlogCard } from '../components/BlogCard';
 import { StatusBar } from '../components/StatusBar';
 import { Footer } from '../components/Footer';
-import { getHealth } from '../api';
+import { getHealth, queryKeys } from '../api';
+import { useQuery } from '../hooks/useQuery';
 
 export function BlogList() {
     const [searchParams, setSearchParams] = useSearchParams();
@@ -19,7 +20,7 @@ export function BlogList() {
     );
     const [hasMore, setHasMore] = useState(false);
     const [loadingMore, setLoadingMore] = useState(false);
-    const [health, setHealth] = useState<HealthStatus | null>(null);
+    const { data: health } = useQuery(queryKeys.health, getHealth);
 
     const POSTS_PER_PAGE = 12;
 
@@ -59,7 +60,6 @@ export function BlogList() {
     useEffect(() => {
         fetchPosts(0, selectedTag || undefined);
         fetchTags();
-        getHealth().then(setHealth);
     }, [selectedTag]);
 
     const handleTagFilter = (tag: string | null) => {
@@ -87,7 +87,7 @@ export function BlogList() {
     if (loading && posts.length === 0) {
         return (
             <div className="min-h-screen bg-gray-50 dark:bg-dark-900">
-                <StatusBar health={health} />
+                <StatusBar health={health ?? null} />
                 <div className="flex items-center justify-center py-20">
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
                 </div>
@@ -97,7 +97,7 @@ export function BlogList() {
 
     return (
         <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
-            <StatusBar health={health} />
+            <StatusBar health={health ?? null} />
 
             <div className="flex-1">
                 <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
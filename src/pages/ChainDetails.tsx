@@ -1,54 +1,51 @@
-import React, { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
-import { getChains, getTPSHistory } from '../api';
-import { Chain, TPSHistory } from '../types';
+import { getChains, getTPSHistory, queryKeys } from '../api';
 import { Activity, ArrowLeft, Server, Clock, Search, CheckCircle, XCircle, Info, Copy, Check } from 'lucide-react';
 import { StakeDistributionChart, getValidatorColor } from '../components/StakeDistributionChart';
 import { L1MetricsChart } from '../components/L1MetricsChart';
+import { ValidatorHistoryPanel } from '../components/ValidatorHistoryPanel';
+import { ChainMessagingPanel } from '../components/ChainMessagingPanel';
+import { DecentralizationMetrics } from '../components/DecentralizationMetrics';
 import { ThemeToggle } from '../components/ThemeToggle';
+import { WatchlistButton } from '../components/WatchlistButton';
 import { Footer } from '../components/Footer';
 import { useTheme } from '../hooks/useTheme';
+import { useQuery } from '../hooks/useQuery';
+import { useUrlParams } from '../hooks/useUrlState';
+import { UrlParamsSchema, booleanParam, stringParam } from '../utils/urlState';
+
+interface ChainDetailsUrlState {
+  q: string;
+  validators: boolean;
+}
+
+// Validator search and expansion are kept in the query string so views can be shared
+const URL_PARAMS: UrlParamsSchema<ChainDetailsUrlState> = {
+  q: { codec: stringParam, defaultValue: '' },
+  validators: { codec: booleanParam, defaultValue: false },
+};
 
 export function ChainDetails() {
   const { chainId } = useParams();
   const navigate = useNavigate();
-  const [chain, setChain] = useState<Chain | null>(null);
-  const [tpsHistory, setTPSHistory] = useState<TPSHistory[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [showAllValidators, setShowAllValidators] = useState(false);
+  const chainsQuery = useQuery(queryKeys.chains, getChains);
+  const historyQuery = useQuery(
+    chainId ? queryKeys.tpsHistory(7, chainId) : null,
+    () => getTPSHistory(7, chainId)
+  );
+  const [urlState, setUrlState] = useUrlParams(URL_PARAMS);
+  const { q: searchTerm, validators: showAllValidators } = urlState;
   const { theme } = useTheme();
   const [copied, setCopied] = useState<'chainId' | 'subnetId' | 'platformChainId' | null>(null);
 
-  useEffect(() => {
-    async function fetchData() {
-      try {
-        setLoading(true);
-        const [chains, history] = await Promise.all([
-          getChains(),
-          chainId ? getTPSHistory(7, chainId) : Promise.resolve([])
-        ]);
-        
-        const foundChain = chains.find(c => c.chainId === chainId);
-        
-        if (foundChain) {
-          setChain(foundChain);
-          setTPSHistory(history);
-          setError(null);
-        } else {
-          setError('Chain not found');
-        }
-      } catch (err) {
-        setError('Failed to load chain details');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchData();
-  }, [chainId]);
+  const chain = chainsQuery.data?.find(c => c.chainId === chainId) ?? null;
+  const tpsHistory = historyQuery.data ?? [];
+  const loading = chainsQuery.loading || historyQuery.loading;
+  const error = chainsQuery.error
+    ? 'Failed to load chain details'
+    : !chain ? 'Chain not found' : null;
 
   const handleCopy = async (type: 'chainId' | 'subnetId' | 'platformChainId', value?: string) => {
     if (value) {
@@ -146,7 +143,10 @@ export function ChainDetails() {
                   </div>
                 )}
                 <div>
-                  <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{chain.chainName}</h1>
+                  <div className="flex items-center gap-2">
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{chain.chainName}</h1>
+                    <WatchlistButton chainId={chain.chainId} chainName={chain.chainName} />
+                  </div>
                   <div className="flex flex-col gap-1.5 mt-2">
                     <div className="flex items-center gap-2">
                       <p className="text-gray-500 dark:text-gray-400">Chain ID:</p>
@@ -267,7 +267,19 @@ export function ChainDetails() {
             </div>
 
             <div className="border-t border-gray-200 dark:border-gray-700 p-6">
-              <StakeDistributionChart validators={chain.validators} />
+              <ChainMessagingPanel chain={chain} />
+            </div>
+
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <StakeDistributionChart validators={chain.validators} chainName={chain.chainName} />
+            </div>
+
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <DecentralizationMetrics validators={chain.validators} />
+            </div>
+
+            <div className="border-t border-gray-200 dark:border-gray-700 p-6">
+              <ValidatorHistoryPanel chainId={chain.chainId} />
             </div>
 
             <div className="border-t border-gray-200 dark:border-gray-700 p-6">
@@ -281,7 +293,7 @@ export function ChainDetails() {
                     type="text"
                     placeholder="Search by node ID..."
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onChange={(e) => setUrlState({ q: e.target.value }, { replace: true })}
                     className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                   />
                 </div>
@@ -362,7 +374,7 @@ export function ChainDetails() {
               {filteredValidators.length > 10 && !showAllValidators && (
                 <div className="mt-4 text-center">
                   <button
-                    onClick={() => setShowAllValidators(true)}
+                    onClick={() => setUrlState({ validators: true })}
                     className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 text-sm font-medium"
                   >
                     Show All Validators ({filteredValidators.length})
@@ -0,0 +1,421 @@
+import { useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { format } from 'date-fns';
+import { ArrowLeft, GitCompare, Plus, X, RefreshCw, Activity, BarChart3 } from 'lucide-react';
+import {
+  getChains,
+  getHealth,
+  getTPSHistoryForChains,
+  getCumulativeTxCountForChains,
+  invalidateQueries,
+  queryKeys
+} from '../api';
+import { Chain, Timeframe } from '../types';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { TimeframeSelector } from '../components/TimeframeSelector';
+import { useQuery } from '../hooks/useQuery';
+import { useTheme } from '../hooks/useTheme';
+import { MAX_COMPARED_CHAINS, COMPARE_COLORS, compareChainsParam } from '../utils/compare';
+import { UrlParamsSchema, timeframeParam } from '../utils/urlState';
+import { useUrlParams } from '../hooks/useUrlState';
+import { MAX_CHART_POINTS } from '../utils/timeframe';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+interface CompareSeries {
+  chainId: string;
+  name: string;
+  color: string;
+  points: { timestamp: number; value: number }[];
+}
+
+interface CompareChartProps {
+  title: string;
+  icon: React.ReactNode;
+  series: CompareSeries[];
+  loading: boolean;
+  error: Error | null;
+  onRetry: () => void;
+  valueFormatter: (value: number) => string;
+}
+
+// Overlay one line per chain on a shared daily axis
+function CompareChart({ title, icon, series, loading, error, onRetry, valueFormatter }: CompareChartProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  const chartData = useMemo(() => {
+    // Points are bucketed by day so chains reporting at different times line up
+    const allDays = Array.from(new Set(
+      series.flatMap(item => item.points.map(point => Math.floor(point.timestamp / DAY_SECONDS)))
+    )).sort((a, b) => a - b);
+    // Long ranges keep an evenly spaced subset of days so every chain shares the same axis
+    const step = Math.ceil(allDays.length / MAX_CHART_POINTS);
+    const days = step > 1
+      ? allDays.filter((_, i) => i % step === 0 || i === allDays.length - 1)
+      : allDays;
+    const spansYear = allDays.length > 300;
+
+    return {
+      labels: days.map(day => format(new Date(day * DAY_SECONDS * 1000), spansYear ? 'MMM yyyy' : 'MMM d')),
+      datasets: series.map(item => {
+        const byDay = new Map(item.points.map(point => [Math.floor(point.timestamp / DAY_SECONDS), point.value]));
+        return {
+          label: item.name,
+          data: days.map(day => byDay.get(day) ?? null),
+          borderColor: item.color,
+          backgroundColor: item.color,
+          borderWidth: 2,
+          tension: 0.3,
+          pointRadius: days.length > 60 ? 0 : 2,
+          spanGaps: true,
+        };
+      }),
+    };
+  }, [series]);
+
+  const hasData = series.some(item => item.points.length > 0);
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { color: isDark ? '#e2e8f0' : '#1e293b', boxWidth: 12 },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        callbacks: {
+          label: (context: { dataset: { label?: string }; parsed: { y: number | null } }) =>
+            context.parsed.y === null ? '' : `${context.dataset.label}: ${valueFormatter(context.parsed.y)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', maxTicksLimit: 10 },
+      },
+      y: {
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', callback: (value: string | number) => valueFormatter(Number(value)) },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        {icon}
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+      </div>
+      {loading ? (
+        <div className="h-72 flex items-center justify-center">
+          <RefreshCw className="h-10 w-10 text-blue-500 animate-spin" />
+        </div>
+      ) : error || !hasData ? (
+        <div className="h-72 flex flex-col items-center justify-center gap-4">
+          <p className="text-gray-600 dark:text-gray-300">{error ? `Failed to load ${title} data` : 'No data available'}</p>
+          <button
+            onClick={onRetry}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+            Retry
+          </button>
+        </div>
+      ) : (
+        <div className="h-72">
+          <Line data={chartData} options={options} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatCompact(value: number): string {
+  if (Math.abs(value) >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (Math.abs(value) >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (Math.abs(value) >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(value < 10 ? 2 : 0);
+}
+
+function getAverageUptime(chain: Chain): number | null {
+  const uptimes = chain.validators.map(validator => validator.uptime).filter(uptime => Number.isFinite(uptime));
+  return uptimes.length ? uptimes.reduce((sum, uptime) => sum + uptime, 0) / uptimes.length : null;
+}
+
+interface CompareUrlState {
+  chains: string[];
+  range: Timeframe;
+}
+
+const URL_PARAMS: UrlParamsSchema<CompareUrlState> = {
+  chains: { codec: compareChainsParam, defaultValue: [] },
+  range: { codec: timeframeParam, defaultValue: 7 },
+};
+
+export function Compare() {
+  const navigate = useNavigate();
+  const [urlState, setUrlState] = useUrlParams(URL_PARAMS);
+  const { chains: requestedIds, range: timeframe } = urlState;
+
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+  const chainsQuery = useQuery(queryKeys.chains, getChains);
+
+  // IDs from the URL that match no chain are dropped, so they neither count toward
+  // the cap nor get requested. Nothing is selected until the chain list has loaded
+  const selectedIds = useMemo(
+    () => requestedIds.filter(id => chainsQuery.data?.some(chain => chain.chainId === id)),
+    [requestedIds, chainsQuery.data]
+  );
+  useEffect(() => {
+    if (chainsQuery.data && selectedIds.length !== requestedIds.length) {
+      setUrlState({ chains: selectedIds }, { replace: true });
+    }
+  }, [chainsQuery.data, selectedIds, requestedIds, setUrlState]);
+  const tpsQuery = useQuery(
+    selectedIds.length ? queryKeys.compareTpsHistory(selectedIds, timeframe) : null,
+    () => getTPSHistoryForChains(selectedIds, timeframe)
+  );
+  const txQuery = useQuery(
+    selectedIds.length ? queryKeys.compareCumulativeTxCount(selectedIds, timeframe) : null,
+    () => getCumulativeTxCountForChains(selectedIds, timeframe)
+  );
+
+  // Retrying only the combined key would reuse the per-chain entries, so those are refetched too
+  const retryTps = () => {
+    invalidateQueries(selectedIds.map(chainId => queryKeys.tpsHistory(timeframe, chainId)));
+    tpsQuery.refetch();
+  };
+  const retryTx = () => {
+    invalidateQueries(selectedIds.map(chainId => queryKeys.cumulativeTxCount(chainId, timeframe)));
+    txQuery.refetch();
+  };
+
+  const allChains = useMemo(
+    () => [...(chainsQuery.data ?? [])].sort((a, b) => a.chainName.localeCompare(b.chainName)),
+    [chainsQuery.data]
+  );
+  const selectedChains = useMemo(
+    () => selectedIds
+      .map(id => allChains.find(chain => chain.chainId === id))
+      .filter((chain): chain is Chain => !!chain),
+    [selectedIds, allChains]
+  );
+
+  const updateSelection = (chainIds: string[]) => {
+    setUrlState({ chains: chainIds });
+  };
+
+  const tpsSeries = useMemo(() => selectedChains.map((chain, index) => ({
+    chainId: chain.chainId,
+    name: chain.chainName,
+    color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+    points: (tpsQuery.data?.[chain.chainId] ?? []).map(item => ({ timestamp: item.timestamp, value: item.totalTps })),
+  })), [selectedChains, tpsQuery.data]);
+
+  const txSeries = useMemo(() => selectedChains.map((chain, index) => ({
+    chainId: chain.chainId,
+    name: chain.chainName,
+    color: COMPARE_COLORS[index % COMPARE_COLORS.length],
+    points: txQuery.data?.[chain.chainId] ?? [],
+  })), [selectedChains, txQuery.data]);
+
+  const availableChains = allChains.filter(chain => !selectedIds.includes(chain.chainId));
+  const canAddMore = selectedIds.length < MAX_COMPARED_CHAINS;
+
+  const tableRows: { label: string; render: (chain: Chain) => React.ReactNode }[] = [
+    { label: 'Validators', render: chain => chain.validators.length.toLocaleString() },
+    { label: 'Active Validators', render: chain => chain.validators.filter(validator => validator.active).length.toLocaleString() },
+    {
+      label: 'Average Uptime',
+      render: chain => {
+        const uptime = getAverageUptime(chain);
+        return uptime === null ? 'N/A' : `${uptime.toFixed(2)}%`;
+      },
+    },
+    {
+      label: 'Total Stake',
+      render: chain => chain.validators.reduce((sum, validator) => sum + validator.weight, 0).toLocaleString(),
+    },
+    {
+      label: 'Network Token',
+      render: chain => chain.networkToken ? `${chain.networkToken.name} (${chain.networkToken.symbol})` : 'N/A',
+    },
+    { label: 'Current TPS', render: chain => chain.tps ? chain.tps.value.toFixed(2) : 'N/A' },
+  ];
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <StatusBar health={health ?? null} />
+
+      <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => navigate('/')}
+          className="inline-flex items-center px-3 py-2 mb-6 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Dashboard
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Compare Chains</h2>
+          </div>
+
+          <div className="self-start">
+            <TimeframeSelector value={timeframe} onChange={range => setUrlState({ range })} />
+          </div>
+        </div>
+
+        {/* Selected chains */}
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          {selectedChains.map((chain, index) => (
+            <span
+              key={chain.chainId}
+              className="inline-flex items-center gap-2 pl-3 pr-1 py-1 rounded-full bg-white dark:bg-dark-800 border border-gray-200 dark:border-dark-700 text-sm text-gray-900 dark:text-white"
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: COMPARE_COLORS[index % COMPARE_COLORS.length] }} />
+              {chain.chainName}
+              <button
+                onClick={() => updateSelection(selectedIds.filter(id => id !== chain.chainId))}
+                className="p-1 rounded-full text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-dark-700"
+                aria-label={`Remove ${chain.chainName}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+
+          {canAddMore && availableChains.length > 0 && (
+            <div className="relative">
+              <Plus className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+              <select
+                value=""
+                onChange={(e) => e.target.value && updateSelection([...selectedIds, e.target.value])}
+                aria-label="Add chain to comparison"
+                className="pl-8 pr-8 py-1.5 rounded-full border border-dashed border-gray-300 dark:border-gray-600 bg-white dark:bg-dark-800 text-sm text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="">Add chain</option>
+                {availableChains.map(chain => (
+                  <option key={chain.chainId} value={chain.chainId}>{chain.chainName}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {selectedIds.length}/{MAX_COMPARED_CHAINS} selected
+          </span>
+        </div>
+
+        {chainsQuery.loading ? (
+          <div className="flex justify-center py-24">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : chainsQuery.error ? (
+          <div className="text-center py-24">
+            <p className="text-gray-600 dark:text-gray-300 mb-4">Failed to load chains</p>
+            <button
+              onClick={chainsQuery.refetch}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <RefreshCw className="-ml-1 mr-2 h-4 w-4" />
+              Retry
+            </button>
+          </div>
+        ) : selectedChains.length === 0 ? (
+          <div className="text-center py-24 bg-white dark:bg-dark-800 rounded-lg shadow-md">
+            <p className="text-gray-600 dark:text-gray-300">
+              Pick up to {MAX_COMPARED_CHAINS} chains above, or select them on the dashboard.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <CompareChart
+                title="TPS"
+                icon={<Activity className="w-5 h-5 text-blue-500" />}
+                series={tpsSeries}
+                loading={tpsQuery.loading}
+                error={tpsQuery.error}
+                onRetry={retryTps}
+                valueFormatter={value => value.toFixed(2)}
+              />
+              <CompareChart
+                title="Cumulative Transactions"
+                icon={<BarChart3 className="w-5 h-5 text-blue-500" />}
+                series={txSeries}
+                loading={txQuery.loading}
+                error={txQuery.error}
+                onRetry={retryTx}
+                valueFormatter={formatCompact}
+              />
+            </div>
+
+            <div className="bg-white dark:bg-dark-800 rounded-lg shadow-md overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Metric
+                    </th>
+                    {selectedChains.map((chain, index) => (
+                      <th
+                        key={chain.chainId}
+                        className="px-6 py-3 bg-gray-50 dark:bg-dark-800/50 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                      >
+                        <button
+                          onClick={() => navigate(`/chain/${chain.chainId}`)}
+                          className="inline-flex items-center gap-2 hover:text-blue-600 dark:hover:text-blue-400"
+                        >
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: COMPARE_COLORS[index % COMPARE_COLORS.length] }} />
+                          {chain.chainName}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {tableRows.map(row => (
+                    <tr key={row.label}>
+                      <td className="px-6 py-3 text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">{row.label}</td>
+                      {selectedChains.map(chain => (
+                        <td key={chain.chainId} className="px-6 py-3 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {row.render(chain)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import React, { useEffect, useState } from 'react';
-import { getChains, getHealth } from '../api';
-import { Chain, HealthStatus } from '../types';
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getChains, getHealth, queryKeys } from '../api';
+import { Chain } from '../types';
 import { ChainCard } from '../components/ChainCard';
 import { StatusBar } from '../components/StatusBar';
 import { TVLChart } from '../components/TVLChart';
@@ -8,73 +9,114 @@ import { L1MetricsChart } from '../components/L1MetricsChart';
 import { TeleporterSankeyDiagram } from '../components/TeleporterSankeyDiagram';
 import { NetworkTopologyGraph } from '../components/NetworkTopologyGraph';
 import { Footer } from '../components/Footer';
-import { LayoutGrid, Activity, Network, Search } from 'lucide-react';
+import { LayoutGrid, Activity, Network, Search, ArrowUpDown, GitCompare, X, Star, TrendingUp, ArrowRight } from 'lucide-react';
 import { TeleporterDailyChart } from '../components/TeleporterDailyChart';
+import { ChartSyncProvider, ChartZoomIndicator } from '../components/ChartSyncProvider';
+import { WatchlistSection } from '../components/WatchlistSection';
+import { LiveModeSelector } from '../components/LiveModeSelector';
+import { LastUpdated } from '../components/LastUpdated';
+import { useQuery } from '../hooks/useQuery';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { useChainRegistry } from '../hooks/useChainRegistry';
+import { useLiveMode } from '../hooks/useLiveMode';
+import { useUrlParams } from '../hooks/useUrlState';
+import { Timeframe } from '../types';
+import { UrlParamsSchema, booleanParam, enumParam, stringParam, timeframeParam } from '../utils/urlState';
+import { getDecentralizationMetrics, compareDecentralization } from '../utils/decentralization';
+import { MAX_COMPARED_CHAINS, getCompareUrl } from '../utils/compare';
+import { getTeleporterExplorerUrl } from '../utils/teleporterRoutes';
+
+type ChainSortOption = 'default' | 'most-decentralized' | 'least-decentralized';
+
+const SORT_OPTIONS: { id: ChainSortOption; name: string }[] = [
+  { id: 'default', name: 'Default order' },
+  { id: 'most-decentralized', name: 'Most decentralized' },
+  { id: 'least-decentralized', name: 'Least decentralized' },
+];
+
+interface DashboardUrlState {
+  q: string;
+  sort: ChainSortOption;
+  starred: boolean;
+  // Shared timeframe of the network metrics charts
+  range: Timeframe;
+}
+
+const URL_PARAMS: UrlParamsSchema<DashboardUrlState> = {
+  q: { codec: stringParam, defaultValue: '' },
+  sort: { codec: enumParam(SORT_OPTIONS.map(option => option.id)), defaultValue: 'default' },
+  starred: { codec: booleanParam, defaultValue: false },
+  range: { codec: timeframeParam, defaultValue: 30 },
+};
+
+// Filter chains with at least 1 validator, but always include Avalanche chains,
+// then sort with C-Chain first and the rest alphabetically
+function prepareChains(chainsData: Chain[]): Chain[] {
+  const filteredChains = chainsData.filter(chain => 
+    // Include chains with validators
+    (chain.validators && chain.validators.length >= 1) ||
+    // OR include any Avalanche chain regardless of validators
+    chain.chainName.toLowerCase().includes('avalanche') ||
+    chain.chainName.toLowerCase().includes('c-chain')
+  );
+
+  return filteredChains.sort((a, b) => {
+    const isAvalancheA = a.chainName.toLowerCase().includes('c-chain');
+    const isAvalancheB = b.chainName.toLowerCase().includes('c-chain');
+
+    if (isAvalancheA && !isAvalancheB) return -1;
+    if (!isAvalancheA && isAvalancheB) return 1;
+    return a.chainName.localeCompare(b.chainName);
+  });
+}
 
 export function Dashboard() {
-  const [chains, setChains] = useState<Chain[]>([]);
-  const [health, setHealth] = useState<HealthStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [retrying, setRetrying] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-
-  async function fetchData() {
-    try {
-      setLoading(true);
-      setError(null);
-      const [chainsData, healthData] = await Promise.all([
-        getChains(),
-        getHealth()
-      ]);
-      
-      // Filter chains with at least 1 validator, but always include Avalanche chains
-      const filteredChains = chainsData.filter(chain => 
-        // Include chains with validators
-        (chain.validators && chain.validators.length >= 1) ||
-        // OR include any Avalanche chain regardless of validators
-        chain.chainName.toLowerCase().includes('avalanche') ||
-        chain.chainName.toLowerCase().includes('c-chain')
-      );
-
-      // Sort chains: C-Chain first, then alphabetically
-      const sortedChains = filteredChains.sort((a, b) => {
-        const isAvalancheA = a.chainName.toLowerCase().includes('c-chain');
-        const isAvalancheB = b.chainName.toLowerCase().includes('c-chain');
-
-        if (isAvalancheA && !isAvalancheB) return -1;
-        if (!isAvalancheA && isAvalancheB) return 1;
-        return a.chainName.localeCompare(b.chainName);
-      });
-      
-      setChains(sortedChains);
-      setHealth(healthData);
-      setError(null);
-    } catch (err) {
-      setError('Unable to connect to the server. Please try again later.');
-    } finally {
-      setLoading(false);
-      setRetrying(false);
-    }
-  }
+  const navigate = useNavigate();
+  const { interval: liveInterval } = useLiveMode();
+  // Chains only poll in live mode
+  const chainsQuery = useQuery(queryKeys.chains, getChains, { refetchInterval: liveInterval || undefined });
+  // Refresh health status every 5 minutes, or faster in live mode
+  const { data: health } = useQuery(queryKeys.health, getHealth, { refetchInterval: liveInterval || 5 * 60 * 1000 });
+  const [urlState, setUrlState] = useUrlParams(URL_PARAMS);
+  const { q: searchTerm, sort: sortOption, starred: starredOnly } = urlState;
+  const [comparedChainIds, setComparedChainIds] = useState<string[]>([]);
+  const { chainIds: starredChainIds, isStarred } = useWatchlist();
+
+  const chains = useMemo(() => prepareChains(chainsQuery.data ?? []), [chainsQuery.data]);
+  const { registry } = useChainRegistry();
+  const loading = chainsQuery.loading;
+  const error = chainsQuery.error ? 'Unable to connect to the server. Please try again later.' : null;
+  const retrying = !!chainsQuery.error && chainsQuery.fetching;
 
-  useEffect(() => {
-    fetchData();
-    
-    // Refresh health status every 5 minutes (increased from 1 minute)
-    const healthInterval = setInterval(() => {
-      getHealth().then(setHealth).catch(console.error);
-    }, 5 * 60 * 1000);
-
-    return () => clearInterval(healthInterval);
-  }, []);
-
-  // Filter chains based on search term
-  const filteredChains = chains.filter(chain =>
-    chain.chainName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    chain.chainId.toLowerCase().includes(searchTerm.toLowerCase())
+  const decentralization = useMemo(
+    () => new Map(chains.map(chain => [chain.chainId, getDecentralizationMetrics(chain.validators || [])])),
+    [chains]
   );
 
+  // Filter chains based on search term and the starred toggle, then apply the selected sort.
+  // The search matches chain, blockchain and subnet IDs as well as names and aliases
+  const filteredChains = useMemo(() => {
+    const matching = chains.filter(chain =>
+      (!starredOnly || isStarred(chain.chainId)) && registry.matches(chain, searchTerm)
+    );
+    if (sortOption === 'default') return matching;
+
+    const direction = sortOption === 'most-decentralized' ? 1 : -1;
+    return [...matching].sort((a, b) => {
+      const metricsA = decentralization.get(a.chainId) ?? null;
+      const metricsB = decentralization.get(b.chainId) ?? null;
+      // Chains without staked validators stay at the end in both directions
+      if (!metricsA || !metricsB) return compareDecentralization(metricsA, metricsB);
+      return direction * compareDecentralization(metricsA, metricsB);
+    });
+  }, [chains, registry, searchTerm, sortOption, decentralization, starredOnly, isStarred]);
+
+  const toggleCompared = (chainId: string, selected: boolean) => {
+    setComparedChainIds(prev => selected
+      ? (prev.includes(chainId) || prev.length >= MAX_COMPARED_CHAINS ? prev : [...prev, chainId])
+      : prev.filter(id => id !== chainId));
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -92,10 +134,7 @@ export function Dashboard() {
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Connection Error</h2>
             <p className="text-gray-600 dark:text-gray-300 mb-6">{error}</p>
             <button
-              onClick={() => {
-                setRetrying(true);
-                fetchData();
-              }}
+              onClick={chainsQuery.refetch}
               disabled={retrying}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -119,15 +158,34 @@ export function Dashboard() {
 
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
-      <StatusBar health={health} />
+      <StatusBar health={health ?? null} />
       
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-end mb-6">
+          <LiveModeSelector />
+        </div>
+
+        {starredChainIds.length > 0 && (
+          <div className="mb-8">
+            <WatchlistSection chains={chains} />
+          </div>
+        )}
+
         <div className="mb-8">
-          <div className="flex items-center gap-2 mb-4">
-            <Network className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              Avalanche Interchain Messaging
-            </h2>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-2">
+              <Network className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Avalanche Interchain Messaging
+              </h2>
+            </div>
+            <button
+              onClick={() => navigate(getTeleporterExplorerUrl())}
+              className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Explore flows
+              <ArrowRight className="w-4 h-4 ml-1" />
+            </button>
           </div>
           
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -136,9 +194,26 @@ export function Dashboard() {
           </div>
         </div>
 
-        <div className="mb-8">
-          <TeleporterDailyChart />
-        </div>
+        {/* Charts below share their timeframe, crosshair and brushed zoom */}
+        <ChartSyncProvider timeframe={urlState.range} onTimeframeChange={range => setUrlState({ range })}>
+          <div className="mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+              <div className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                  Network Metrics
+                </h2>
+              </div>
+              <ChartZoomIndicator />
+            </div>
+
+            <div className="space-y-6">
+              <TVLChart />
+              <L1MetricsChart />
+              <TeleporterDailyChart />
+            </div>
+          </div>
+        </ChartSyncProvider>
 
         <div className="mb-8">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
@@ -147,38 +222,102 @@ export function Dashboard() {
               <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
                 Active Chains
               </h2>
+              <LastUpdated updatedAt={chainsQuery.updatedAt} fetching={chainsQuery.fetching} className="ml-2" />
             </div>
 
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Search className="h-5 w-5 text-gray-400" />
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => setUrlState({ starred: !starredOnly })}
+                aria-pressed={starredOnly}
+                className={`inline-flex items-center justify-center px-3 py-2 border rounded-lg text-sm font-medium transition-colors ${
+                  starredOnly
+                    ? 'border-yellow-400 bg-yellow-50 dark:bg-yellow-500/10 text-yellow-700 dark:text-yellow-400'
+                    : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-dark-800 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-dark-700'
+                }`}
+              >
+                <Star className={`w-4 h-4 mr-1.5 ${starredOnly ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                Starred only
+              </button>
+
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <ArrowUpDown className="h-4 w-4 text-gray-400" />
+                </div>
+                <select
+                  value={sortOption}
+                  onChange={(e) => setUrlState({ sort: e.target.value as ChainSortOption })}
+                  aria-label="Sort chains"
+                  className="block w-full pl-9 pr-8 py-2 border border-gray-300 dark:border-gray-600 rounded-lg leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  {SORT_OPTIONS.map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  placeholder="Search chains by name or ID..."
+                  value={searchTerm}
+                  onChange={(e) => setUrlState({ q: e.target.value }, { replace: true })}
+                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
               </div>
-              <input
-                type="text"
-                placeholder="Search chains by name or ID..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg leading-5 bg-white dark:bg-dark-800 text-gray-900 dark:text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              />
             </div>
           </div>
 
           {filteredChains.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-gray-500 dark:text-gray-400">
-                No chains found matching "{searchTerm}"
+                {starredOnly && !searchTerm
+                  ? 'No starred chains yet. Use the star on a chain card to add it to your watchlist.'
+                  : `No chains found matching "${searchTerm}"`}
               </p>
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {filteredChains.map(chain => (
-                <ChainCard key={chain.chainId} chain={chain} />
+                <ChainCard
+                  key={chain.chainId}
+                  chain={chain}
+                  selected={comparedChainIds.includes(chain.chainId)}
+                  selectionDisabled={comparedChainIds.length >= MAX_COMPARED_CHAINS}
+                  onSelectChange={(selected) => toggleCompared(chain.chainId, selected)}
+                />
               ))}
             </div>
           )}
         </div>
       </main>
 
+      {comparedChainIds.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-3 rounded-full shadow-lg bg-white dark:bg-dark-800 border border-gray-200 dark:border-dark-700">
+          <span className="text-sm text-gray-700 dark:text-gray-200">
+            {comparedChainIds.length}/{MAX_COMPARED_CHAINS} chains selected
+          </span>
+          <button
+            onClick={() => navigate(getCompareUrl(comparedChainIds))}
+            disabled={comparedChainIds.length < 2}
+            className="inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={comparedChainIds.length < 2 ? 'Select at least two chains' : undefined}
+          >
+            <GitCompare className="w-4 h-4 mr-1.5" />
+            Compare
+          </button>
+          <button
+            onClick={() => setComparedChainIds([])}
+            className="p-1 rounded-full text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-dark-700"
+            aria-label="Clear comparison selection"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <Footer />
     </div>
   );
@@ -0,0 +1,377 @@
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  Filler
+} from 'chart.js';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, ArrowLeft, ArrowRight, ArrowUp, ArrowDown, Minus, Network, RefreshCw, ArrowLeftRight } from 'lucide-react';
+import { getHealth, getTeleporterDailyHistory, isFallbackData, queryKeys } from '../api';
+import { StatusBar } from '../components/StatusBar';
+import { Footer } from '../components/Footer';
+import { TimeframeSelector } from '../components/TimeframeSelector';
+import { TeleporterSankeyDiagram } from '../components/TeleporterSankeyDiagram';
+import { useQuery } from '../hooks/useQuery';
+import { useOfflineSnapshot, formatSnapshotAge } from '../hooks/useOfflineSnapshot';
+import { useTheme } from '../hooks/useTheme';
+import { useUrlParams } from '../hooks/useUrlState';
+import { UrlParamsSchema, stringParam } from '../utils/urlState';
+import {
+  TELEPORTER_PERIODS,
+  TeleporterPeriod,
+  TeleporterRoute,
+  TeleporterRouteRanking,
+  getComparisonRange,
+  getRouteChains,
+  getRouteSeries,
+  isSameRoute,
+  rankRoutes,
+  splitPeriods,
+  teleporterPeriodParam
+} from '../utils/teleporterRoutes';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend, Filler);
+
+// Routes listed in the ranking table
+const MAX_RANKED_ROUTES = 15;
+
+interface TeleporterUrlState {
+  from: string;
+  to: string;
+  period: TeleporterPeriod;
+}
+
+const URL_PARAMS: UrlParamsSchema<TeleporterUrlState> = {
+  from: { codec: stringParam, defaultValue: '' },
+  to: { codec: stringParam, defaultValue: '' },
+  period: { codec: teleporterPeriodParam, defaultValue: 30 },
+};
+
+const formatShare = (share: number) => `${(share * 100).toFixed(share > 0 && share < 0.01 ? 2 : 1)}%`;
+
+function formatChange(current: number, previous: number): string | null {
+  if (previous === 0) return current > 0 ? 'new' : null;
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+}
+
+function RankChange({ ranking }: { ranking: TeleporterRouteRanking }) {
+  if (ranking.previousRank === null) {
+    return <span className="text-xs font-medium text-blue-600 dark:text-blue-400">New</span>;
+  }
+  const change = ranking.previousRank - ranking.rank;
+  if (change === 0) {
+    return <Minus className="w-4 h-4 text-gray-400" aria-label="No change" />;
+  }
+  const Icon = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`inline-flex items-center text-xs font-medium ${change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+      title={`#${ranking.previousRank} in the previous period`}
+    >
+      <Icon className="w-3.5 h-3.5 mr-0.5" />
+      {Math.abs(change)}
+    </span>
+  );
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string | null }) {
+  return (
+    <div className="bg-gray-50 dark:bg-dark-700/50 rounded-lg p-3">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-2xl font-bold text-gray-900 dark:text-white">{value}</p>
+      {detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+export function Teleporter() {
+  const navigate = useNavigate();
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [urlState, setUrlState] = useUrlParams(URL_PARAMS);
+  const { period } = urlState;
+
+  // One request covers the selected period and the one before it
+  const range = useMemo(() => getComparisonRange(period), [period]);
+  const { data: health } = useQuery(queryKeys.health, getHealth);
+  const historyKey = queryKeys.teleporterDailyHistory(range);
+  const historyQuery = useQuery(historyKey, () => getTeleporterDailyHistory(range));
+  // The history getter falls back to an empty list, which must not read as a quiet period
+  const historyFailed = !!historyQuery.error || isFallbackData(historyQuery.data);
+  const offlineSnapshot = useOfflineSnapshot();
+  const fromSnapshot = offlineSnapshot.keys.includes(historyKey);
+
+  const periods = useMemo(() => splitPeriods(historyQuery.data ?? [], period), [historyQuery.data, period]);
+  const rankings = useMemo(() => rankRoutes(periods), [periods]);
+  const chains = useMemo(() => getRouteChains(historyQuery.data ?? []), [historyQuery.data]);
+
+  // Without a route in the URL, the busiest one is shown
+  const route = useMemo<TeleporterRoute | null>(() => (
+    urlState.from && urlState.to ? { source: urlState.from, target: urlState.to } : rankings[0] ?? null
+  ), [urlState.from, urlState.to, rankings]);
+  const ranking = route ? rankings.find(item => isSameRoute(item, route)) : undefined;
+  const series = useMemo(() => (route ? getRouteSeries(periods.current, route) : []), [periods, route]);
+
+  const periodTotal = periods.current.reduce((sum, day) => sum + day.totalMessages, 0);
+  const routeTotal = series.reduce((sum, point) => sum + point.messages, 0);
+  const previousTotal = route ? getRouteSeries(periods.previous, route).reduce((sum, point) => sum + point.messages, 0) : 0;
+
+  const selectRoute = (next: TeleporterRoute) => {
+    setUrlState({ from: next.source, to: next.target });
+  };
+
+  // Keep the destination when the new source also sends there
+  const selectSource = (source: string) => {
+    const targets = rankings.filter(item => item.source === source).map(item => item.target);
+    const target = route && targets.includes(route.target) ? route.target : targets[0] ?? route?.target ?? '';
+    selectRoute({ source, target });
+  };
+
+  const chartData = {
+    labels: series.map(point => format(parseISO(point.date), 'MMM d')),
+    datasets: [
+      {
+        label: 'Messages',
+        data: series.map(point => point.messages),
+        yAxisID: 'y',
+        fill: true,
+        borderColor: isDark ? 'rgb(129, 140, 248)' : 'rgb(99, 102, 241)',
+        backgroundColor: isDark ? 'rgba(129, 140, 248, 0.2)' : 'rgba(99, 102, 241, 0.1)',
+        borderWidth: 2,
+        tension: 0.3,
+        pointRadius: series.length > 60 ? 0 : 3,
+      },
+      {
+        label: 'Share of all messages',
+        data: series.map(point => point.share * 100),
+        yAxisID: 'share',
+        borderColor: 'rgb(234, 88, 12)',
+        backgroundColor: 'rgb(234, 88, 12)',
+        borderWidth: 1.5,
+        borderDash: [4, 4],
+        tension: 0.3,
+        pointRadius: 0,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: { color: isDark ? '#e2e8f0' : '#1e293b', boxWidth: 12 },
+      },
+      tooltip: {
+        backgroundColor: isDark ? 'rgba(30, 41, 59, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        titleColor: isDark ? '#e2e8f0' : '#1e293b',
+        bodyColor: isDark ? '#e2e8f0' : '#1e293b',
+        borderColor: isDark ? 'rgba(148, 163, 184, 0.2)' : 'rgba(0, 0, 0, 0.1)',
+        borderWidth: 1,
+        callbacks: {
+          label: (context: { datasetIndex: number; dataIndex: number }) => {
+            const point = series[context.dataIndex];
+            return context.datasetIndex === 0
+              ? `Messages: ${point.messages.toLocaleString()} of ${point.total.toLocaleString()}`
+              : `Share: ${formatShare(point.share)}`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', maxTicksLimit: 10 },
+      },
+      y: {
+        beginAtZero: true,
+        grid: { color: isDark ? 'rgba(148, 163, 184, 0.1)' : 'rgba(0, 0, 0, 0.05)' },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b' },
+      },
+      share: {
+        position: 'right' as const,
+        beginAtZero: true,
+        max: 100,
+        grid: { display: false },
+        ticks: { color: isDark ? '#94a3b8' : '#64748b', callback: (value: string | number) => `${value}%` },
+      },
+    },
+  };
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-dark-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-dark-900">
+      <StatusBar health={health ?? null} />
+
+      <main className="flex-1 max-w-7xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => navigate('/')}
+          className="inline-flex items-center px-3 py-2 mb-6 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-dark-800 hover:bg-gray-50 dark:hover:bg-dark-700"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Dashboard
+        </button>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-2">
+            <Network className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Interchain Message Flows</h2>
+          </div>
+
+          <div className="self-start">
+            <TimeframeSelector
+              value={period}
+              onChange={timeframe => setUrlState({ period: timeframe as TeleporterPeriod })}
+              presets={[...TELEPORTER_PERIODS]}
+              allowCustom={false}
+            />
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <TeleporterSankeyDiagram onLinkClick={selectRoute} />
+        </div>
+
+        {fromSnapshot && offlineSnapshot.age !== null && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 mb-6 flex items-start gap-2">
+            <AlertTriangle className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-yellow-700 dark:text-yellow-300">
+              The API is unreachable. Showing saved message history from {formatSnapshotAge(offlineSnapshot.age)} ago.
+            </p>
+          </div>
+        )}
+
+        {historyQuery.loading ? (
+          <div className="flex justify-center py-24">
+            <RefreshCw className="h-10 w-10 text-blue-500 animate-spin" />
+          </div>
+        ) : rankings.length === 0 ? (
+          <div className="text-center py-24 bg-white dark:bg-dark-800 rounded-lg shadow-md">
+            <p className="text-gray-600 dark:text-gray-300 mb-4">
+              {historyFailed ? 'Failed to load message history' : `No messages in the last ${period} days`}
+            </p>
+            <button
+              onClick={historyQuery.refetch}
+              disabled={historyQuery.fetching}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`-ml-1 mr-2 h-4 w-4 ${historyQuery.fetching ? 'animate-spin' : ''}`} />
+              Retry
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Selected route */}
+            <div className="lg:col-span-3 bg-white dark:bg-dark-800 rounded-lg shadow-md p-6">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-6">
+                <label className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Source</span>
+                  <select value={route?.source ?? ''} onChange={(e) => selectSource(e.target.value)} className={selectClassName}>
+                    {chains.sources.map(chain => <option key={chain} value={chain}>{chain}</option>)}
+                  </select>
+                </label>
+                <button
+                  onClick={() => route && selectRoute({ source: route.target, target: route.source })}
+                  className="self-center sm:self-end p-2 rounded-full text-gray-500 hover:text-blue-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-blue-400 dark:hover:bg-dark-700"
+                  title="Swap direction"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                </button>
+                <label className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Destination</span>
+                  <select
+                    value={route?.target ?? ''}
+                    onChange={(e) => route && selectRoute({ source: route.source, target: e.target.value })}
+                    className={selectClassName}
+                  >
+                    {chains.targets.map(chain => <option key={chain} value={chain}>{chain}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+                <StatCard
+                  label={`Messages (${period}d)`}
+                  value={routeTotal.toLocaleString()}
+                  detail={formatChange(routeTotal, previousTotal) && `${formatChange(routeTotal, previousTotal)} vs previous ${period}d`}
+                />
+                <StatCard
+                  label="Share of all messages"
+                  value={formatShare(periodTotal > 0 ? routeTotal / periodTotal : 0)}
+                  detail={ranking ? `${formatShare(ranking.previousShare)} in the previous ${period}d` : null}
+                />
+                <StatCard
+                  label="Rank"
+                  value={ranking ? `#${ranking.rank} of ${rankings.length}` : '—'}
+                  detail={ranking
+                    ? ranking.previousRank === null ? 'Not active in the previous period' : `#${ranking.previousRank} in the previous ${period}d`
+                    : null}
+                />
+              </div>
+
+              {routeTotal === 0 ? (
+                <div className="h-72 flex items-center justify-center text-center text-gray-600 dark:text-gray-300">
+                  No messages from {route?.source} to {route?.target} in the last {period} days
+                </div>
+              ) : (
+                <div className="h-72">
+                  <Line data={chartData} options={chartOptions} />
+                </div>
+              )}
+            </div>
+
+            {/* Ranking */}
+            <div className="lg:col-span-2 bg-white dark:bg-dark-800 rounded-lg shadow-md overflow-hidden self-start">
+              <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Busiest Routes</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Last {period} days, rank change vs the {period} days before</p>
+              </div>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {rankings.slice(0, MAX_RANKED_ROUTES).map(item => {
+                  const selected = route !== null && isSameRoute(item, route);
+                  return (
+                    <li key={`${item.source}-${item.target}`}>
+                      <button
+                        onClick={() => selectRoute(item)}
+                        className={`w-full flex items-center gap-3 px-6 py-3 text-left text-sm transition-colors ${
+                          selected ? 'bg-blue-50 dark:bg-blue-500/10' : 'hover:bg-gray-50 dark:hover:bg-dark-700'
+                        }`}
+                      >
+                        <span className="w-8 font-mono text-gray-500 dark:text-gray-400">#{item.rank}</span>
+                        <span className="flex-1 min-w-0 flex items-center gap-1 text-gray-900 dark:text-white">
+                          <span className="truncate">{item.source}</span>
+                          <ArrowRight className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+                          <span className="truncate">{item.target}</span>
+                        </span>
+                        <span className="text-right">
+                          <span className="block font-medium text-gray-900 dark:text-white">{item.messages.toLocaleString()}</span>
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{formatShare(item.share)}</span>
+                        </span>
+                        <span className="w-10 flex justify-end">
+                          <RankChange ranking={item} />
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 // src/services/acpService.ts
-import { EnhancedACP, ACPStats } from '../types';
+import { EnhancedACP, ACPStats, ACPSearchIndex, ACPSearchResponse, ACPHistory, ACPActivityFeed } from '../types';
+import { searchACPIndex } from '../utils/acpSearch';
 
 export const acpService = {
   /**
@@ -98,7 +99,75 @@ export const acpService = {
   
 
   /**
-   * Search ACPs with filters
+   * Load the revision history of one ACP, including the file content at each commit
+   */
+  async loadACPHistory(number: string): Promise<ACPHistory | null> {
+    try {
+      const response = await fetch(`/acps/history/${number}.json`);
+      if (!response.ok) {
+        throw new Error(`Failed to load history for ACP-${number}: ${response.statusText}`);
+      }
+
+      const history = await response.json();
+      if (!Array.isArray(history.revisions)) {
+        console.warn(`Invalid history structure for ACP-${number}`);
+        return null;
+      }
+      return history;
+    } catch (error) {
+      console.error(`Error loading history for ACP-${number}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Load the feed of new ACPs and status changes, newest first
+   */
+  async loadActivity(): Promise<ACPActivityFeed | null> {
+    try {
+      const response = await fetch('/acps/activity.json');
+      if (!response.ok) {
+        throw new Error(`Failed to load ACP activity: ${response.statusText}`);
+      }
+
+      const feed = await response.json();
+      if (!Array.isArray(feed.events)) {
+        console.warn('Invalid ACP activity structure');
+        return null;
+      }
+      return feed;
+    } catch (error) {
+      console.error('Error loading ACP activity:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Load the full-text search index built alongside the processed ACPs
+   */
+  async loadSearchIndex(): Promise<ACPSearchIndex | null> {
+    try {
+      const response = await fetch('/acps/search-index.json');
+      if (!response.ok) {
+        throw new Error(`Failed to load search index: ${response.statusText}`);
+      }
+
+      const index = await response.json();
+      if (!index.terms || !Array.isArray(index.documents)) {
+        console.warn('Invalid search index structure');
+        return null;
+      }
+      return index;
+    } catch (error) {
+      console.error('Error loading search index:', error);
+      // Searching falls back to plain text matching
+      return null;
+    }
+  },
+
+  /**
+   * Search ACPs with filters. Results are ranked by relevance when the
+   * search index is available.
    */
   async searchACPs(
     query: string,
@@ -111,61 +180,81 @@ export const acpService = {
       author: string;
       hasImplementation: boolean;
     }>
-  ): Promise<EnhancedACP[]> {
-    try {
-      const acps = await this.loadACPs();
-      
-      return acps.filter(acp => {
-        // Text search
-        if (query) {
+  ): Promise<ACPSearchResponse> {
+    const [acps, stats, index] = await Promise.all([
+      this.loadACPs(),
+      this.loadACPStats(),
+      query ? this.loadSearchIndex() : Promise.resolve(null),
+    ]);
+    const search = index ? searchACPIndex(index, query) : null;
+    const acpsByNumber = new Map(acps.map(acp => [acp.number, acp]));
+
+    // Ranked index matches, or a plain text match when there is no index
+    const matches = search
+      ? search.hits.flatMap(hit => acpsByNumber.get(hit.number) ?? [])
+      : acps.filter(acp => {
+          if (!query) return true;
           const searchLower = query.toLowerCase();
-          const matchesText = 
+          return (
             acp.title.toLowerCase().includes(searchLower) ||
             acp.number.includes(query) ||
             acp.abstract.toLowerCase().includes(searchLower) ||
             acp.tags?.some(tag => tag.toLowerCase().includes(searchLower)) ||
-            acp.authors.some(author => 
+            acp.authors.some(author =>
               author.name.toLowerCase().includes(searchLower) ||
               author.github.toLowerCase().includes(searchLower)
-            );
-          
-          if (!matchesText) return false;
-        }
-        
-        // Apply filters
-        if (filters) {
-          if (filters.status && acp.status !== filters.status) return false;
-          if (filters.track && acp.track !== filters.track) return false;
-          if (filters.complexity && acp.complexity !== filters.complexity) return false;
-          if (filters.category && acp.category !== filters.category) return false;
-          if (filters.impact && acp.impact !== filters.impact) return false;
-          
-          if (filters.author) {
-            const authorLower = filters.author.toLowerCase();
-            const hasAuthor = acp.authors.some(author => 
-              author.name.toLowerCase().includes(authorLower) ||
-              author.github.toLowerCase().includes(authorLower)
-            );
-            if (!hasAuthor) return false;
-          }
-          
-          
-          
-          if (filters.hasImplementation !== null && filters.hasImplementation !== undefined) {
-            const hasImplementation = 
-              acp.implementationStatus !== 'not-started' || 
-              !!acp.implementationUrl ||
-              !!acp.referenceImplementation;
-            if (filters.hasImplementation !== hasImplementation) return false;
-          }
-        }
-        
-        return true;
-      });
-    } catch (error) {
-      console.error('Error searching ACPs:', error);
-      return [];
-    }
+            )
+          );
+        });
+
+    const results = matches.filter(acp => {
+      if (!filters) return true;
+      if (filters.status && acp.status !== filters.status) return false;
+      if (filters.track && acp.track !== filters.track) return false;
+      if (filters.complexity && acp.complexity !== filters.complexity) return false;
+      if (filters.category && acp.category !== filters.category) return false;
+      if (filters.impact && acp.impact !== filters.impact) return false;
+
+      if (filters.author) {
+        const authorLower = filters.author.toLowerCase();
+        const hasAuthor = acp.authors.some(author =>
+          author.name.toLowerCase().includes(authorLower) ||
+          author.github.toLowerCase().includes(authorLower)
+        );
+        if (!hasAuthor) return false;
+      }
+
+      if (filters.hasImplementation !== null && filters.hasImplementation !== undefined) {
+        const hasImplementation =
+          acp.implementationStatus !== 'not-started' ||
+          !!acp.implementationUrl ||
+          !!acp.referenceImplementation;
+        if (filters.hasImplementation !== hasImplementation) return false;
+      }
+
+      return true;
+    });
+
+    const resultNumbers = new Set(results.map(acp => acp.number));
+    return {
+      acps: results,
+      stats: stats ?? { total: acps.length, byStatus: {}, byTrack: {}, byComplexity: {} },
+      total: results.length,
+      query,
+      filters: {
+        status: filters?.status ?? '',
+        track: filters?.track ?? '',
+        complexity: filters?.complexity ?? '',
+        category: filters?.category,
+        impact: filters?.impact,
+        author: filters?.author ?? '',
+        hasDiscussion: null,
+        hasImplementation: filters?.hasImplementation ?? null,
+        search: query,
+      },
+      hits: search?.hits.filter(hit => resultNumbers.has(hit.number)),
+      suggestions: search?.suggestions ?? [],
+    };
   },
 
   /**
@@ -0,0 +1,175 @@
+// src/services/alerts.ts
+// Stores alert rules and the alert history in localStorage and turns rule
+// matches from each poll into alerts. An alert is raised when a rule starts
+// matching a target and not again until that target recovers.
+
+import {
+  AlertRule,
+  AlertRuleType,
+  AlertSnapshot,
+  AlertSource,
+  evaluateAlertRules,
+  getAlertRuleSource,
+} from '../utils/alertRules';
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  title: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface AlertState {
+  rules: AlertRule[];
+  history: AlertEvent[];
+}
+
+type StateListener = (state: AlertState) => void;
+type AlertListener = (event: AlertEvent) => void;
+
+const RULES_KEY = 'l1beat-alert-rules';
+const HISTORY_KEY = 'l1beat-alert-history';
+const MAX_HISTORY = 200;
+
+function readList<T>(key: string): T[] {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, items: T[]) {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.warn(`Failed to persist ${key}:`, error);
+  }
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+let state: AlertState = {
+  rules: readList<AlertRule>(RULES_KEY),
+  history: readList<AlertEvent>(HISTORY_KEY),
+};
+
+// Rule/target pairs that matched on the last evaluation of their source
+const activeKeys = new Map<AlertSource, Set<string>>();
+
+const stateListeners = new Set<StateListener>();
+const alertListeners = new Set<AlertListener>();
+
+function setState(next: Partial<AlertState>) {
+  state = { ...state, ...next };
+  if (next.rules) writeList(RULES_KEY, state.rules);
+  if (next.history) writeList(HISTORY_KEY, state.history);
+  stateListeners.forEach(listener => listener(state));
+}
+
+function showBrowserNotification(event: AlertEvent) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(event.title, { body: event.message, tag: event.id });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Failed to show notification:', error);
+  }
+}
+
+export const alerts = {
+  getState(): AlertState {
+    return state;
+  },
+
+  addRule(rule: { type: AlertRuleType; chainId: string | null; threshold: number | null }) {
+    setState({
+      rules: [...state.rules, { ...rule, id: createId(), enabled: true, createdAt: Date.now() }],
+    });
+  },
+
+  updateRule(id: string, changes: Partial<Omit<AlertRule, 'id' | 'createdAt'>>) {
+    setState({ rules: state.rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)) });
+    // Let an edited rule alert again for targets that still match
+    activeKeys.forEach(keys => keys.forEach(key => {
+      if (key.split('|')[0] === id) keys.delete(key);
+    }));
+  },
+
+  removeRule(id: string) {
+    setState({ rules: state.rules.filter(rule => rule.id !== id) });
+  },
+
+  clearHistory() {
+    setState({ history: [] });
+  },
+
+  /**
+   * Evaluate rules against data from one poll and raise alerts for
+   * rule/target pairs that started matching since the previous poll
+   * @param source Endpoint the snapshot came from
+   * @returns Alerts raised by this evaluation
+   */
+  evaluate(source: AlertSource, snapshot: AlertSnapshot): AlertEvent[] {
+    const rules = state.rules.filter(rule => getAlertRuleSource(rule.type) === source);
+    const conditions = evaluateAlertRules(rules, snapshot);
+    const previous = activeKeys.get(source) ?? new Set<string>();
+    activeKeys.set(source, new Set(conditions.map(condition => condition.key)));
+
+    const now = Date.now();
+    const raised = conditions
+      .filter(condition => !previous.has(condition.key))
+      .map(condition => ({
+        id: createId(),
+        ruleId: condition.ruleId,
+        title: condition.title,
+        message: condition.message,
+        timestamp: now,
+      }));
+
+    if (raised.length > 0) {
+      setState({ history: [...raised, ...state.history].slice(0, MAX_HISTORY) });
+      raised.forEach(event => {
+        alertListeners.forEach(listener => listener(event));
+        showBrowserNotification(event);
+      });
+    }
+
+    return raised;
+  },
+
+  /**
+   * Ask for permission to show browser notifications
+   * @returns The resulting permission, or 'unsupported'
+   */
+  async requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (typeof Notification === 'undefined') return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+  },
+
+  /**
+   * Listen for rule and history changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: StateListener): () => void {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Listen for newly raised alerts. Returns an unsubscribe function.
+   */
+  onAlert(listener: AlertListener): () => void {
+    alertListeners.add(listener);
+    return () => {
+      alertListeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,129 @@
+// src/services/chainRegistry.ts
+// Resolves the different ways a chain is referred to (EVM chain ID, blockchain
+// ID, subnet ID, registered name or a short alias) to one canonical Chain.
+// ICM data only carries chain names, so anything that links a message flow to
+// a chain page should go through here instead of matching names by hand.
+import type { Chain } from '../types';
+
+export const UNKNOWN_CHAIN_KEY = 'unknown';
+export const UNKNOWN_CHAIN_LABEL = 'Unknown chains';
+
+export interface ChainResolution {
+  // The reference as it was passed in
+  reference: string;
+  chain: Chain | null;
+  // Chain ID for known chains, UNKNOWN_CHAIN_KEY otherwise
+  key: string;
+  // Short name for charts and labels
+  label: string;
+}
+
+export interface ChainRegistry {
+  chains: Chain[];
+  // False until chain data has been loaded, when every reference is unknown
+  ready: boolean;
+  resolve(reference: string | null | undefined): ChainResolution;
+  getChain(reference: string | null | undefined): Chain | null;
+  getLabel(reference: string | null | undefined): string;
+  // Chain details path, or null when the chain can't be resolved
+  getChainPath(reference: string | null | undefined): string | null;
+  // Case-insensitive substring match on any of the chain's IDs, name or aliases
+  matches(chain: Chain, query: string): boolean;
+}
+
+// Short labels for chains whose registered names are long
+const DISPLAY_NAMES: Record<string, string> = {
+  'Avalanche (C-Chain)': 'C-Chain',
+  'Dexalot L1': 'Dexalot',
+  'zeroone Mainnet L1': 'ZeroOne',
+  'Lamina1 L1': 'Lamina1',
+  'PLYR PHI L1': 'PLYR',
+};
+
+// Extra names the C-Chain goes by in other data sources
+const C_CHAIN_ALIASES = ['c-chain', 'c chain', 'avalanche c-chain', 'avalanche'];
+
+function normalize(reference: string): string {
+  return reference.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isCChain(chain: Chain): boolean {
+  const name = normalize(chain.chainName);
+  return name.includes('c-chain') || name.includes('c chain');
+}
+
+// Every name a chain can be looked up by, e.g. "Dexalot L1" is also "Dexalot"
+function getAliases(chain: Chain): string[] {
+  const name = chain.chainName.trim();
+  const aliases = [name, DISPLAY_NAMES[name] ?? ''];
+
+  // "Avalanche (C-Chain)" is also "C-Chain"
+  const parenthetical = name.match(/\(([^)]+)\)/);
+  if (parenthetical) aliases.push(parenthetical[1], name.replace(parenthetical[0], ''));
+
+  // "zeroone Mainnet L1" is also "zeroone Mainnet" and "zeroone"
+  const withoutL1 = name.replace(/\s+L1$/i, '');
+  aliases.push(withoutL1, withoutL1.replace(/\s+Mainnet$/i, ''));
+
+  if (isCChain(chain)) aliases.push(...C_CHAIN_ALIASES);
+
+  return Array.from(new Set(aliases.map(normalize).filter(Boolean)));
+}
+
+/**
+ * Build a registry over the given chains. IDs take precedence over names, and
+ * the first chain registered under a name keeps it.
+ */
+export function createChainRegistry(chains: Chain[]): ChainRegistry {
+  const byId = new Map<string, Chain>();
+  const byName = new Map<string, Chain>();
+  const aliases = new Map<string, string[]>();
+
+  chains.forEach(chain => {
+    [chain.chainId, chain.platformChainId, chain.subnetId].forEach(id => {
+      if (id && !byId.has(normalize(id))) byId.set(normalize(id), chain);
+    });
+    const chainAliases = getAliases(chain);
+    aliases.set(chain.chainId, chainAliases);
+    chainAliases.forEach(alias => {
+      if (!byName.has(alias)) byName.set(alias, chain);
+    });
+  });
+
+  const getChain = (reference: string | null | undefined): Chain | null => {
+    if (!reference) return null;
+    const key = normalize(reference);
+    return byId.get(key) ?? byName.get(key) ?? null;
+  };
+
+  const resolve = (reference: string | null | undefined): ChainResolution => {
+    const chain = getChain(reference);
+    if (!chain) {
+      return { reference: reference ?? '', chain: null, key: UNKNOWN_CHAIN_KEY, label: UNKNOWN_CHAIN_LABEL };
+    }
+    return {
+      reference: reference ?? '',
+      chain,
+      key: chain.chainId,
+      label: DISPLAY_NAMES[chain.chainName.trim()] ?? chain.chainName,
+    };
+  };
+
+  return {
+    chains,
+    ready: chains.length > 0,
+    resolve,
+    getChain,
+    getLabel: reference => resolve(reference).label,
+    getChainPath: reference => {
+      const chain = getChain(reference);
+      return chain ? `/chain/${chain.chainId}` : null;
+    },
+    matches: (chain, query) => {
+      const term = normalize(query);
+      if (!term) return true;
+      return [chain.chainId, chain.platformChainId, chain.subnetId, ...(aliases.get(chain.chainId) ?? getAliases(chain))]
+        .some(value => !!value && normalize(value).includes(term));
+    },
+  };
+}
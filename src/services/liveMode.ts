@@ -0,0 +1,57 @@
+// src/services/liveMode.ts
+// Dashboard live mode: a user-selected polling interval shared by every
+// widget, persisted in localStorage.
+
+export type LiveInterval = 0 | 30000 | 60000 | 300000;
+
+type IntervalListener = (interval: LiveInterval) => void;
+
+const STORAGE_KEY = 'l1beat-live-interval';
+
+export const LIVE_INTERVALS: { value: LiveInterval; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 30000, label: '30s' },
+  { value: 60000, label: '1m' },
+  { value: 300000, label: '5m' },
+];
+
+function read(): LiveInterval {
+  try {
+    const saved = Number(localStorage.getItem(STORAGE_KEY));
+    return LIVE_INTERVALS.find(option => option.value === saved)?.value ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+let interval = read();
+const listeners = new Set<IntervalListener>();
+
+export const liveMode = {
+  /**
+   * Selected polling interval in milliseconds, 0 when live mode is off
+   */
+  getInterval(): LiveInterval {
+    return interval;
+  },
+
+  setInterval(next: LiveInterval) {
+    interval = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, String(next));
+    } catch (error) {
+      console.warn('Failed to persist live mode interval:', error);
+    }
+    listeners.forEach(listener => listener(interval));
+  },
+
+  /**
+   * Listen for interval changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: IntervalListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,142 @@
+// src/services/offlineCache.ts
+// Persists selected api.ts responses to IndexedDB so the dashboard can fall
+// back to the last successful fetch when the L1Beat API is unreachable, and
+// tracks which queries are currently being served from such a snapshot.
+
+export interface OfflineSnapshot<T = unknown> {
+  key: string;
+  data: T;
+  fetchedAt: number;
+}
+
+export interface OfflineStatus {
+  offline: boolean;
+  // Fetch time of the oldest snapshot currently on screen
+  snapshotAt: number | null;
+  keys: string[];
+}
+
+type StatusListener = (status: OfflineStatus) => void;
+
+const DB_NAME = 'l1beat-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Keys currently served from a snapshot, with the snapshot's fetch time
+const offlineKeys = new Map<string, number>();
+const listeners = new Set<StatusListener>();
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      // IndexedDB is missing in some private browsing modes
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Offline cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+  return openDatabase().then(db => {
+    if (!db) return undefined;
+
+    return new Promise<T | undefined>(resolve => {
+      try {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+          console.warn('Offline cache request failed:', request.error);
+          resolve(undefined);
+        };
+      } catch (error) {
+        console.warn('Offline cache request failed:', error);
+        resolve(undefined);
+      }
+    });
+  });
+}
+
+function notify() {
+  const status = offlineCache.getStatus();
+  listeners.forEach(listener => listener(status));
+}
+
+export const offlineCache = {
+  /**
+   * Read the last persisted response for a query key
+   */
+  get<T>(key: string): Promise<OfflineSnapshot<T> | undefined> {
+    return runRequest<OfflineSnapshot<T>>('readonly', store => store.get(key));
+  },
+
+  /**
+   * Persist a successful response along with its fetch time
+   */
+  async set<T>(key: string, data: T, fetchedAt: number = Date.now()): Promise<void> {
+    await runRequest('readwrite', store => store.put({ key, data, fetchedAt }));
+  },
+
+  /**
+   * Drop every persisted response
+   */
+  async clear(): Promise<void> {
+    await runRequest('readwrite', store => store.clear());
+  },
+
+  /**
+   * Record that a query is being served from a snapshot fetched at the given time
+   */
+  markOffline(key: string, fetchedAt: number) {
+    if (offlineKeys.get(key) === fetchedAt) return;
+    offlineKeys.set(key, fetchedAt);
+    notify();
+  },
+
+  /**
+   * Record that a query has live data again
+   */
+  markOnline(key: string) {
+    if (offlineKeys.delete(key)) {
+      notify();
+    }
+  },
+
+  /**
+   * Whether any query is currently served from a snapshot, and how old it is
+   */
+  getStatus(): OfflineStatus {
+    const fetchTimes = Array.from(offlineKeys.values());
+    return {
+      offline: fetchTimes.length > 0,
+      snapshotAt: fetchTimes.length > 0 ? Math.min(...fetchTimes) : null,
+      keys: Array.from(offlineKeys.keys()),
+    };
+  },
+
+  /**
+   * Listen for offline status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: StatusListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,134 @@
+// src/services/queryClient.ts
+// Keyed query cache shared by every api.ts call. Concurrent requests for the
+// same key share one in-flight promise, and expired entries are served
+// immediately while a background refresh runs (stale-while-revalidate).
+
+export interface QueryEntry<T = unknown> {
+  data?: T;
+  error?: Error;
+  updatedAt: number;
+  promise?: Promise<T>;
+  invalidated?: boolean;
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number;
+  force?: boolean;
+}
+
+type QueryListener = (entry: QueryEntry | undefined) => void;
+
+const DEFAULT_STALE_TIME = 15 * 60 * 1000; // 15 minutes
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<QueryListener>>();
+
+function setEntry(key: string, entry: QueryEntry) {
+  // Always replace the entry so subscribers can compare by reference
+  entries.set(key, entry);
+  listeners.get(key)?.forEach(listener => listener(entry));
+}
+
+export const queryClient = {
+  /**
+   * Resolve a query by key, reusing cached or in-flight data where possible
+   */
+  fetch<T>(key: string, fetcher: () => Promise<T>, options: FetchQueryOptions = {}): Promise<T> {
+    const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+    const entry = entries.get(key) as QueryEntry<T> | undefined;
+    const hasData = entry?.data !== undefined;
+
+    if (!force && hasData && !entry!.invalidated && Date.now() - entry!.updatedAt < staleTime) {
+      return Promise.resolve(entry!.data as T);
+    }
+
+    // Share the request that is already running for this key
+    if (entry?.promise) {
+      return hasData && !force ? Promise.resolve(entry.data as T) : entry.promise;
+    }
+
+    const promise = fetcher()
+      .then(data => {
+        setEntry(key, { data, updatedAt: Date.now() });
+        return data;
+      })
+      .catch(error => {
+        const current = entries.get(key);
+        setEntry(key, {
+          data: current?.data,
+          error: error instanceof Error ? error : new Error(String(error)),
+          updatedAt: current?.updatedAt ?? 0,
+          invalidated: entry?.invalidated,
+        });
+        throw error;
+      });
+
+    setEntry(key, { ...entry, updatedAt: entry?.updatedAt ?? 0, invalidated: false, promise });
+
+    // Serve the stale value right away and let the refresh land in the background
+    if (hasData && !force) {
+      promise.catch(() => undefined);
+      return Promise.resolve(entry!.data as T);
+    }
+
+    return promise;
+  },
+
+  /**
+   * Read the current cache entry for a key without triggering a request
+   */
+  getEntry<T>(key: string): QueryEntry<T> | undefined {
+    return entries.get(key) as QueryEntry<T> | undefined;
+  },
+
+  /**
+   * Seed or overwrite the cached data for a key
+   */
+  setData<T>(key: string, data: T, updatedAt: number = Date.now()) {
+    setEntry(key, { data, updatedAt });
+  },
+
+  /**
+   * Mark every entry whose key starts with the prefix (or equals it, when
+   * exact) as stale and notify subscribers so mounted queries refetch.
+   * Returns the affected keys.
+   */
+  invalidate(keyPrefix: string = '', exact: boolean = false): string[] {
+    const invalidated: string[] = [];
+
+    entries.forEach((entry, key) => {
+      if (exact ? key !== keyPrefix : !key.startsWith(keyPrefix)) return;
+      invalidated.push(key);
+      setEntry(key, { ...entry, error: undefined, invalidated: true });
+    });
+
+    return invalidated;
+  },
+
+  /**
+   * Drop entries entirely, e.g. after the data source changes
+   */
+  remove(keyPrefix: string = '') {
+    Array.from(entries.keys())
+      .filter(key => key.startsWith(keyPrefix))
+      .forEach(key => entries.delete(key));
+  },
+
+  /**
+   * Listen for updates to a single key. Returns an unsubscribe function.
+   */
+  subscribe(key: string, listener: QueryListener): () => void {
+    if (!listeners.has(key)) {
+      listeners.set(key, new Set());
+    }
+    listeners.get(key)!.add(listener);
+
+    return () => {
+      const keyListeners = listeners.get(key);
+      keyListeners?.delete(listener);
+      if (keyListeners && keyListeners.size === 0) {
+        listeners.delete(key);
+      }
+    };
+  },
+};
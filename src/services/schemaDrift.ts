@@ -0,0 +1,77 @@
+// src/services/schemaDrift.ts
+// Collects backend responses that failed schema validation so the dev overlay
+// can list which endpoints drifted from the types the frontend expects.
+
+export interface SchemaDriftRecord {
+  endpoint: string;
+  path: string;
+  message: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+type DriftListener = (records: SchemaDriftRecord[]) => void;
+
+// Cap per report so a list of thousands of bad rows does not flood the overlay
+const MAX_ISSUES_PER_REPORT = 20;
+
+const records = new Map<string, SchemaDriftRecord>();
+const listeners = new Set<DriftListener>();
+
+function notify() {
+  const snapshot = schemaDrift.getRecords();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+export const schemaDrift = {
+  /**
+   * Record validation issues for an endpoint. Repeated issues at the same
+   * path are merged and counted.
+   */
+  report(endpoint: string, issues: { path: string; message: string }[]) {
+    const now = Date.now();
+
+    issues.slice(0, MAX_ISSUES_PER_REPORT).forEach(({ path, message }) => {
+      // Collapse list indexes so data[3].tvl and data[7].tvl share a record
+      const normalizedPath = path.replace(/\[\d+\]/g, '[]');
+      const key = `${endpoint}|${normalizedPath}|${message}`;
+      const existing = records.get(key);
+
+      records.set(key, existing
+        ? { ...existing, count: existing.count + 1, lastSeen: now }
+        : { endpoint, path: normalizedPath, message, count: 1, firstSeen: now, lastSeen: now });
+    });
+
+    if (import.meta.env.DEV) {
+      console.warn(`Schema drift detected for ${endpoint}:`, issues);
+    }
+
+    notify();
+  },
+
+  /**
+   * Current drift records, most recent first
+   */
+  getRecords(): SchemaDriftRecord[] {
+    return Array.from(records.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+  },
+
+  /**
+   * Forget every recorded issue
+   */
+  clear() {
+    records.clear();
+    notify();
+  },
+
+  /**
+   * Listen for new drift records. Returns an unsubscribe function.
+   */
+  subscribe(listener: DriftListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
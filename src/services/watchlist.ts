@@ -0,0 +1,129 @@
+// src/services/watchlist.ts
+// Starred chains, persisted in localStorage so the dashboard can pin the
+// chains a user follows. Exported files can be imported on another browser.
+
+type WatchlistListener = (chainIds: string[]) => void;
+
+const STORAGE_KEY = 'l1beat-watchlist';
+const EXPORT_VERSION = 1;
+
+export interface WatchlistExport {
+  version: number;
+  exportedAt: string;
+  chainIds: string[];
+}
+
+const listeners = new Set<WatchlistListener>();
+
+function normalize(chainIds: unknown[]): string[] {
+  const ids = chainIds
+    .filter((id): id is string | number => typeof id === 'string' || typeof id === 'number')
+    .map(id => String(id).trim())
+    .filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+function read(): string[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? normalize(parsed) : [];
+  } catch {
+    return [];
+  }
+}
+
+let chainIds = read();
+
+function save(next: string[]) {
+  chainIds = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Failed to persist watchlist:', error);
+  }
+  listeners.forEach(listener => listener(chainIds));
+}
+
+// Keep tabs in sync when the watchlist changes elsewhere
+if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+  window.addEventListener('storage', event => {
+    if (event.key !== STORAGE_KEY) return;
+    chainIds = read();
+    listeners.forEach(listener => listener(chainIds));
+  });
+}
+
+export const watchlist = {
+  /**
+   * Starred chain IDs in the order they were added
+   */
+  getChainIds(): string[] {
+    return chainIds;
+  },
+
+  has(chainId: string): boolean {
+    return chainIds.includes(chainId);
+  },
+
+  /**
+   * Star or unstar a chain
+   */
+  toggle(chainId: string) {
+    save(chainIds.includes(chainId)
+      ? chainIds.filter(id => id !== chainId)
+      : [...chainIds, chainId]);
+  },
+
+  /**
+   * Serialize the watchlist for download
+   */
+  export(): string {
+    const data: WatchlistExport = {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chainIds,
+    };
+    return JSON.stringify(data, null, 2);
+  },
+
+  /**
+   * Merge chains from an exported file into the watchlist. Accepts the
+   * export format or a plain array of chain IDs.
+   * @returns Number of chains that were not already starred
+   */
+  import(json: string): number {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Watchlist file is not valid JSON');
+    }
+
+    const imported = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === 'object' && Array.isArray((parsed as Partial<WatchlistExport>).chainIds)
+        ? (parsed as WatchlistExport).chainIds
+        : null;
+
+    if (!imported) {
+      throw new Error('Watchlist file does not contain a list of chain IDs');
+    }
+
+    const added = normalize(imported).filter(id => !chainIds.includes(id));
+    if (added.length > 0) {
+      save([...chainIds, ...added]);
+    }
+    return added.length;
+  },
+
+  /**
+   * Listen for watchlist changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: WatchlistListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
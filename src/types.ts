@@ -27,6 +27,12 @@ export interface Validator {
   explorerUrl?: string;
 }
 
+// Validator set of a chain at one point in time
+export interface ValidatorSnapshot {
+  timestamp: number;
+  validators: Validator[];
+}
+
 // TVL related types
 export interface TVLHistory {
   date: number;
@@ -91,6 +97,9 @@ export interface TeleporterMessageData {
     startDate: string;
     endDate: string;
     updatedAt: string;
+    // Length of the counted window, e.g. 24 hours or 7 days
+    timeWindow?: number;
+    timeWindowUnit?: string;
   };
 }
 
@@ -108,7 +117,16 @@ export interface TeleporterDailyData {
   timeWindow: number;
 }
 
-export type TimeframeOption = 7 | 14 | 30;
+// Lookback window in days, or all available history
+export type TimeframePreset = 7 | 14 | 30 | 90 | 365 | 'all';
+
+// Custom range, as unix timestamps (seconds) of its first and last day
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+export type Timeframe = TimeframePreset | DateRange;
 
 // ============= ACP TYPES =============
 
@@ -189,6 +207,58 @@ export interface EnhancedACP extends ACP {
   // Search and indexing
   searchableText?: string;
   keywords?: string[];
+
+  // Commits that touched the ACP, newest first
+  revisions?: ACPRevision[];
+}
+
+export interface ACPRevision {
+  hash: string;
+  author: string;
+  email: string;
+  // ISO 8601 author date
+  date: string;
+  message: string;
+  // Clean status at this revision, e.g. "Proposed"
+  status: string;
+  // Status at the previous revision when this commit changed it
+  previousStatus: string | null;
+  // ACP named as the replacement at this revision
+  replacedBy: string | null;
+}
+
+export type ACPActivityType = 'created' | 'status-changed' | 'replaced';
+
+export interface ACPActivityEvent {
+  // Unique per commit, ACP and event type
+  id: string;
+  type: ACPActivityType;
+  number: string;
+  title: string;
+  // ISO 8601 commit date
+  date: string;
+  hash: string;
+  author: string;
+  message: string;
+  status: string;
+  // Set for status-changed events
+  previousStatus?: string;
+  // Set for replaced events
+  replacedBy?: string;
+}
+
+// Contents of public/acps/activity.json, newest event first
+export interface ACPActivityFeed {
+  events: ACPActivityEvent[];
+  metadata: {
+    lastUpdated: string;
+  };
+}
+
+// Contents of public/acps/history/<number>.json
+export interface ACPHistory {
+  number: string;
+  revisions: (ACPRevision & { content: string })[];
 }
 
 // Supporting interfaces
@@ -290,8 +360,27 @@ export interface ACPListResponse {
   hasMore?: boolean;
 }
 
+// Full-text index written by scripts/build-acps.js next to processed-acps.json
+export interface ACPSearchIndex {
+  version: number;
+  fields: { name: string; boost: number }[];
+  documents: { number: string; lengths: number[] }[];
+  averageLengths: number[];
+  // Postings per term as [document index, field index, term frequency]
+  terms: Record<string, [number, number, number][]>;
+}
+
+export interface ACPSearchHit {
+  number: string;
+  score: number;
+  // Index terms that matched, used for highlighting
+  terms: string[];
+}
+
 export interface ACPSearchResponse extends ACPListResponse {
   query: string;
   filters: ACPFilters;
+  // Ranked matches when the search index is available, in the same order as acps
+  hits?: ACPSearchHit[];
   suggestions?: string[];
 }
\ No newline at end of file
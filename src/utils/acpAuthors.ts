@@ -0,0 +1,84 @@
+// src/utils/acpAuthors.ts
+import type { Author, EnhancedACP } from '../types';
+import { getCleanStatus } from './acpStatus';
+
+export interface ACPCoAuthor {
+  id: string;
+  name: string;
+  // ACPs written together
+  count: number;
+}
+
+export interface ACPAuthorProfile {
+  // GitHub handle in lower case, or a slug of the name for authors without one
+  id: string;
+  name: string;
+  github: string;
+  organization: string;
+  // Newest ACP first
+  acps: EnhancedACP[];
+  // Clean status -> number of ACPs
+  statusCounts: Record<string, number>;
+  // Most frequent first
+  coAuthors: ACPCoAuthor[];
+}
+
+/**
+ * Stable id used in author URLs, e.g. "/acps/authors/stephenbuttolph"
+ */
+export function getAuthorId(author: Pick<Author, 'name' | 'github'>): string {
+  if (author.github) return author.github.replace(/^@/, '').toLowerCase();
+  return author.name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * One profile per author across all ACPs, most prolific first
+ */
+export function buildAuthorProfiles(acps: EnhancedACP[]): ACPAuthorProfile[] {
+  const profiles = new Map<string, ACPAuthorProfile>();
+  const coAuthorCounts = new Map<string, Map<string, number>>();
+
+  acps.forEach(acp => {
+    const ids = Array.from(new Set((acp.authors ?? []).map(getAuthorId).filter(Boolean)));
+
+    (acp.authors ?? []).forEach(author => {
+      const id = getAuthorId(author);
+      if (!id) return;
+      const profile = profiles.get(id) ?? {
+        id,
+        name: author.name,
+        github: author.github,
+        organization: '',
+        acps: [],
+        statusCounts: {},
+        coAuthors: [],
+      };
+      // The same person can be listed with or without some details
+      if (!profile.github) profile.github = author.github;
+      if (!profile.organization) profile.organization = author.organization ?? '';
+      if (!profile.acps.includes(acp)) {
+        profile.acps.push(acp);
+        const status = getCleanStatus(acp.status);
+        profile.statusCounts[status] = (profile.statusCounts[status] ?? 0) + 1;
+      }
+      profiles.set(id, profile);
+    });
+
+    ids.forEach(id => {
+      const counts = coAuthorCounts.get(id) ?? new Map<string, number>();
+      ids.filter(other => other !== id).forEach(other => counts.set(other, (counts.get(other) ?? 0) + 1));
+      coAuthorCounts.set(id, counts);
+    });
+  });
+
+  profiles.forEach(profile => {
+    profile.acps.sort((a, b) => Number(b.number) - Number(a.number));
+    profile.coAuthors = Array.from(coAuthorCounts.get(profile.id) ?? [])
+      .map(([id, count]) => ({ id, name: profiles.get(id)?.name ?? id, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  });
+
+  return Array.from(profiles.values()).sort(
+    (a, b) => b.acps.length - a.acps.length || a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,189 @@
+// src/utils/acpGraph.ts
+import type { ACPRelationship, EnhancedACP, ProcessedACP } from '../types';
+import { getCleanStatus } from './acpStatus';
+
+export type ACPEdgeType = ACPRelationship['type'];
+
+export interface ACPGraphNode {
+  // ACP number without leading zeros, e.g. "77"
+  id: string;
+  title: string;
+  // Clean status, e.g. "Activated"
+  status: string;
+  // Referenced by another ACP but not in the data set
+  missing: boolean;
+}
+
+export interface ACPGraphEdge {
+  source: string;
+  target: string;
+  type: ACPEdgeType;
+  // Part of a dependency cycle
+  inCycle: boolean;
+}
+
+export interface ACPMissingReference {
+  from: string;
+  to: string;
+  type: ACPEdgeType;
+}
+
+export interface ACPGraph {
+  nodes: ACPGraphNode[];
+  edges: ACPGraphEdge[];
+  // Each cycle lists its ACP numbers in dependency order
+  cycles: string[][];
+  missingReferences: ACPMissingReference[];
+}
+
+/**
+ * Canonical ACP number from references like "ACP-077", "077" or "77", or null
+ */
+export function normalizeACPNumber(value: string | number | null | undefined): string | null {
+  const match = String(value ?? '').match(/\d+/);
+  return match ? String(Number(match[0])) : null;
+}
+
+// Outgoing references of one ACP, including the legacy alias fields
+function getReferences(acp: EnhancedACP): { target: string | null; type: ACPEdgeType }[] {
+  const relationships = (acp as Partial<ProcessedACP>).relationships ?? [];
+  return [
+    ...[...(acp.requires ?? []), ...(acp.dependencies ?? [])].map(target => ({ target, type: 'depends' as const })),
+    ...(acp.replaces ?? []).map(target => ({ target, type: 'replaces' as const })),
+    ...[acp.replacedBy, acp.supersededBy].map(target => ({ target: target ?? null, type: 'superseded-by' as const })),
+    ...relationships.map(relationship => ({ target: relationship.acpNumber, type: relationship.type })),
+  ].map(reference => ({ target: normalizeACPNumber(reference.target), type: reference.type }));
+}
+
+/**
+ * Dependency cycles among depends edges, found as strongly connected components
+ * (Tarjan's algorithm). Self-dependencies count as cycles of one.
+ */
+export function findDependencyCycles(ids: string[], edges: Pick<ACPGraphEdge, 'source' | 'target' | 'type'>[]): string[][] {
+  const adjacency = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges
+    .filter(edge => edge.type === 'depends')
+    .forEach(edge => adjacency.get(edge.source)?.push(edge.target));
+
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    (adjacency.get(id) ?? []).forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, lowLink.get(next) ?? 0));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id) ?? 0, index.get(next) ?? 0));
+      }
+    });
+
+    if (lowLink.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop();
+      if (member === undefined) break;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+
+    if (component.length > 1 || adjacency.get(id)?.includes(id)) {
+      cycles.push(component.reverse());
+    }
+  };
+
+  ids.forEach(id => {
+    if (!index.has(id)) visit(id);
+  });
+  return cycles;
+}
+
+/**
+ * Relationship graph over all ACPs. References to ACPs that are not in the
+ * list become placeholder nodes and are reported as missing.
+ */
+export function buildACPGraph(acps: EnhancedACP[]): ACPGraph {
+  const nodes = new Map<string, ACPGraphNode>();
+  acps.forEach(acp => {
+    const id = normalizeACPNumber(acp.number);
+    if (id) nodes.set(id, { id, title: acp.title, status: getCleanStatus(acp.status), missing: false });
+  });
+
+  const edges = new Map<string, Omit<ACPGraphEdge, 'inCycle'>>();
+  const missingReferences: ACPMissingReference[] = [];
+
+  acps.forEach(acp => {
+    const source = normalizeACPNumber(acp.number);
+    if (!source) return;
+    getReferences(acp).forEach(({ target, type }) => {
+      if (!target) return;
+      // "B superseded by A" says the same as "A replaces B"
+      if (type === 'superseded-by' && edges.has(`replaces:${target}:${source}`)) return;
+      if (type === 'replaces') edges.delete(`superseded-by:${target}:${source}`);
+
+      const key = `${type}:${source}:${target}`;
+      if (edges.has(key)) return;
+      edges.set(key, { source, target, type });
+
+      const existing = nodes.get(target);
+      if (!existing) nodes.set(target, { id: target, title: 'Missing ACP', status: 'Unknown', missing: true });
+      if (!existing || existing.missing) missingReferences.push({ from: source, to: target, type });
+    });
+  });
+
+  const ids = Array.from(nodes.keys());
+  const edgeList = Array.from(edges.values());
+  const cycles = findDependencyCycles(ids, edgeList);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((cycle, cycleIndex) => cycle.forEach(id => cycleOf.set(id, cycleIndex)));
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: edgeList.map(edge => ({
+      ...edge,
+      inCycle: edge.type === 'depends' && cycleOf.has(edge.source) && cycleOf.get(edge.source) === cycleOf.get(edge.target),
+    })),
+    cycles,
+    missingReferences,
+  };
+}
+
+/**
+ * The part of the graph within `depth` hops of one ACP, ignoring edge direction
+ */
+export function getACPNeighbourhood(graph: ACPGraph, acpNumber: string, depth = 2): ACPGraph {
+  const center = normalizeACPNumber(acpNumber);
+  const included = new Set<string>(center ? [center] : []);
+  let frontier = Array.from(included);
+
+  for (let hop = 0; hop < depth && frontier.length; hop++) {
+    const next: string[] = [];
+    graph.edges.forEach(edge => {
+      [[edge.source, edge.target], [edge.target, edge.source]].forEach(([from, to]) => {
+        if (frontier.includes(from) && !included.has(to)) {
+          included.add(to);
+          next.push(to);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => included.has(node.id)),
+    edges: graph.edges.filter(edge => included.has(edge.source) && included.has(edge.target)),
+    cycles: graph.cycles.filter(cycle => cycle.some(id => included.has(id))),
+    missingReferences: graph.missingReferences.filter(reference => included.has(reference.from)),
+  };
+}
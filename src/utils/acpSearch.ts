@@ -0,0 +1,270 @@
+// src/utils/acpSearch.ts
+import type { ACPSearchHit, ACPSearchIndex } from '../types';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Score multipliers for terms that only match approximately
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHTS = [1, 0.6, 0.4];
+// Extra score for a query that names an ACP number directly
+const NUMBER_BONUS = 20;
+const MAX_PREFIX_EXPANSIONS = 20;
+const MAX_SUGGESTIONS = 3;
+
+// Words, including combining marks so accented words stay whole
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+// Same list as scripts/build-acps.js
+const STOP_WORDS = new Set(
+  ('a an and are as at be by can for from has have in into is it its of on or ' +
+    'that the this to was were which will with does acp acps').split(' ')
+);
+
+export interface ACPSearchResult {
+  // Best match first
+  hits: ACPSearchHit[];
+  // Corrected queries for "did you mean", empty when every word is known
+  suggestions: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface TermCandidate {
+  term: string;
+  weight: number;
+}
+
+/**
+ * Index term for one word, or null for stop words. Must stay in sync with
+ * tokenize() in scripts/build-acps.js.
+ */
+export function normalizeTerm(word: string): string | null {
+  // "ACP77" is indexed as the number, like "ACP-77"
+  const folded = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/^acp(?=\d+$)/, '');
+  const term = folded.length > 3 && /[^siu]s$/.test(folded) ? folded.slice(0, -1) : folded;
+  return term.length > 1 && !STOP_WORDS.has(term) ? term : null;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? [])
+    .map(normalizeTerm)
+    .filter((term): term is string => term !== null);
+}
+
+// Levenshtein distance, or max + 1 as soon as it is known to exceed max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const hasTerm = (index: ACPSearchIndex, term: string) => Object.prototype.hasOwnProperty.call(index.terms, term);
+
+const vocabularies = new WeakMap<ACPSearchIndex, string[]>();
+const documentFrequencies = new WeakMap<ACPSearchIndex, Map<string, number>>();
+
+function getVocabulary(index: ACPSearchIndex): string[] {
+  let vocabulary = vocabularies.get(index);
+  if (!vocabulary) {
+    vocabulary = Object.keys(index.terms);
+    vocabularies.set(index, vocabulary);
+  }
+  return vocabulary;
+}
+
+// Number of ACPs containing the term in any field
+function getDocumentFrequency(index: ACPSearchIndex, term: string): number {
+  let frequencies = documentFrequencies.get(index);
+  if (!frequencies) {
+    frequencies = new Map();
+    documentFrequencies.set(index, frequencies);
+  }
+  let frequency = frequencies.get(term);
+  if (frequency === undefined) {
+    frequency = hasTerm(index, term) ? new Set(index.terms[term].map(([doc]) => doc)).size : 0;
+    frequencies.set(term, frequency);
+  }
+  return frequency;
+}
+
+function maxTypos(token: string): number {
+  if (/^\d+$/.test(token) || token.length < 4) return 0;
+  return token.length >= 8 ? 2 : 1;
+}
+
+// Known terms within the typo budget of an unknown token, closest and most common first
+function findCloseTerms(index: ACPSearchIndex, token: string): { term: string; distance: number }[] {
+  const max = maxTypos(token);
+  if (max === 0) return [];
+  return getVocabulary(index)
+    .map(term => ({ term, distance: editDistance(token, term, max) }))
+    .filter(({ distance }) => distance > 0 && distance <= max)
+    .sort((a, b) => a.distance - b.distance || getDocumentFrequency(index, b.term) - getDocumentFrequency(index, a.term));
+}
+
+// Index terms a query token stands for. The last token also matches as a prefix, for search as you type.
+function expandToken(index: ACPSearchIndex, token: string, isLast: boolean): TermCandidate[] {
+  const candidates: TermCandidate[] = [];
+  const known = hasTerm(index, token);
+  if (known) candidates.push({ term: token, weight: 1 });
+
+  if (isLast && !/^\d+$/.test(token)) {
+    getVocabulary(index)
+      .filter(term => term !== token && term.startsWith(token))
+      .sort((a, b) => getDocumentFrequency(index, b) - getDocumentFrequency(index, a))
+      .slice(0, MAX_PREFIX_EXPANSIONS)
+      .forEach(term => candidates.push({ term, weight: PREFIX_WEIGHT }));
+  }
+
+  if (!known) {
+    findCloseTerms(index, token).forEach(({ term, distance }) => candidates.push({ term, weight: TYPO_WEIGHTS[distance] }));
+  }
+  return candidates;
+}
+
+/**
+ * Rank ACPs for a query with BM25 over the boosted index fields. Every query
+ * word has to match, exactly, as a prefix (last word only) or with a typo.
+ */
+export function searchACPIndex(index: ACPSearchIndex, query: string): ACPSearchResult {
+  const tokens = Array.from(new Set(tokenize(query)));
+  if (tokens.length === 0) return { hits: [], suggestions: [] };
+
+  const totalDocuments = index.documents.length;
+  const perToken = tokens.map((token, tokenIndex) => {
+    const matches = new Map<number, { score: number; terms: string[] }>();
+
+    expandToken(index, token, tokenIndex === tokens.length - 1).forEach(({ term, weight }) => {
+      const frequency = getDocumentFrequency(index, term);
+      const idf = Math.log(1 + (totalDocuments - frequency + 0.5) / (frequency + 0.5));
+      const termScores = new Map<number, number>();
+      index.terms[term].forEach(([doc, field, tf]) => {
+        const length = index.documents[doc].lengths[field];
+        const averageLength = index.averageLengths[field] || 1;
+        const fieldScore = (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / averageLength));
+        termScores.set(doc, (termScores.get(doc) ?? 0) + index.fields[field].boost * fieldScore);
+      });
+
+      termScores.forEach((termScore, doc) => {
+        const score = weight * idf * termScore;
+        const match = matches.get(doc);
+        if (!match) {
+          matches.set(doc, { score, terms: [term] });
+        } else {
+          // A word counts once, by its best matching term
+          match.score = Math.max(match.score, score);
+          match.terms.push(term);
+        }
+      });
+    });
+
+    if (/^\d+$/.test(token)) {
+      index.documents.forEach((document, doc) => {
+        if (Number(document.number) !== Number(token)) return;
+        const match = matches.get(doc) ?? { score: 0, terms: [] };
+        matches.set(doc, { ...match, score: match.score + NUMBER_BONUS });
+      });
+    }
+    return matches;
+  });
+
+  const hits: ACPSearchHit[] = [];
+  perToken[0].forEach((_, doc) => {
+    if (!perToken.every(matches => matches.has(doc))) return;
+    const tokenMatches = perToken.map(matches => matches.get(doc) ?? { score: 0, terms: [] });
+    hits.push({
+      number: index.documents[doc].number,
+      score: tokenMatches.reduce((sum, match) => sum + match.score, 0),
+      terms: Array.from(new Set(tokenMatches.flatMap(match => match.terms))),
+    });
+  });
+  hits.sort((a, b) => b.score - a.score);
+
+  return { hits, suggestions: getSuggestions(index, query) };
+}
+
+// Query rewrites with unknown words replaced by the closest known terms
+function getSuggestions(index: ACPSearchIndex, query: string): string[] {
+  const corrections = new Map<string, string[]>();
+  tokenize(query).forEach(token => {
+    if (hasTerm(index, token) || corrections.has(token)) return;
+    const close = findCloseTerms(index, token).slice(0, MAX_SUGGESTIONS).map(({ term }) => term);
+    if (close.length) corrections.set(token, close);
+  });
+  if (corrections.size === 0) return [];
+
+  const words = query.match(WORD_PATTERN) ?? [];
+  const suggestions = Array.from({ length: MAX_SUGGESTIONS }, (_, rank) => {
+    // Only the first misspelled word varies between suggestions
+    let varied = false;
+    return words
+      .map(word => {
+        const options = corrections.get(normalizeTerm(word) ?? '');
+        if (!options) return word;
+        const option = options[varied ? 0 : Math.min(rank, options.length - 1)];
+        varied = true;
+        return option;
+      })
+      .join(' ');
+  });
+  return Array.from(new Set(suggestions)).filter(suggestion => suggestion.toLowerCase() !== query.trim().toLowerCase());
+}
+
+// Plain text from markdown, good enough for excerpts
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_>#|\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Excerpt of `markdown` around its first matching word, split into
+ * highlighted and plain segments. Empty when nothing matches.
+ */
+export function getHighlightSegments(markdown: string, terms: string[], maxLength = 200): HighlightSegment[] {
+  if (!markdown || terms.length === 0) return [];
+  const text = stripMarkdown(markdown);
+  const termSet = new Set(terms);
+  const matches = Array.from(text.matchAll(WORD_PATTERN)).filter(match => termSet.has(normalizeTerm(match[0]) ?? ''));
+  if (matches.length === 0) return [];
+
+  // Start a little before the first match, at a word boundary
+  let start = Math.max(0, (matches[0].index ?? 0) - 60);
+  if (start > 0) start = text.indexOf(' ', start) + 1;
+  const end = Math.min(text.length, start + maxLength);
+
+  const segments: HighlightSegment[] = [];
+  let cursor = start;
+  matches.forEach(match => {
+    const matchStart = match.index ?? 0;
+    const matchEnd = matchStart + match[0].length;
+    if (matchStart < start || matchEnd > end) return;
+    if (matchStart > cursor) segments.push({ text: text.slice(cursor, matchStart), match: false });
+    segments.push({ text: match[0], match: true });
+    cursor = matchEnd;
+  });
+  if (end > cursor) segments.push({ text: text.slice(cursor, end), match: false });
+
+  if (start > 0) segments.unshift({ text: '…', match: false });
+  if (end < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
@@ -0,0 +1,58 @@
+// src/utils/acpStatus.ts
+import type { EnhancedACP } from '../types';
+
+// Lifecycle stages shown as pipeline columns, in order
+export const PIPELINE_STATUSES = ['Proposed', 'Implementable', 'Activated', 'Stale', 'Withdrawn'] as const;
+
+export type PipelineStatus = typeof PIPELINE_STATUSES[number];
+
+// Tailwind background classes for status dots and bars
+export const STATUS_DOT_CLASSES: Record<PipelineStatus | 'Other', string> = {
+  Proposed: 'bg-blue-500',
+  Implementable: 'bg-yellow-500',
+  Activated: 'bg-green-500',
+  Stale: 'bg-gray-400',
+  Withdrawn: 'bg-red-500',
+  Other: 'bg-gray-300 dark:bg-gray-600',
+};
+
+export type ACPMilestone = 'proposed' | 'implementable' | 'activated' | 'stale';
+
+export interface ACPTimelineEvent {
+  acp: EnhancedACP;
+  milestone: ACPMilestone;
+  // Unix timestamp in milliseconds
+  date: number;
+}
+
+/**
+ * Primary status from a detailed status string, e.g.
+ * "Proposed (Last Call - Final Comments)" -> "Proposed"
+ */
+export function getCleanStatus(status: string): string {
+  if (!status) return 'Unknown';
+  const match = status.match(/^[a-zA-Z]+/);
+  return match ? match[0] : 'Unknown';
+}
+
+function parseDate(value?: string | null): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * Dated lifecycle milestones of an ACP. Falls back to the first commit date
+ * when no proposal date is recorded.
+ */
+export function getACPMilestones(acp: EnhancedACP): ACPTimelineEvent[] {
+  const dates: [ACPMilestone, number | null][] = [
+    ['proposed', parseDate(acp.proposed) ?? parseDate(acp.created)],
+    ['implementable', parseDate(acp.implementable)],
+    ['activated', parseDate(acp.activated)],
+    ['stale', parseDate(acp.stale)],
+  ];
+  return dates
+    .filter((entry): entry is [ACPMilestone, number] => entry[1] !== null)
+    .map(([milestone, date]) => ({ acp, milestone, date }));
+}
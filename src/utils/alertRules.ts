@@ -0,0 +1,141 @@
+// src/utils/alertRules.ts
+import type { Chain, NetworkTPS, TVLHealth } from '../types';
+
+export type AlertRuleType = 'chain-tps-zero' | 'validator-uptime' | 'network-tps-below' | 'tvl-stale';
+
+// Which polled endpoint a rule type is evaluated against
+export type AlertSource = 'chains' | 'networkTps' | 'tvlHealth';
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  // Chain the rule applies to; null matches every chain (chain rules only)
+  chainId: string | null;
+  // Uptime percentage or TPS value, depending on the rule type
+  threshold: number | null;
+  createdAt: number;
+}
+
+export interface AlertSnapshot {
+  chains?: Chain[];
+  networkTps?: NetworkTPS;
+  tvlHealth?: TVLHealth;
+}
+
+// A rule currently matching one target, e.g. one validator on one chain
+export interface AlertCondition {
+  ruleId: string;
+  // Identifies the rule/target pair so repeated polls do not re-alert
+  key: string;
+  title: string;
+  message: string;
+}
+
+export const ALERT_RULE_TYPES: { id: AlertRuleType; name: string; source: AlertSource; usesChain: boolean; defaultThreshold: number | null }[] = [
+  { id: 'chain-tps-zero', name: 'Chain TPS drops to zero', source: 'chains', usesChain: true, defaultThreshold: null },
+  { id: 'validator-uptime', name: 'Validator uptime below', source: 'chains', usesChain: true, defaultThreshold: 90 },
+  { id: 'network-tps-below', name: 'Network TPS below', source: 'networkTps', usesChain: false, defaultThreshold: 1 },
+  { id: 'tvl-stale', name: 'TVL data becomes stale', source: 'tvlHealth', usesChain: false, defaultThreshold: null },
+];
+
+export function getAlertRuleSource(type: AlertRuleType): AlertSource {
+  return ALERT_RULE_TYPES.find(ruleType => ruleType.id === type)?.source ?? 'chains';
+}
+
+function shortAddress(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 10)}…${address.slice(-4)}` : address;
+}
+
+function matchingChains(rule: AlertRule, chains: Chain[]): Chain[] {
+  return rule.chainId ? chains.filter(chain => chain.chainId === rule.chainId) : chains;
+}
+
+/**
+ * Human readable summary of a rule, e.g. "Validator uptime below 95% on Dexalot"
+ * @param chainName Display name for rule.chainId, when known
+ */
+export function describeAlertRule(rule: AlertRule, chainName?: string): string {
+  const target = rule.chainId ? (chainName ?? rule.chainId) : 'any chain';
+  switch (rule.type) {
+    case 'chain-tps-zero':
+      return `TPS drops to zero on ${target}`;
+    case 'validator-uptime':
+      return `Validator uptime below ${rule.threshold ?? 0}% on ${target}`;
+    case 'network-tps-below':
+      return `Network TPS below ${rule.threshold ?? 0}`;
+    case 'tvl-stale':
+      return 'TVL data becomes stale';
+  }
+}
+
+/**
+ * Evaluate rules against freshly polled data. Rules whose source is missing
+ * from the snapshot are skipped; disabled rules never match.
+ * @returns Every rule/target pair currently matching
+ */
+export function evaluateAlertRules(rules: AlertRule[], snapshot: AlertSnapshot): AlertCondition[] {
+  const conditions: AlertCondition[] = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    switch (rule.type) {
+      case 'chain-tps-zero': {
+        if (!snapshot.chains) return;
+        matchingChains(rule, snapshot.chains)
+          // Chains that never reported TPS are not treated as dropping to zero
+          .filter(chain => chain.tps !== null && chain.tps.value <= 0)
+          .forEach(chain => conditions.push({
+            ruleId: rule.id,
+            key: `${rule.id}|${chain.chainId}`,
+            title: `${chain.chainName} TPS is zero`,
+            message: `${chain.chainName} reported 0 transactions per second.`,
+          }));
+        return;
+      }
+
+      case 'validator-uptime': {
+        if (!snapshot.chains || rule.threshold === null) return;
+        const threshold = rule.threshold;
+        matchingChains(rule, snapshot.chains).forEach(chain => {
+          chain.validators
+            .filter(validator => validator.active && Number.isFinite(validator.uptime) && validator.uptime < threshold)
+            .forEach(validator => conditions.push({
+              ruleId: rule.id,
+              key: `${rule.id}|${chain.chainId}|${validator.address}`,
+              title: `Low validator uptime on ${chain.chainName}`,
+              message: `${shortAddress(validator.address)} is at ${validator.uptime.toFixed(2)}% uptime (threshold ${threshold}%).`,
+            }));
+        });
+        return;
+      }
+
+      case 'network-tps-below': {
+        if (!snapshot.networkTps || rule.threshold === null) return;
+        if (snapshot.networkTps.totalTps < rule.threshold) {
+          conditions.push({
+            ruleId: rule.id,
+            key: rule.id,
+            title: 'Network TPS is low',
+            message: `Network TPS is ${snapshot.networkTps.totalTps.toFixed(2)} (threshold ${rule.threshold}).`,
+          });
+        }
+        return;
+      }
+
+      case 'tvl-stale': {
+        if (!snapshot.tvlHealth) return;
+        if (snapshot.tvlHealth.status === 'stale') {
+          conditions.push({
+            ruleId: rule.id,
+            key: rule.id,
+            title: 'TVL data is stale',
+            message: `TVL was last updated ${snapshot.tvlHealth.ageInHours.toFixed(1)} hours ago.`,
+          });
+        }
+        return;
+      }
+    }
+  });
+
+  return conditions;
+}
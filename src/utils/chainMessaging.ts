@@ -0,0 +1,157 @@
+// src/utils/chainMessaging.ts
+import type { TeleporterDailyData, TeleporterMessage } from '../types';
+import type { ChainRegistry } from '../services/chainRegistry';
+import type { TeleporterRoute } from './teleporterRoutes';
+
+export interface ChainFlowPoint {
+  date: string;
+  // Messages received by the chain
+  inbound: number;
+  // Messages sent by the chain
+  outbound: number;
+}
+
+export interface ChainCounterparty {
+  // Display name; counterparties the registry can't resolve share one entry
+  chain: string;
+  // Null for the unknown chains entry
+  chainId: string | null;
+  // Messages the counterparty sent to the chain
+  inbound: number;
+  // Messages the chain sent to the counterparty
+  outbound: number;
+  // Routes as the ICM data names them, for explorer links. Unset for the unknown chains entry
+  inboundRoute?: TeleporterRoute;
+  outboundRoute?: TeleporterRoute;
+}
+
+// Traffic between two chains in both directions
+export interface ChainPairEdge {
+  key: string;
+  // Chain IDs of the pair, in sorted order
+  chainIds: [string, string];
+  // Chain names as the ICM data has them, for explorer links
+  names: [string, string];
+  // Messages sent from chainIds[0] to chainIds[1]
+  forward: number;
+  // Messages sent from chainIds[1] to chainIds[0]
+  backward: number;
+  total: number;
+}
+
+export interface ChainFlowTotals {
+  inbound: number;
+  outbound: number;
+  // Positive when the chain receives more than it sends
+  net: number;
+}
+
+/**
+ * Inbound and outbound messages of one chain per day, oldest first. Chains are
+ * matched through the registry so any alias of the chain counts.
+ * Messages a chain sends to itself count both ways.
+ */
+export function getChainFlowSeries(history: TeleporterDailyData[], chainId: string, registry: ChainRegistry): ChainFlowPoint[] {
+  const isChain = (name: string) => registry.getChain(name)?.chainId === chainId;
+  return [...history]
+    .sort((a, b) => a.dateString.localeCompare(b.dateString))
+    .map(day => ({
+      date: day.dateString,
+      inbound: day.data
+        .filter(message => isChain(message.destinationChain))
+        .reduce((sum, message) => sum + message.messageCount, 0),
+      outbound: day.data
+        .filter(message => isChain(message.sourceChain))
+        .reduce((sum, message) => sum + message.messageCount, 0),
+    }));
+}
+
+export function getChainFlowTotals(series: ChainFlowPoint[]): ChainFlowTotals {
+  const inbound = series.reduce((sum, point) => sum + point.inbound, 0);
+  const outbound = series.reduce((sum, point) => sum + point.outbound, 0);
+  return { inbound, outbound, net: inbound - outbound };
+}
+
+/**
+ * Chains that exchanged messages with the given chain, busiest first.
+ * Counterparties the registry can't resolve are merged into one entry
+ */
+export function getChainCounterparties(history: TeleporterDailyData[], chainId: string, registry: ChainRegistry): ChainCounterparty[] {
+  const counterparties = new Map<string, ChainCounterparty>();
+  const entry = (name: string) => {
+    const resolution = registry.resolve(name);
+    const existing = counterparties.get(resolution.key) ?? {
+      chain: resolution.label,
+      chainId: resolution.chain?.chainId ?? null,
+      inbound: 0,
+      outbound: 0,
+    };
+    counterparties.set(resolution.key, existing);
+    return existing;
+  };
+
+  history.forEach(day => day.data.forEach(message => {
+    if (registry.getChain(message.destinationChain)?.chainId === chainId) {
+      const counterparty = entry(message.sourceChain);
+      counterparty.inbound += message.messageCount;
+      if (counterparty.chainId && !counterparty.inboundRoute) {
+        counterparty.inboundRoute = { source: message.sourceChain, target: message.destinationChain };
+      }
+    }
+    if (registry.getChain(message.sourceChain)?.chainId === chainId) {
+      const counterparty = entry(message.destinationChain);
+      counterparty.outbound += message.messageCount;
+      if (counterparty.chainId && !counterparty.outboundRoute) {
+        counterparty.outboundRoute = { source: message.sourceChain, target: message.destinationChain };
+      }
+    }
+  }));
+
+  return Array.from(counterparties.values())
+    .filter(counterparty => counterparty.inbound + counterparty.outbound > 0)
+    .sort((a, b) => (b.inbound + b.outbound) - (a.inbound + a.outbound) || a.chain.localeCompare(b.chain));
+}
+
+/**
+ * Message counts between pairs of known chains, busiest first. Messages a chain
+ * sends to itself are skipped, and messages involving a chain the registry
+ * can't resolve are only counted in `unresolved`.
+ */
+export function getChainPairEdges(
+  messages: TeleporterMessage[],
+  registry: ChainRegistry
+): { edges: ChainPairEdge[]; unresolved: number } {
+  const edges = new Map<string, ChainPairEdge>();
+  let unresolved = 0;
+
+  messages.forEach(message => {
+    const source = registry.getChain(message.source);
+    const target = registry.getChain(message.target);
+    if (!source || !target) {
+      unresolved += message.count;
+      return;
+    }
+    if (source.chainId === target.chainId) return;
+
+    const forward = source.chainId < target.chainId;
+    const chainIds: [string, string] = forward ? [source.chainId, target.chainId] : [target.chainId, source.chainId];
+    const key = chainIds.join('|');
+    const edge = edges.get(key) ?? {
+      key,
+      chainIds,
+      names: forward ? [message.source, message.target] : [message.target, message.source],
+      forward: 0,
+      backward: 0,
+      total: 0,
+    };
+    if (forward) edge.forward += message.count;
+    else edge.backward += message.count;
+    edge.total += message.count;
+    edges.set(key, edge);
+  });
+
+  return {
+    edges: Array.from(edges.values()).sort((a, b) => b.total - a.total || a.key.localeCompare(b.key)),
+    unresolved,
+  };
+}
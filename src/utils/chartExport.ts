@@ -0,0 +1,102 @@
+// src/utils/chartExport.ts
+import { format } from 'date-fns';
+
+export type ExportCell = string | number | boolean | null | undefined;
+export type ExportRow = Record<string, ExportCell>;
+
+export interface ExportFilenameParts {
+  // Chart name, e.g. "tvl" or "daily-messages"
+  chart: string;
+  chain?: string;
+  // Timeframe label, e.g. "7d"
+  timeframe?: string;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Build a download filename like "l1beat-tps-dexalot-7d-2025-06-01.csv"
+ */
+export function getExportFilename(parts: ExportFilenameParts, extension: string): string {
+  const segments = ['l1beat', parts.chart, parts.chain, parts.timeframe]
+    .filter((segment): segment is string => !!segment)
+    .map(slugify)
+    .filter(Boolean);
+  return `${[...segments, format(new Date(), 'yyyy-MM-dd')].join('-')}.${extension}`;
+}
+
+function escapeCsvCell(value: ExportCell): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as CSV. Columns are the union of row keys in first-seen order.
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = [
+    columns.map(escapeCsvCell).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvCell(row[column])).join(',')),
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Save content as a file through a temporary object URL
+ */
+export function downloadFile(content: Blob | string, filename: string, mimeType: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Chart canvases are transparent, so paint the card background behind them
+function renderOnBackground(canvas: HTMLCanvasElement, background: string): HTMLCanvasElement {
+  const output = document.createElement('canvas');
+  output.width = canvas.width;
+  output.height = canvas.height;
+  const context = output.getContext('2d');
+  if (context) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, output.width, output.height);
+    context.drawImage(canvas, 0, 0);
+  }
+  return output;
+}
+
+/**
+ * PNG image of a rendered chart canvas
+ */
+export function canvasToPng(canvas: HTMLCanvasElement, background: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    renderOnBackground(canvas, background).toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to render chart image'))),
+      'image/png'
+    );
+  });
+}
+
+/**
+ * SVG document wrapping a rendered chart. Chart.js draws to canvas, so the
+ * plot is embedded as an image sized to the chart's CSS dimensions.
+ */
+export function canvasToSvg(canvas: HTMLCanvasElement, background: string): string {
+  const width = canvas.clientWidth || canvas.width;
+  const height = canvas.clientHeight || canvas.height;
+  const image = renderOnBackground(canvas, background).toDataURL('image/png');
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<image width="${width}" height="${height}" xlink:href="${image}" href="${image}"/>`,
+    '</svg>',
+  ].join('');
+}
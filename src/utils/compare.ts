@@ -0,0 +1,38 @@
+// src/utils/compare.ts
+import type { UrlParamCodec } from './urlState';
+
+// More lines than this make the overlay charts unreadable
+export const MAX_COMPARED_CHAINS = 5;
+
+// Line colors for compared chains, in selection order
+export const COMPARE_COLORS = [
+  'rgb(99, 102, 241)',
+  'rgb(234, 88, 12)',
+  'rgb(22, 163, 74)',
+  'rgb(219, 39, 119)',
+  'rgb(202, 138, 4)',
+];
+
+/**
+ * Read chain IDs from a `chains=a,b,c` query value, dropping blanks and
+ * duplicates and keeping at most MAX_COMPARED_CHAINS
+ */
+export function parseCompareParam(value: string | null): string[] {
+  if (!value) return [];
+  const ids = value.split(',').map(id => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARED_CHAINS);
+}
+
+// Selected chains as the `chains` query parameter
+export const compareChainsParam: UrlParamCodec<string[]> = {
+  parse: parseCompareParam,
+  serialize: chainIds => chainIds.join(','),
+};
+
+/**
+ * Link to the comparison page for the given chains
+ */
+export function getCompareUrl(chainIds: string[]): string {
+  const ids = chainIds.slice(0, MAX_COMPARED_CHAINS).map(encodeURIComponent).join(',');
+  return `/compare?chains=${ids}`;
+}
@@ -0,0 +1,80 @@
+// src/utils/decentralization.ts
+import type { Validator } from '../types';
+
+export interface DecentralizationMetrics {
+  // Fewest validators that together control more than 1/3 of stake (can halt the chain)
+  nakamoto33: number;
+  // Fewest validators that together control more than 1/2 of stake
+  nakamoto50: number;
+  // 0 = perfectly equal stake, 1 = one validator holds everything
+  gini: number;
+  // Herfindahl-Hirschman index on a 0-10,000 scale
+  hhi: number;
+  validatorCount: number;
+  totalStake: number;
+}
+
+export type ConcentrationLevel = 'low' | 'moderate' | 'high';
+
+function nakamotoCoefficient(sortedWeights: number[], totalStake: number, threshold: number): number {
+  let cumulative = 0;
+  for (let i = 0; i < sortedWeights.length; i++) {
+    cumulative += sortedWeights[i];
+    if (cumulative > totalStake * threshold) return i + 1;
+  }
+  return sortedWeights.length;
+}
+
+/**
+ * Stake concentration metrics for a validator set
+ * @param validators Validators of a chain; zero-weight entries are ignored
+ * @returns Metrics, or null when the chain has no staked validators
+ */
+export function getDecentralizationMetrics(validators: Validator[]): DecentralizationMetrics | null {
+  const weights = validators
+    .map(validator => validator.weight)
+    .filter(weight => Number.isFinite(weight) && weight > 0)
+    .sort((a, b) => b - a);
+
+  const totalStake = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || totalStake === 0) return null;
+
+  const n = weights.length;
+
+  // Gini over ascending weights: sum((2i - n - 1) * w_i) / (n * total)
+  const ascending = [...weights].reverse();
+  const giniNumerator = ascending.reduce((sum, weight, i) => sum + (2 * (i + 1) - n - 1) * weight, 0);
+  const gini = n > 1 ? giniNumerator / (n * totalStake) : 0;
+
+  const hhi = weights.reduce((sum, weight) => sum + Math.pow((weight / totalStake) * 100, 2), 0);
+
+  return {
+    nakamoto33: nakamotoCoefficient(weights, totalStake, 1 / 3),
+    nakamoto50: nakamotoCoefficient(weights, totalStake, 1 / 2),
+    gini,
+    hhi,
+    validatorCount: n,
+    totalStake,
+  };
+}
+
+/**
+ * Bucket an HHI value using the usual antitrust thresholds
+ */
+export function getConcentrationLevel(hhi: number): ConcentrationLevel {
+  if (hhi < 1500) return 'low';
+  if (hhi <= 2500) return 'moderate';
+  return 'high';
+}
+
+/**
+ * Order metrics from most to least decentralized: higher Nakamoto
+ * coefficients first, then lower Gini. Chains without metrics sort last.
+ */
+export function compareDecentralization(
+  a: DecentralizationMetrics | null,
+  b: DecentralizationMetrics | null
+): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return (b.nakamoto33 - a.nakamoto33) || (b.nakamoto50 - a.nakamoto50) || (a.gini - b.gini);
+}
@@ -0,0 +1,166 @@
+// src/utils/lineDiff.ts
+
+// Above this many line comparisons the changed block is shown as a full replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new text, null on the side the line is missing from
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface DiffCell {
+  type: DiffLineType;
+  text: string;
+  number: number;
+}
+
+// One row of a side-by-side view. A side is null where the other side added or removed a line.
+export interface SideBySideRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+export type CollapsibleRow =
+  | { kind: 'row'; row: SideBySideRow }
+  | { kind: 'collapsed'; rows: SideBySideRow[] };
+
+// Longest common subsequence of two line lists, as index pairs
+function commonLines(a: string[], b: string[]): [number, number][] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Line-by-line diff of two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Only the part between the common prefix and suffix needs comparing
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const pairs = oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS ? [] : commonLines(oldMiddle, newMiddle);
+
+  const lines: DiffLine[] = [];
+  const unchanged = (oldIndex: number, newIndex: number) =>
+    lines.push({ type: 'unchanged', text: oldLines[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+
+  for (let index = 0; index < prefix; index++) unchanged(index, index);
+
+  let oldIndex = 0;
+  let newIndex = 0;
+  [...pairs, [oldMiddle.length, newMiddle.length] as [number, number]].forEach(([oldMatch, newMatch]) => {
+    for (; oldIndex < oldMatch; oldIndex++) {
+      lines.push({ type: 'removed', text: oldMiddle[oldIndex], oldNumber: prefix + oldIndex + 1, newNumber: null });
+    }
+    for (; newIndex < newMatch; newIndex++) {
+      lines.push({ type: 'added', text: newMiddle[newIndex], oldNumber: null, newNumber: prefix + newIndex + 1 });
+    }
+    if (oldMatch < oldMiddle.length) {
+      unchanged(prefix + oldMatch, prefix + newMatch);
+      oldIndex++;
+      newIndex++;
+    }
+  });
+
+  for (let index = 0; index < suffix; index++) {
+    unchanged(oldLines.length - suffix + index, newLines.length - suffix + index);
+  }
+  return lines;
+}
+
+/**
+ * Pair removed and added lines up into side-by-side rows
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffCell[] = [];
+  let added: DiffCell[] = [];
+
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      rows.push({ left: removed[index] ?? null, right: added[index] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach(line => {
+    if (line.type === 'removed') {
+      removed.push({ type: line.type, text: line.text, number: line.oldNumber ?? 0 });
+    } else if (line.type === 'added') {
+      added.push({ type: line.type, text: line.text, number: line.newNumber ?? 0 });
+    } else {
+      flush();
+      rows.push({
+        left: { type: line.type, text: line.text, number: line.oldNumber ?? 0 },
+        right: { type: line.type, text: line.text, number: line.newNumber ?? 0 },
+      });
+    }
+  });
+  flush();
+  return rows;
+}
+
+/**
+ * Fold runs of unchanged rows, keeping `context` rows around each change
+ */
+export function collapseUnchanged(rows: SideBySideRow[], context = 3): CollapsibleRow[] {
+  const changed = rows.map(row => row.left?.type !== 'unchanged' || row.right?.type !== 'unchanged');
+  const visible = rows.map((_, index) =>
+    changed.slice(Math.max(0, index - context), index + context + 1).some(Boolean)
+  );
+
+  const result: CollapsibleRow[] = [];
+  rows.forEach((row, index) => {
+    if (visible[index]) {
+      result.push({ kind: 'row', row });
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.kind === 'collapsed') {
+      last.rows.push(row);
+    } else {
+      result.push({ kind: 'collapsed', rows: [row] });
+    }
+  });
+  return result;
+}
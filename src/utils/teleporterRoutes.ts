@@ -0,0 +1,168 @@
+// src/utils/teleporterRoutes.ts
+import type { DateRange, TeleporterDailyData } from '../types';
+import type { UrlParamCodec } from './urlState';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Comparison periods offered by the flow explorer, in days
+export const TELEPORTER_PERIODS = [7, 14, 30, 90] as const;
+export type TeleporterPeriod = typeof TELEPORTER_PERIODS[number];
+
+export const teleporterPeriodParam: UrlParamCodec<TeleporterPeriod> = {
+  parse: value => TELEPORTER_PERIODS.find(period => String(period) === value),
+  serialize: value => String(value),
+};
+
+// A source -> destination chain pair
+export interface TeleporterRoute {
+  source: string;
+  target: string;
+}
+
+export interface TeleporterRoutePoint {
+  date: string;
+  messages: number;
+  // All messages that day, across every route
+  total: number;
+  // 0-1
+  share: number;
+}
+
+export interface TeleporterRouteRanking extends TeleporterRoute {
+  messages: number;
+  share: number;
+  rank: number;
+  previousMessages: number;
+  previousShare: number;
+  // Null when the route had no messages in the previous period
+  previousRank: number | null;
+}
+
+export interface TeleporterPeriodSplit {
+  current: TeleporterDailyData[];
+  previous: TeleporterDailyData[];
+}
+
+export function isSameRoute(a: TeleporterRoute, b: TeleporterRoute): boolean {
+  return a.source === b.source && a.target === b.target;
+}
+
+/**
+ * Link to the flow explorer, optionally focused on one route
+ */
+export function getTeleporterExplorerUrl(route?: TeleporterRoute): string {
+  if (!route) return '/teleporter';
+  const params = new URLSearchParams({ from: route.source, to: route.target });
+  return `/teleporter?${params.toString()}`;
+}
+
+/**
+ * Custom range covering the last `days` days and the `days` before them, so
+ * one request has both the current and the previous period
+ */
+export function getComparisonRange(days: number, now: number = Date.now()): DateRange {
+  const today = Math.floor(now / 1000 / DAY_SECONDS) * DAY_SECONDS;
+  return { start: today - (2 * days - 1) * DAY_SECONDS, end: today };
+}
+
+/**
+ * The latest `days` days of history and the `days` days before them, oldest first.
+ * Days are counted from the latest day with data, so a late daily update doesn't
+ * shift a day between periods.
+ */
+export function splitPeriods(history: TeleporterDailyData[], days: number): TeleporterPeriodSplit {
+  const sorted = [...history].sort((a, b) => a.dateString.localeCompare(b.dateString));
+  const current = sorted.slice(-days);
+  const previous = sorted.slice(Math.max(0, sorted.length - 2 * days), sorted.length - current.length);
+  return { current, previous };
+}
+
+/**
+ * Messages on one route per day, with its share of that day's traffic
+ */
+export function getRouteSeries(history: TeleporterDailyData[], route: TeleporterRoute): TeleporterRoutePoint[] {
+  return [...history]
+    .sort((a, b) => a.dateString.localeCompare(b.dateString))
+    .map(day => {
+      const messages = day.data
+        .filter(message => message.sourceChain === route.source && message.destinationChain === route.target)
+        .reduce((sum, message) => sum + message.messageCount, 0);
+      return {
+        date: day.dateString,
+        messages,
+        total: day.totalMessages,
+        share: day.totalMessages > 0 ? messages / day.totalMessages : 0,
+      };
+    });
+}
+
+// Total messages per route, keyed by source and target
+function sumRoutes(days: TeleporterDailyData[]) {
+  const totals = new Map<string, { route: TeleporterRoute; messages: number }>();
+  days.forEach(day => day.data.forEach(message => {
+    const key = JSON.stringify([message.sourceChain, message.destinationChain]);
+    const entry = totals.get(key) ?? {
+      route: { source: message.sourceChain, target: message.destinationChain },
+      messages: 0,
+    };
+    entry.messages += message.messageCount;
+    totals.set(key, entry);
+  }));
+  return totals;
+}
+
+// Routes by descending message count; ties keep the same rank
+function rankTotals(totals: Map<string, { messages: number }>): Map<string, number> {
+  const ranks = new Map<string, number>();
+  const sorted = Array.from(totals.entries())
+    .filter(([, entry]) => entry.messages > 0)
+    .sort((a, b) => b[1].messages - a[1].messages);
+  sorted.forEach(([key, entry], index) => {
+    const previous = sorted[index - 1];
+    ranks.set(key, previous && previous[1].messages === entry.messages ? ranks.get(previous[0]) ?? index + 1 : index + 1);
+  });
+  return ranks;
+}
+
+/**
+ * Every route active in the current period, busiest first, with its rank and
+ * share in the current and previous periods
+ */
+export function rankRoutes({ current, previous }: TeleporterPeriodSplit): TeleporterRouteRanking[] {
+  const currentTotals = sumRoutes(current);
+  const previousTotals = sumRoutes(previous);
+  const currentRanks = rankTotals(currentTotals);
+  const previousRanks = rankTotals(previousTotals);
+  const currentSum = Array.from(currentTotals.values()).reduce((sum, entry) => sum + entry.messages, 0);
+  const previousSum = Array.from(previousTotals.values()).reduce((sum, entry) => sum + entry.messages, 0);
+
+  return Array.from(currentTotals.entries())
+    .filter(([key]) => currentRanks.has(key))
+    .map(([key, entry]) => {
+      const previousMessages = previousTotals.get(key)?.messages ?? 0;
+      return {
+        ...entry.route,
+        messages: entry.messages,
+        share: currentSum > 0 ? entry.messages / currentSum : 0,
+        rank: currentRanks.get(key) ?? 0,
+        previousMessages,
+        previousShare: previousSum > 0 ? previousMessages / previousSum : 0,
+        previousRank: previousRanks.get(key) ?? null,
+      };
+    })
+    .sort((a, b) => a.rank - b.rank || a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+}
+
+/**
+ * Chains that sent or received messages in the history, sorted by name
+ */
+export function getRouteChains(history: TeleporterDailyData[]): { sources: string[]; targets: string[] } {
+  const sources = new Set<string>();
+  const targets = new Set<string>();
+  history.forEach(day => day.data.forEach(message => {
+    sources.add(message.sourceChain);
+    targets.add(message.destinationChain);
+  }));
+  const byName = (a: string, b: string) => a.localeCompare(b);
+  return { sources: Array.from(sources).sort(byName), targets: Array.from(targets).sort(byName) };
+}
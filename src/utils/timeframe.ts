@@ -0,0 +1,153 @@
+// src/utils/timeframe.ts
+import type { Timeframe, TimeframePreset, DateRange } from '../types';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Requested for "all"; the API returns whatever history it has within it
+export const ALL_TIME_DAYS = 3650;
+
+// Charts render at most this many points; longer series are downsampled
+export const MAX_CHART_POINTS = 180;
+
+export const TIMEFRAME_PRESETS: { value: TimeframePreset; label: string }[] = [
+  { value: 7, label: '7D' },
+  { value: 14, label: '14D' },
+  { value: 30, label: '30D' },
+  { value: 90, label: '90D' },
+  { value: 365, label: '1Y' },
+  { value: 'all', label: 'All' },
+];
+
+export function isDateRange(timeframe: Timeframe): timeframe is DateRange {
+  return typeof timeframe === 'object';
+}
+
+/**
+ * UTC calendar date of a unix timestamp (seconds), e.g. "2025-06-01"
+ */
+export function toIsoDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Unix timestamp (seconds) of UTC midnight for a "yyyy-MM-dd" date, or null if invalid
+ */
+export function parseIsoDate(value: string): number | null {
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(time) ? time / 1000 : null;
+}
+
+/**
+ * Number of days of history to request so the timeframe is covered. Custom
+ * ranges request everything from their start date up to today.
+ */
+export function getTimeframeDays(timeframe: Timeframe, now: number = Date.now()): number {
+  if (timeframe === 'all') return ALL_TIME_DAYS;
+  if (isDateRange(timeframe)) {
+    const days = Math.floor(now / 1000 / DAY_SECONDS) - Math.floor(timeframe.start / DAY_SECONDS) + 1;
+    return Math.min(ALL_TIME_DAYS, Math.max(1, days));
+  }
+  return timeframe;
+}
+
+/**
+ * Stable string for cache keys and filenames, e.g. "30", "all" or
+ * "2025-01-01_2025-03-31"
+ */
+export function getTimeframeKey(timeframe: Timeframe): string {
+  if (!isDateRange(timeframe)) return String(timeframe);
+  return `${toIsoDate(timeframe.start)}_${toIsoDate(timeframe.end)}`;
+}
+
+/**
+ * Inverse of getTimeframeKey, or null if the key is not a known preset or a valid range
+ */
+export function parseTimeframeKey(key: string): Timeframe | null {
+  const preset = TIMEFRAME_PRESETS.find(option => String(option.value) === key);
+  if (preset) return preset.value;
+
+  const match = key.match(/^(\d{4}-\d{2}-\d{2})_(\d{4}-\d{2}-\d{2})$/);
+  if (!match) return null;
+  const start = parseIsoDate(match[1]);
+  const end = parseIsoDate(match[2]);
+  if (start === null || end === null || start > end) return null;
+  return { start, end };
+}
+
+/**
+ * Short label for filenames and headings, e.g. "30d", "all-time", "2025-01-01_2025-03-31"
+ */
+export function getTimeframeLabel(timeframe: Timeframe): string {
+  if (timeframe === 'all') return 'all-time';
+  return isDateRange(timeframe) ? getTimeframeKey(timeframe) : `${timeframe}d`;
+}
+
+/**
+ * Keep only points inside a custom range; preset timeframes are returned as-is
+ * @param getTimestamp Unix timestamp (seconds) of a point
+ */
+export function filterToTimeframe<T>(points: T[], getTimestamp: (point: T) => number, timeframe: Timeframe): T[] {
+  if (!isDateRange(timeframe)) return points;
+  // The end date is inclusive
+  const end = timeframe.end + DAY_SECONDS;
+  return points.filter(point => {
+    const timestamp = getTimestamp(point);
+    return timestamp >= timeframe.start && timestamp < end;
+  });
+}
+
+/**
+ * Reduce a series to at most `threshold` points with Largest-Triangle-Three-Buckets,
+ * which keeps peaks and dips visible. The first and last points are always kept.
+ */
+export function downsample<T>(
+  points: T[],
+  threshold: number,
+  getX: (point: T) => number,
+  getY: (point: T) => number
+): T[] {
+  if (threshold < 3 || points.length <= threshold) return points;
+
+  const sampled: T[] = [points[0]];
+  const bucketSize = (points.length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += getX(points[i]);
+      avgY += getY(points[i]);
+    }
+    const nextCount = Math.max(1, nextEnd - nextStart);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    const previousX = getX(points[previous]);
+    const previousY = getY(points[previous]);
+    let maxArea = -1;
+    let selected = start;
+
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (previousX - avgX) * (getY(points[i]) - previousY) -
+        (previousX - getX(points[i])) * (avgY - previousY)
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        selected = i;
+      }
+    }
+
+    sampled.push(points[selected]);
+    previous = selected;
+  }
+
+  sampled.push(points[points.length - 1]);
+  return sampled;
+}
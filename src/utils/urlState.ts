@@ -0,0 +1,79 @@
+// src/utils/urlState.ts
+import type { Timeframe } from '../types';
+import { getTimeframeKey, parseTimeframeKey } from './timeframe';
+
+// Converts a value to and from a query parameter
+export interface UrlParamCodec<T> {
+  // Returns undefined for values that don't parse, so the default is used
+  parse: (value: string) => T | undefined;
+  serialize: (value: T) => string;
+}
+
+export interface UrlParamConfig<T> {
+  codec: UrlParamCodec<T>;
+  // Used when the parameter is missing; values equal to it are left out of the URL
+  defaultValue: T;
+}
+
+export type UrlParamsSchema<T> = { [K in keyof T]: UrlParamConfig<T[K]> };
+
+export const stringParam: UrlParamCodec<string> = {
+  parse: value => value,
+  serialize: value => value,
+};
+
+export const booleanParam: UrlParamCodec<boolean> = {
+  parse: value => (value === '1' ? true : value === '0' ? false : undefined),
+  serialize: value => (value ? '1' : '0'),
+};
+
+export const timeframeParam: UrlParamCodec<Timeframe> = {
+  parse: value => parseTimeframeKey(value) ?? undefined,
+  serialize: getTimeframeKey,
+};
+
+/**
+ * Codec for one of a fixed set of strings, e.g. a sort option
+ */
+export function enumParam<T extends string>(values: readonly T[]): UrlParamCodec<T> {
+  return {
+    parse: value => values.find(option => option === value),
+    serialize: value => value,
+  };
+}
+
+function schemaKeys<T>(schema: UrlParamsSchema<T>) {
+  return Object.keys(schema) as (keyof T & string)[];
+}
+
+/**
+ * Values for every parameter in the schema, falling back to the defaults
+ */
+export function readUrlParams<T>(schema: UrlParamsSchema<T>, params: URLSearchParams): T {
+  const values = {} as T;
+  schemaKeys(schema).forEach(key => {
+    const { codec, defaultValue } = schema[key];
+    const raw = params.get(key);
+    values[key] = raw === null ? defaultValue : codec.parse(raw) ?? defaultValue;
+  });
+  return values;
+}
+
+/**
+ * Copy of the params with the changed values applied. Parameters outside the
+ * schema are kept as they are.
+ */
+export function writeUrlParams<T>(schema: UrlParamsSchema<T>, params: URLSearchParams, changes: Partial<T>): URLSearchParams {
+  const next = new URLSearchParams(params);
+  schemaKeys(schema).forEach(key => {
+    if (!(key in changes)) return;
+    const { codec, defaultValue } = schema[key];
+    const value = codec.serialize(changes[key] as T[typeof key]);
+    if (value === '' || value === codec.serialize(defaultValue)) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  });
+  return next;
+}
@@ -0,0 +1,72 @@
+// src/utils/validatorHistory.ts
+import type { Validator, ValidatorSnapshot } from '../types';
+
+export interface ValidatorWeightChange {
+  address: string;
+  previousWeight: number;
+  weight: number;
+  delta: number;
+}
+
+export interface ValidatorSetDiff {
+  joined: Validator[];
+  left: Validator[];
+  // Validators present in both sets whose weight changed, largest change first
+  weightChanges: ValidatorWeightChange[];
+  totalWeightDelta: number;
+}
+
+/**
+ * Compare two validator sets by address
+ * @param previous Earlier validator set
+ * @param current Later validator set
+ * @returns Validators that joined or left, and weight changes of the rest
+ */
+export function diffValidatorSets(previous: Validator[], current: Validator[]): ValidatorSetDiff {
+  const previousByAddress = new Map(previous.map(validator => [validator.address, validator]));
+  const currentAddresses = new Set(current.map(validator => validator.address));
+
+  const joined = current.filter(validator => !previousByAddress.has(validator.address));
+  const left = previous.filter(validator => !currentAddresses.has(validator.address));
+
+  const weightChanges = current
+    .filter(validator => previousByAddress.has(validator.address))
+    .map(validator => {
+      const previousWeight = previousByAddress.get(validator.address)!.weight;
+      return {
+        address: validator.address,
+        previousWeight,
+        weight: validator.weight,
+        delta: validator.weight - previousWeight,
+      };
+    })
+    .filter(change => change.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  const sumWeights = (validators: Validator[]) => validators.reduce((sum, validator) => sum + validator.weight, 0);
+
+  return {
+    joined,
+    left,
+    weightChanges,
+    totalWeightDelta: sumWeights(current) - sumWeights(previous),
+  };
+}
+
+/**
+ * Uptime of each validator across snapshots, null where it was not in the set
+ * @param snapshots Snapshots ordered oldest first
+ * @param addresses Validators to include
+ */
+export function getUptimeSeries(snapshots: ValidatorSnapshot[], addresses: string[]): Map<string, (number | null)[]> {
+  const series = new Map<string, (number | null)[]>(addresses.map(address => [address, []]));
+
+  snapshots.forEach(snapshot => {
+    const uptimes = new Map(snapshot.validators.map(validator => [validator.address, validator.uptime]));
+    series.forEach((values, address) => {
+      values.push(uptimes.get(address) ?? null);
+    });
+  });
+
+  return series;
+}